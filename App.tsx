@@ -5,57 +5,88 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { Hero } from './components/Hero';
-import { InputArea } from './components/InputArea';
+import { InputArea, ArtifactUpload, GenerateOptions, PendingArtifact } from './components/InputArea';
 import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
-import { bringToLife } from './services/gemini';
-import { ArrowUpTrayIcon, CpuChipIcon, ExclamationTriangleIcon, ShieldExclamationIcon } from '@heroicons/react/24/solid';
-
-const SESSION_TOKEN_LIMIT = 2000000; // 2 Million tokens session budget
-
-const TokenMeter = ({ used }: { used: number }) => {
-  const remaining = Math.max(0, SESSION_TOKEN_LIMIT - used);
-  const percentage = Math.min(100, (used / SESSION_TOKEN_LIMIT) * 100);
+import { CreationHistory, Creation, CreationArtifact, CreationVersion } from './components/CreationHistory';
+import { ModelSettings } from './components/ModelSettings';
+import { StorageManager } from './components/StorageManager';
+import { ArchiveBrowser } from './components/ArchiveBrowser';
+import { UsageReport } from './components/UsageReport';
+import { StyleProfiles } from './components/StyleProfiles';
+import { assertComplete, bringToLife, bringToLifeStream, refineCreation, patchElement, repairCreation, mergeVariants, buildVariantSpecs, buildGenerationMetadata, buildGenerationInput, countGenerationTokens, estimateDraftTokens, CallOptions, GenerationInput, GenerationProgress, InstructionContext, RuntimeErrorReport } from './services/gemini';
+import { DEFAULT_OUTPUT_TOKENS } from './services/tokens';
+import { ERROR_MESSAGES, GenerationError, isCancellation, throwIfAborted, toGenerationError } from './services/errors';
+import { DEFAULT_PROVIDER_SETTINGS, ProviderSettings, TokenUsage } from './services/providers';
+import { appendVersion, createVersion, forkCreation, reviveVersions } from './services/versions';
+import { deleteCreations, formatBytes, getStorageEstimate, isQuotaError, loadCreations, loadSources, migrateLegacyHistory, saveCreation, StorageEstimate } from './services/storage';
+import { hasUnloadedArtifacts, reviveArtifacts } from './services/artifacts';
+import { DEFAULT_SANDBOX_SETTINGS, SandboxSettings } from './services/sandbox';
+import { getSelectedProfile, loadStyleLibrary, saveStyleLibrary, StyleLibrary, toStyleGuide } from './services/styleProfiles';
+import { DEFAULT_OUTPUT_TARGET } from './services/targets';
+import { ElementRange } from './services/inspector';
+import { captureThumbnail, hashSource, isSnapshotCurrent } from './services/capture';
+import { BUDGET_LABELS, BUDGET_WARNING_THRESHOLD, BudgetStatus, BudgetUnit, checkPendingUsage, createUsageEntry, formatBudgetAmount, formatCost, formatTokenCount, GenerationEstimate, getBudgetStatuses, getEntriesSince, getStartOfDay, getTightestBudget, getTotals, getTypicalOutputTokens, isBudgetExceeded, isBudgetUsedUp, loadUsageLedger, loadUsageSettings, saveUsageLedger, saveUsageSettings, UsageEntry, UsageOperation, UsageSettings } from './services/usage';
+import { ArrowUpTrayIcon, CpuChipIcon, ExclamationTriangleIcon, ShieldExclamationIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/solid';
+
+const formatMeterAmount = (value: number, unit: BudgetUnit) => unit === 'usd' ? formatCost(value) : formatTokenCount(value);
+
+const TokenMeter = ({ budget, todayTokens, todayCost, unit, onOpen }: { budget: BudgetStatus | null, todayTokens: number, todayCost: number, unit: BudgetUnit, onOpen: () => void }) => {
+  const percentage = budget ? Math.min(100, budget.percentage) : 0;
   const [pulse, setPulse] = useState(false);
 
   useEffect(() => {
-    if (used > 0) {
+    if (todayTokens > 0) {
       setPulse(true);
       const timer = setTimeout(() => setPulse(false), 1000);
       return () => clearTimeout(timer);
     }
-  }, [used]);
+  }, [todayTokens]);
 
   return (
-    <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-1.5 pointer-events-none">
-      <div className={`flex items-center gap-2 bg-zinc-900/80 backdrop-blur-md border border-zinc-800 rounded-lg px-3 py-1.5 transition-all duration-500 ${pulse ? 'ring-1 ring-blue-500/50 scale-105' : ''}`}>
+    <button
+      onClick={onOpen}
+      className="fixed top-4 right-4 z-50 flex flex-col items-end gap-1.5 group"
+      title="Usage & budgets"
+    >
+      <div className={`flex items-center gap-2 bg-zinc-900/80 backdrop-blur-md border border-zinc-800 group-hover:border-zinc-700 rounded-lg px-3 py-1.5 transition-all duration-500 ${pulse ? 'ring-1 ring-blue-500/50 scale-105' : ''}`}>
         <CpuChipIcon className={`w-4 h-4 ${pulse ? 'text-blue-400' : 'text-zinc-500'}`} />
         <div className="flex flex-col">
           <div className="flex justify-between w-32 items-baseline">
-            <span className="text-[10px] font-mono font-bold text-zinc-500 uppercase">Usage</span>
+            <span className="text-[10px] font-mono font-bold text-zinc-500 uppercase">{budget ? BUDGET_LABELS[budget.scope] : 'Today'}</span>
             <span className="text-[10px] font-mono text-zinc-300">
-              {used.toLocaleString()} <span className="text-zinc-600">/ {SESSION_TOKEN_LIMIT.toLocaleString()}</span>
+              {budget ? (
+                <>{formatMeterAmount(budget.used, unit)} <span className="text-zinc-600">/ {formatMeterAmount(budget.limit, unit)}</span></>
+              ) : formatMeterAmount(todayTokens, 'tokens')}
             </span>
           </div>
           <div className="w-full h-1 bg-zinc-800 rounded-full mt-1 overflow-hidden">
             <div 
-              className={`h-full transition-all duration-1000 ease-out ${percentage > 95 ? 'bg-red-500' : percentage > 80 ? 'bg-yellow-500' : 'bg-blue-500'}`} 
+              className={`h-full transition-all duration-1000 ease-out ${budget && isBudgetUsedUp(budget) ? 'bg-red-500' : percentage >= BUDGET_WARNING_THRESHOLD ? 'bg-yellow-500' : 'bg-blue-500'}`} 
               style={{ width: `${percentage}%` }}
             />
           </div>
         </div>
       </div>
-      <div className="text-[9px] font-mono text-zinc-600 uppercase tracking-tighter pr-1">
-        {remaining.toLocaleString()} tokens remaining
+      <div className="text-[9px] font-mono text-zinc-600 group-hover:text-zinc-400 uppercase tracking-tighter pr-1 transition-colors">
+        {todayTokens.toLocaleString()} tokens · ~{formatCost(todayCost)} today
       </div>
-    </div>
+    </button>
   );
 };
 
-const TokenWarningBanner = ({ percentage }: { percentage: number }) => {
-  if (percentage < 80) return null;
+const formatReset = (date: Date) => {
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const TokenWarningBanner = ({ budget, onManage }: { budget: BudgetStatus | null, onManage: () => void }) => {
+  if (!budget || budget.percentage < BUDGET_WARNING_THRESHOLD) return null;
 
-  const isCritical = percentage >= 95;
+  const isCritical = isBudgetUsedUp(budget);
+  const scope = BUDGET_LABELS[budget.scope].toLowerCase();
+  const reset = budget.resetsAt ? ` It resets ${formatReset(budget.resetsAt)}.` : '';
 
   return (
     <div className={`fixed top-0 left-0 right-0 z-[60] py-2 px-4 flex items-center justify-center gap-3 transition-all duration-500 animate-in slide-in-from-top-full ${
@@ -70,46 +101,135 @@ const TokenWarningBanner = ({ percentage }: { percentage: number }) => {
       )}
       <span className="text-xs uppercase tracking-wider font-mono">
         {isCritical 
-          ? "Critical Token Limit: Generation disabled to prevent session overflow." 
-          : "Heads up: You've used over 80% of your session token limit."}
+          ? `${scope} budget used up: generation is paused.${reset}` 
+          : `Heads up: You've used ${Math.floor(budget.percentage)}% of your ${scope} budget.${reset}`}
       </span>
+      <button onClick={onManage} className="text-xs font-bold underline underline-offset-2 whitespace-nowrap">Adjust budgets</button>
     </div>
   );
 };
 
+const GenerationErrorBanner = ({ error, onRetry, onOpenSettings, onManageBudgets, onDismiss }: { error: GenerationError, onRetry?: () => void, onOpenSettings: () => void, onManageBudgets: () => void, onDismiss: () => void }) => {
+  const { title, action } = ERROR_MESSAGES[error.kind];
+  const canRetry = onRetry && error.kind !== 'safety' && error.kind !== 'auth' && error.kind !== 'budget';
+
+  return (
+    <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] w-[min(40rem,calc(100%-2rem))] flex items-start gap-3 bg-zinc-900 border border-red-500/40 text-zinc-200 shadow-lg shadow-red-900/20 rounded-lg px-4 py-3 animate-in fade-in slide-in-from-bottom-4">
+      <ShieldExclamationIcon className="w-4 h-4 shrink-0 mt-0.5 text-red-400" />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-bold">{title}</p>
+        {/* Budget refusals carry their own figures; everything else gets the generic next step */}
+        <p className="text-xs text-zinc-400 mt-0.5">{error.kind === 'budget' ? error.message : action}</p>
+        {error.kind !== 'budget' && error.message && (
+          <p className="text-[10px] font-mono text-zinc-600 mt-1 truncate" title={error.message}>{error.message}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {canRetry && <button onClick={onRetry} className="text-xs font-bold underline underline-offset-2 whitespace-nowrap">Try again</button>}
+        {(error.kind === 'auth' || error.kind === 'quota') && (
+          <button onClick={onOpenSettings} className="text-xs font-bold underline underline-offset-2 whitespace-nowrap">Model settings</button>
+        )}
+        {error.kind === 'budget' && (
+          <button onClick={onManageBudgets} className="text-xs font-bold underline underline-offset-2 whitespace-nowrap">Adjust budgets</button>
+        )}
+        <button onClick={onDismiss} className="text-xs opacity-70 hover:opacity-100">Dismiss</button>
+      </div>
+    </div>
+  );
+};
+
+const StorageWarningBanner = ({ message, onManage, onDismiss }: { message: string, onManage: () => void, onDismiss: () => void }) => (
+  <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 bg-red-600 text-white shadow-lg shadow-red-900/20 rounded-lg px-4 py-2 animate-in fade-in slide-in-from-bottom-4">
+    <ShieldExclamationIcon className="w-4 h-4 shrink-0" />
+    <span className="text-xs font-mono">{message}</span>
+    <button onClick={onManage} className="text-xs font-bold underline underline-offset-2 whitespace-nowrap">Manage storage</button>
+    <button onClick={onDismiss} className="text-xs opacity-70 hover:opacity-100">Dismiss</button>
+  </div>
+);
+
+const PENDING_PROJECT_ID = 'pending';
+
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [history, setHistory] = useState<Creation[]>([]);
-  const [sessionTokens, setSessionTokens] = useState(0);
+  // Read synchronously so the persistence effect never overwrites the stored ledger with an empty one
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(loadUsageLedger);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [showUsage, setShowUsage] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  // The failed request is kept so "Try again" re-runs it with the current settings
+  const [generationError, setGenerationError] = useState<{ error: GenerationError; request?: { prompt: string; uploads: ArtifactUpload[]; options: GenerateOptions } } | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [sandboxSettings, setSandboxSettings] = useState<SandboxSettings>(DEFAULT_SANDBOX_SETTINGS);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [styleLibrary, setStyleLibrary] = useState<StyleLibrary>(loadStyleLibrary);
+  const [showStyleProfiles, setShowStyleProfiles] = useState(false);
+  const [variants, setVariants] = useState<Creation[] | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [showStorageManager, setShowStorageManager] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  // `${id}:${sourceHash}` of thumbnails that failed to render; not retried until the source changes
+  const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(() => new Set());
   const importInputRef = useRef<HTMLInputElement>(null);
 
-  const usagePercentage = (sessionTokens / SESSION_TOKEN_LIMIT) * 100;
-  const isLimitReached = usagePercentage >= 95;
-
-  // Load history and total session tokens from local storage
+  // Last persisted version of each creation; null until the archive has been loaded
+  const persistedRef = useRef<Map<string, Creation> | null>(null);
+  // Creations whose source artifact is already in storage, so it isn't rewritten on every edit
+  const storedSourcesRef = useRef<Set<string>>(new Set());
+  // The generation in flight; aborting it cancels the request and discards its result
+  const abortRef = useRef<AbortController | null>(null);
+  // Merges and edits of a creation in flight; they are aborted on reset, on switching creations and on unmount
+  const editAbortRef = useRef<Set<AbortController>>(new Set());
+
+  // Daily and weekly budgets gate new generations; edits to a creation also check its project budget
+  const isLimitReached = isBudgetExceeded(getBudgetStatuses(usageLedger, usageSettings));
+  const activeBudget = getTightestBudget(getBudgetStatuses(usageLedger, usageSettings, activeCreation?.id));
+  const today = getTotals(getEntriesSince(usageLedger, getStartOfDay()), usageSettings);
+  // Look and feel for new generations; edits reuse the style and target a creation was generated with
+  const selectedStyle = toStyleGuide(getSelectedProfile(styleLibrary));
+  const getInstructionContext = (creation?: Creation | null): InstructionContext => ({ style: creation?.generation?.style, target: creation?.target });
+
+  // Load history from IndexedDB and settings from local storage
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
-      const savedTokens = localStorage.getItem('gemini_session_tokens');
-      
-      if (savedTokens) {
-        setSessionTokens(parseInt(savedTokens, 10) || 0);
+      const savedSettings = localStorage.getItem('gemini_provider_settings');
+      const savedSandbox = localStorage.getItem('gemini_sandbox_settings');
+
+      if (savedSettings) {
+        try {
+          setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(savedSettings) });
+        } catch (e) {
+          console.error("Failed to load provider settings", e);
+        }
       }
 
-      let loadedHistory: Creation[] = [];
-      if (saved) {
+      if (savedSandbox) {
         try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
+          setSandboxSettings({ ...DEFAULT_SANDBOX_SETTINGS, ...JSON.parse(savedSandbox) });
         } catch (e) {
-          console.error("Failed to load history", e);
+          console.error("Failed to load sandbox settings", e);
         }
       }
 
+      let loadedHistory: Creation[] = [];
+      try {
+        await migrateLegacyHistory();
+      } catch (e) {
+        console.error("Failed to migrate legacy history", e);
+      }
+      try {
+        loadedHistory = await loadCreations();
+        loadedHistory.forEach(c => c.artifacts?.length && storedSourcesRef.current.add(c.id));
+        persistedRef.current = new Map(loadedHistory.map(c => [c.id, c]));
+      } catch (e) {
+        console.error("Failed to load history", e);
+        setStorageError("Archive storage is unavailable: creations will not be saved.");
+      }
+
       if (loadedHistory.length > 0) {
         setHistory(loadedHistory);
       } else {
@@ -125,7 +245,7 @@ const App: React.FC = () => {
                if (!res.ok) return null;
                const data = await res.json();
                return {
-                   ...data,
+                   ...reviveArtifacts(data),
                    timestamp: new Date(data.timestamp || Date.now()),
                    id: data.id || crypto.randomUUID()
                };
@@ -142,20 +262,193 @@ const App: React.FC = () => {
     initHistory();
   }, []);
 
-  // Save history and tokens when they change
+  const handleStorageError = (error: unknown) => {
+    console.error("Failed to save history", error);
+    setStorageError(isQuotaError(error)
+      ? "Storage is full: new creations are not being saved. Free up space to continue."
+      : "Failed to save to the archive.");
+  };
+
+  // Persist only the creations that changed since the last save
   useEffect(() => {
-    if (history.length > 0) {
-        try {
-            localStorage.setItem('gemini_app_history', JSON.stringify(history));
-        } catch (e) {
-            console.warn("Local storage full or error saving history", e);
-        }
+    const persisted = persistedRef.current;
+    if (!persisted) return;
+
+    const currentIds = new Set(history.map(c => c.id));
+    const removed = [...persisted.keys()].filter(id => !currentIds.has(id));
+    const changed = history.filter(c => persisted.get(c.id) !== c);
+    persistedRef.current = new Map(history.map(c => [c.id, c]));
+
+    if (removed.length > 0) {
+      removed.forEach(id => storedSourcesRef.current.delete(id));
+      deleteCreations(removed).catch(handleStorageError);
     }
+    changed.forEach(creation => {
+      const includeSource = !!creation.artifacts?.length && !hasUnloadedArtifacts(creation) && !storedSourcesRef.current.has(creation.id);
+      saveCreation(creation, includeSource)
+        .then(() => {
+          if (includeSource) storedSourcesRef.current.add(creation.id);
+        })
+        .catch(handleStorageError);
+    });
+
+    const timer = setTimeout(() => {
+      getStorageEstimate().then(setStorageEstimate).catch(() => {});
+    }, 1000);
+    return () => clearTimeout(timer);
   }, [history]);
 
+  // Captures missing or outdated thumbnails one at a time, pausing while a generation runs
+  useEffect(() => {
+    if (isGenerating || !persistedRef.current) return;
+    const pending = history.find(c => c.html && !isSnapshotCurrent(c) && !failedThumbnails.has(`${c.id}:${hashSource(c.html)}`));
+    if (!pending) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      captureThumbnail(pending, controller.signal)
+        .then(thumbnail => {
+          const update = (c: Creation) => c.id === pending.id && c.html === pending.html ? { ...c, thumbnail } : c;
+          setHistory(prev => prev.map(update));
+          setActiveCreation(prev => prev && update(prev));
+        })
+        .catch(error => {
+          if (isCancellation(error)) return;
+          console.warn(`Failed to capture a thumbnail for "${pending.name}"`, error);
+          setFailedThumbnails(prev => new Set(prev).add(`${pending.id}:${hashSource(pending.html)}`));
+        });
+    }, 1000);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [history, isGenerating, failedThumbnails]);
+
   useEffect(() => {
-    localStorage.setItem('gemini_session_tokens', sessionTokens.toString());
-  }, [sessionTokens]);
+    try {
+      saveUsageLedger(usageLedger);
+    } catch (error) {
+      // Budgets still apply for this session, since they are checked against the ledger in memory
+      console.error("Failed to save usage ledger", error);
+      setStorageError(isQuotaError(error)
+        ? "Browser storage is full: usage from this session won't be remembered after a reload."
+        : "Failed to save usage history.");
+    }
+  }, [usageLedger]);
+
+  const recordUsage = (settings: ProviderSettings, operation: UsageOperation, usage: TokenUsage | undefined, project?: { id: string; name: string }) => {
+    if (!usage) return;
+    setUsageLedger(prev => [...prev, createUsageEntry(settings, operation, usage, project)]);
+  };
+
+  const assertWithinBudget = (projectId?: string) => {
+    if (isBudgetExceeded(getBudgetStatuses(usageLedger, usageSettings, projectId))) {
+      throw new GenerationError('budget', "A usage budget is used up.");
+    }
+  };
+
+  // Starts a cancellable generation, superseding any that is still running
+  const beginGeneration = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setGenerationProgress(null);
+    setGenerationError(null);
+    setRetryStatus(null);
+    return controller;
+  };
+
+  // Clears the loading state, unless a newer generation has taken over in the meantime
+  const endGeneration = (controller: AbortController) => {
+    if (abortRef.current !== controller) return;
+    abortRef.current = null;
+    setIsGenerating(false);
+    setGenerationProgress(null);
+    setRetryStatus(null);
+  };
+
+  const callOptions = (controller: AbortController) => ({
+    signal: controller.signal,
+    onRetry: (error: GenerationError, attempt: number, delayMs: number) => {
+      setRetryStatus(`${ERROR_MESSAGES[error.kind].title}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})`);
+    },
+  });
+
+  const handleCancel = () => {
+    const controller = abortRef.current;
+    if (!controller) return;
+    controller.abort();
+    endGeneration(controller);
+  };
+
+  // Runs a merge or edit as a cancellable call. The call's usage is still recorded when it finishes after a
+  // cancel, but `throwIfAborted` keeps its result from landing on a creation the user has moved away from.
+  const runEdit = async <T,>(call: (options: CallOptions) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    editAbortRef.current.add(controller);
+    try {
+      return await call({ signal: controller.signal });
+    } finally {
+      editAbortRef.current.delete(controller);
+    }
+  };
+
+  const cancelEdits = () => {
+    editAbortRef.current.forEach(controller => controller.abort());
+    editAbortRef.current.clear();
+  };
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    cancelEdits();
+  }, []);
+
+  // Projects a generation of `count` parallel calls against the budgets; output size is guessed from past runs.
+  // A regeneration passes the creation it reruns, whose project budget and recorded settings then apply
+  const estimateGeneration = (
+    promptTokens: number,
+    source: GenerationEstimate['source'],
+    count: number,
+    regeneration?: { projectId: string; settings: ProviderSettings }
+  ): GenerationEstimate => {
+    const settings = regeneration?.settings ?? providerSettings;
+    const outputTokens = getTypicalOutputTokens(usageLedger, settings.model, DEFAULT_OUTPUT_TOKENS) * count;
+    // A new creation starts its own project, so the project budget covers only this request
+    const check = checkPendingUsage(usageLedger, usageSettings, {
+      provider: settings.provider,
+      model: settings.model,
+      operation: regeneration ? 'regenerate' : count > 1 ? 'variant' : 'generate',
+      promptTokens: promptTokens * count,
+      candidateTokens: outputTokens,
+    }, regeneration?.projectId ?? PENDING_PROJECT_ID);
+    return { promptTokens: promptTokens * count, outputTokens, source, ...check };
+  };
+
+  const budgetError = (estimate: GenerationEstimate) => new GenerationError('budget', `This request needs about ${formatTokenCount(estimate.promptTokens + estimate.outputTokens)} tokens, which would take your ${BUDGET_LABELS[estimate.exceeded.scope].toLowerCase()} budget to ${formatBudgetAmount(estimate.exceeded.used, usageSettings.unit)} of ${formatBudgetAmount(estimate.exceeded.limit, usageSettings.unit)}. Send fewer pages or artifacts, or raise the budget.`);
+
+  const estimateDraft = (prompt: string, artifacts: PendingArtifact[], options: GenerateOptions) =>
+    estimateGeneration(estimateDraftTokens(prompt, artifacts, { style: selectedStyle, target: options.target }), 'heuristic', options.variantCount);
+
+  const handleStyleLibraryChange = (library: StyleLibrary) => {
+    setStyleLibrary(library);
+    saveStyleLibrary(library);
+  };
+
+  const handleUsageSettingsChange = (settings: UsageSettings) => {
+    setUsageSettings(settings);
+    saveUsageSettings(settings);
+  };
+
+  const handleSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    localStorage.setItem('gemini_provider_settings', JSON.stringify(settings));
+  };
+
+  const handleSandboxChange = (settings: SandboxSettings) => {
+    setSandboxSettings(settings);
+    localStorage.setItem('gemini_sandbox_settings', JSON.stringify(settings));
+  };
 
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -173,43 +466,159 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGenerate = async (promptText: string, file?: File) => {
+  const handleGenerate = async (promptText: string, uploads: ArtifactUpload[], options: GenerateOptions = { variantCount: 1, target: DEFAULT_OUTPUT_TARGET }) => {
     if (isLimitReached) return;
-    setIsGenerating(true);
+    const controller = beginGeneration();
     setActiveCreation(null);
+    setVariants(null);
 
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
+      const artifacts: CreationArtifact[] = await Promise.all(uploads.map(async ({ file, role, pageSelection }) => {
+        const mimeType = file.type.toLowerCase();
+        return {
+          name: file.name,
+          role,
+          mimeType,
+          dataUrl: `data:${mimeType};base64,${await fileToBase64(file)}`,
+          pageSelection: mimeType === 'application/pdf' ? pageSelection : undefined,
+        };
+      }));
 
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
+      const input = await buildGenerationInput(promptText, artifacts, undefined, { style: selectedStyle, target: options.target });
+      // Count the real payload before sending it, so a large PDF can't overrun a budget unnoticed
+      const { promptTokens, source } = await countGenerationTokens(input, providerSettings, controller.signal);
+      const estimate = estimateGeneration(promptTokens, source, options.variantCount);
+      if (estimate.exceeded) throw budgetError(estimate);
+
+      if (options.variantCount > 1) {
+        await generateVariants(promptText, artifacts, input, options.variantCount, controller);
+        return;
       }
 
-      const result = await bringToLife(promptText, imageBase64, mimeType);
-      
-      if (result.html) {
-        if (result.usage) {
-          setSessionTokens(prev => prev + result.usage!.totalTokenCount);
-        }
+      const startedAt = performance.now();
+      const result = await bringToLifeStream(input, setGenerationProgress, providerSettings, callOptions(controller));
+      if (controller.signal.aborted) return;
+
+      const id = crypto.randomUUID();
+      const name = artifacts[0]?.name || 'New Creation';
+      recordUsage(providerSettings, 'generate', result.usage, { id, name });
 
+      if (result.html) {
         const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: file ? file.name : 'New Creation',
+          id,
+          name,
           html: result.html,
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
+          target: input.target,
+          artifacts: artifacts.length > 0 ? artifacts : undefined,
           timestamp: new Date(),
+          prompt: promptText || undefined,
+          generation: buildGenerationMetadata(providerSettings, result, startedAt, undefined, input.style),
+          versions: [createVersion(result.html, 'generated')],
         };
         setActiveCreation(newCreation);
         setHistory(prev => [newCreation, ...prev]);
       }
 
     } catch (error) {
+      if (isCancellation(error)) return;
       console.error("Failed to generate:", error);
-      alert("Something went wrong while bringing your file to life. Please try again.");
+      setGenerationError({ error: toGenerationError(error), request: { prompt: promptText, uploads, options } });
     } finally {
-      setIsGenerating(false);
+      endGeneration(controller);
+    }
+  };
+
+  // Runs one non-streaming generation per variant spec in parallel; failed variants are dropped
+  const generateVariants = async (promptText: string, artifacts: CreationArtifact[], input: GenerationInput, count: number, controller: AbortController) => {
+    const specs = buildVariantSpecs(count, providerSettings.temperature);
+    const startedAt = performance.now();
+    const results = await Promise.allSettled(specs.map(spec =>
+      bringToLife({ ...input, directive: spec.directive }, { ...providerSettings, temperature: spec.temperature }, callOptions(controller))
+    ));
+    if (controller.signal.aborted) return;
+
+    const generated: Creation[] = [];
+    results.forEach((result, idx) => {
+      if (result.status === 'rejected') {
+        console.error(`Variant "${specs[idx].label}" failed:`, result.reason);
+        return;
+      }
+      const id = crypto.randomUUID();
+      const name = `${artifacts[0]?.name || 'New Creation'} (${specs[idx].label})`;
+      recordUsage({ ...providerSettings, temperature: specs[idx].temperature }, 'variant', result.value.usage, { id, name });
+      generated.push({
+        id,
+        name,
+        html: result.value.html,
+        target: input.target,
+        artifacts: artifacts.length > 0 ? artifacts : undefined,
+        timestamp: new Date(),
+        prompt: promptText || undefined,
+        generation: buildGenerationMetadata({ ...providerSettings, temperature: specs[idx].temperature }, result.value, startedAt, specs[idx].directive, input.style),
+        versions: [createVersion(result.value.html, 'generated', `${specs[idx].label} variant`)],
+      });
+    });
+
+    if (generated.length === 0) {
+      // Every variant failed, most likely for the same reason, so report the first
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    setVariants(generated);
+  };
+
+  const addToHistory = (creations: Creation[]) => {
+    setHistory(prev => [...creations.filter(c => !prev.some(p => p.id === c.id)), ...prev]);
+  };
+
+  const handlePickVariant = (variant: Creation) => {
+    addToHistory([variant]);
+    setVariants(null);
+    setActiveCreation(variant);
+  };
+
+  // Failed merges and edits go to the same banner as generations; there is no request to retry
+  const handleEditError = (error: unknown) => setGenerationError({ error: toGenerationError(error) });
+
+  const handleMergeVariants = async (selected: Creation[], guidance?: string) => {
+    if (isLimitReached || selected.length < 2) return;
+    setIsMerging(true);
+
+    try {
+      const startedAt = performance.now();
+      const context = getInstructionContext(selected[0]);
+      const id = crypto.randomUUID();
+      const name = `${selected[0].name.replace(/ \([^)]*\)$/, '')} (Merged)`;
+      const result = await runEdit(async options => {
+        const merged = await mergeVariants(
+          selected.map(v => ({ label: v.name, html: v.html })),
+          providerSettings,
+          guidance,
+          context,
+          options
+        );
+        recordUsage(providerSettings, 'merge', merged.usage, { id, name });
+        throwIfAborted(options.signal);
+        return merged;
+      });
+
+      const merged: Creation = {
+        id,
+        name,
+        html: result.html,
+        target: context.target,
+        artifacts: selected[0].artifacts,
+        timestamp: new Date(),
+        prompt: selected[0].prompt,
+        generation: buildGenerationMetadata(providerSettings, result, startedAt, undefined, context.style),
+        versions: [createVersion(result.html, 'generated', `Merged from ${selected.map(v => v.name).join(', ')}`)],
+      };
+      handlePickVariant(merged);
+    } catch (error) {
+      if (isCancellation(error)) return;
+      console.error("Failed to merge:", error);
+      handleEditError(error);
+    } finally {
+      setIsMerging(false);
     }
   };
 
@@ -218,15 +627,128 @@ const App: React.FC = () => {
     setActiveCreation(updated);
   };
 
+  const handleRefine = async (creation: Creation, currentHtml: string, instruction: string): Promise<string> => {
+    assertWithinBudget(creation.id);
+
+    return runEdit(async options => {
+      const result = await refineCreation(instruction, currentHtml, creation.conversation || [], creation.artifacts || [], providerSettings, getInstructionContext(creation), options);
+      recordUsage(providerSettings, 'refine', result.usage, creation);
+      throwIfAborted(options.signal);
+      return assertComplete(result, 'refinement').html;
+    });
+  };
+
+  const handlePatchElement = async (creation: Creation, currentHtml: string, range: ElementRange, instruction: string): Promise<string> => {
+    assertWithinBudget(creation.id);
+
+    return runEdit(async options => {
+      const result = await patchElement(instruction, currentHtml, range, providerSettings, getInstructionContext(creation), options);
+      recordUsage(providerSettings, 'patch', result.usage, creation);
+      throwIfAborted(options.signal);
+      return assertComplete(result, 'element edit').html;
+    });
+  };
+
+  const handleRepair = async (currentHtml: string, errors: RuntimeErrorReport[]): Promise<string> => {
+    assertWithinBudget(activeCreation?.id);
+
+    return runEdit(async options => {
+      const result = await repairCreation(currentHtml, errors, providerSettings, getInstructionContext(activeCreation), options);
+      recordUsage(providerSettings, 'repair', result.usage, activeCreation ?? undefined);
+      throwIfAborted(options.signal);
+      return assertComplete(result, 'repair').html;
+    });
+  };
+
+  // Re-runs a generation from the creation's recorded inputs and returns it with the result as a new version
+  const handleRegenerate = async (creation: Creation, promptText: string): Promise<Creation> => {
+    assertWithinBudget(creation.id);
+
+    const settings: ProviderSettings = creation.generation
+      ? { ...providerSettings, provider: creation.generation.provider, model: creation.generation.model, temperature: creation.generation.temperature }
+      : providerSettings;
+
+    const controller = beginGeneration();
+    try {
+      const startedAt = performance.now();
+      const directive = creation.generation?.directive;
+      const input = await buildGenerationInput(promptText, creation.artifacts || [], directive, getInstructionContext(creation));
+      // Stored PDFs and artifacts are sent again, so the rebuilt request is checked like a first one
+      const { promptTokens, source } = await countGenerationTokens(input, settings, controller.signal);
+      const estimate = estimateGeneration(promptTokens, source, 1, { projectId: creation.id, settings });
+      if (estimate.exceeded) throw budgetError(estimate);
+      const result = await bringToLifeStream(input, setGenerationProgress, settings, callOptions(controller));
+      recordUsage(settings, 'regenerate', result.usage, creation);
+      // A cancelled or cut-off stream must not become a version of the creation
+      throwIfAborted(controller.signal);
+      if (!result.html) throw new GenerationError('invalid-output', 'The regeneration returned no app');
+      const html = assertComplete(result, 'regeneration').html;
+
+      const label = promptText === (creation.prompt || '') ? 'Regenerated' : `Regenerated: ${promptText}`;
+      return {
+        ...appendVersion(creation, html, 'generated', label),
+        prompt: promptText || undefined,
+        generation: buildGenerationMetadata(settings, result, startedAt, directive, input.style),
+      };
+    } finally {
+      endGeneration(controller);
+    }
+  };
+
+  const handleForkVersion = (creation: Creation, version: CreationVersion, versionNumber: number) => {
+    const fork = forkCreation(creation, version, versionNumber);
+    setHistory(prev => [fork, ...prev]);
+    setActiveCreation(fork);
+  };
+
   const handleReset = () => {
+    handleCancel();
+    cancelEdits();
     setActiveCreation(null);
-    setIsGenerating(false);
+    setVariants(null);
   };
 
-  const handleSelectCreation = (creation: Creation) => {
+  const handleSelectCreation = async (creation: Creation) => {
+    if (creation.id !== activeCreation?.id) cancelEdits();
+    if (hasUnloadedArtifacts(creation)) {
+      try {
+        const sources = await loadSources(creation.id);
+        if (sources.length > 0) {
+          creation = { ...creation, artifacts: creation.artifacts!.map((artifact, idx) => ({ ...artifact, dataUrl: sources[idx] })) };
+          const hydrated = creation;
+          setHistory(prev => prev.map(c => c.id === hydrated.id ? hydrated : c));
+        }
+      } catch (e) {
+        console.error("Failed to load source artifact", e);
+      }
+    }
     setActiveCreation(creation);
   };
 
+  const handleRenameCreation = (id: string, name: string) => {
+    setHistory(prev => prev.map(c => c.id === id ? { ...c, name } : c));
+    setActiveCreation(prev => prev && prev.id === id ? { ...prev, name } : prev);
+  };
+
+  const handleDeleteCreations = async (ids: string[]) => {
+    try {
+      await deleteCreations(ids);
+    } catch (e) {
+      handleStorageError(e);
+      return;
+    }
+    // Already gone from storage, so keep the persistence effect from deleting them twice
+    ids.forEach(id => {
+      persistedRef.current?.delete(id);
+      storedSourcesRef.current.delete(id);
+    });
+    setHistory(prev => prev.filter(c => !ids.includes(c.id)));
+    setStorageError(null);
+    if (activeCreation && ids.includes(activeCreation.id)) {
+      setActiveCreation(null);
+    }
+  };
+
   const handleImportClick = () => {
     importInputRef.current?.click();
   };
@@ -242,9 +764,11 @@ const App: React.FC = () => {
             const parsed = JSON.parse(json);
             if (parsed.html && parsed.name) {
                 const importedCreation: Creation = {
-                    ...parsed,
+                    ...reviveArtifacts(parsed),
                     timestamp: new Date(parsed.timestamp || Date.now()),
-                    id: parsed.id || crypto.randomUUID()
+                    id: parsed.id || crypto.randomUUID(),
+                    versions: reviveVersions(parsed.versions),
+                    generation: parsed.generation && { ...parsed.generation, generatedAt: new Date(parsed.generation.generatedAt) }
                 };
                 setHistory(prev => {
                     const exists = prev.some(c => c.id === importedCreation.id);
@@ -263,16 +787,23 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
-  const isFocused = !!activeCreation || isGenerating;
+  const isFocused = !!activeCreation || isGenerating || !!variants;
+  const retryRequest = generationError?.request;
 
   return (
     <div className="h-[100dvh] bg-zinc-950 bg-dot-grid text-zinc-50 selection:bg-blue-500/30 overflow-y-auto overflow-x-hidden relative flex flex-col">
       
       {/* Global Notifications */}
-      <TokenWarningBanner percentage={usagePercentage} />
+      <TokenWarningBanner budget={activeBudget} onManage={() => setShowUsage(true)} />
 
       {/* Token Usage Meter */}
-      <TokenMeter used={sessionTokens} />
+      <TokenMeter
+        budget={activeBudget}
+        todayTokens={today.tokens + (generationProgress?.usage?.totalTokenCount ?? 0)}
+        todayCost={today.cost}
+        unit={usageSettings.unit}
+        onOpen={() => setShowUsage(true)}
+      />
 
       {/* Centered Content Container */}
       <div 
@@ -290,13 +821,28 @@ const App: React.FC = () => {
               <Hero />
           </div>
           <div className="w-full flex justify-center mb-8">
-              <InputArea onGenerate={handleGenerate} isGenerating={isGenerating} disabled={isFocused || isLimitReached} />
+              <InputArea
+                onGenerate={handleGenerate}
+                onEstimate={estimateDraft}
+                isGenerating={isGenerating}
+                disabled={isFocused || isLimitReached}
+                styleProfiles={styleLibrary.profiles}
+                styleProfileId={styleLibrary.selectedId}
+                onStyleProfileChange={(selectedId) => handleStyleLibraryChange({ ...styleLibrary, selectedId })}
+                onManageStyleProfiles={() => setShowStyleProfiles(true)}
+              />
           </div>
         </div>
         
         <div className="flex-shrink-0 pb-6 w-full mt-auto flex flex-col items-center gap-6">
             <div className="w-full px-2 md:px-0">
-                <CreationHistory history={history} onSelect={handleSelectCreation} />
+                <CreationHistory
+                  history={history}
+                  onSelect={handleSelectCreation}
+                  storageLabel={storageEstimate ? formatBytes(storageEstimate.usage) : undefined}
+                  onManageStorage={() => setShowStorageManager(true)}
+                  onBrowse={() => setShowArchive(true)}
+                />
             </div>
             <a 
               href="https://x.com/adamsanz_" 
@@ -312,11 +858,104 @@ const App: React.FC = () => {
       <LivePreview
         creation={activeCreation}
         isLoading={isGenerating}
+        progress={generationProgress}
+        modelName={providerSettings.model}
         isFocused={isFocused}
         onReset={handleReset}
         onUpdate={handleUpdateCreation}
+        onRefine={handleRefine}
+        onPatchElement={handlePatchElement}
+        onRepair={handleRepair}
+        onCancel={handleCancel}
+        onError={handleEditError}
+        retryStatus={retryStatus}
+        variants={variants}
+        isMerging={isMerging}
+        onPickVariant={handlePickVariant}
+        onKeepVariants={addToHistory}
+        onMergeVariants={handleMergeVariants}
+        onForkVersion={handleForkVersion}
+        onRegenerate={handleRegenerate}
+        sandbox={sandboxSettings}
+        onSandboxChange={handleSandboxChange}
       />
 
+      <div className="fixed bottom-4 left-4 z-50">
+        <button 
+            onClick={() => setShowModelSettings(!showModelSettings)}
+            className="flex items-center space-x-2 p-2 text-zinc-500 hover:text-zinc-300 transition-colors opacity-60 hover:opacity-100"
+            title="Model Settings"
+        >
+            <AdjustmentsHorizontalIcon className="w-5 h-5" />
+            <span className="text-xs font-mono tracking-wider hidden sm:inline">{providerSettings.model}</span>
+        </button>
+      </div>
+
+      {generationError && (
+        <GenerationErrorBanner
+          error={generationError.error}
+          onRetry={retryRequest && (() => handleGenerate(retryRequest.prompt, retryRequest.uploads, retryRequest.options))}
+          onOpenSettings={() => setShowModelSettings(true)}
+          onManageBudgets={() => setShowUsage(true)}
+          onDismiss={() => setGenerationError(null)}
+        />
+      )}
+
+      {storageError && (
+        <StorageWarningBanner
+          message={storageError}
+          onManage={() => setShowStorageManager(true)}
+          onDismiss={() => setStorageError(null)}
+        />
+      )}
+
+      {showArchive && (
+        <ArchiveBrowser
+          history={history}
+          onSelect={(creation) => {
+            setShowArchive(false);
+            handleSelectCreation(creation);
+          }}
+          onDelete={handleDeleteCreations}
+          onRename={handleRenameCreation}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
+      {showStorageManager && (
+        <StorageManager
+          history={history}
+          onDelete={handleDeleteCreations}
+          onClose={() => setShowStorageManager(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsageReport
+          ledger={usageLedger}
+          settings={usageSettings}
+          onChange={handleUsageSettingsChange}
+          onClearLedger={() => setUsageLedger([])}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showStyleProfiles && (
+        <StyleProfiles
+          library={styleLibrary}
+          onChange={handleStyleLibraryChange}
+          onClose={() => setShowStyleProfiles(false)}
+        />
+      )}
+
+      {showModelSettings && (
+        <ModelSettings
+          settings={providerSettings}
+          onChange={handleSettingsChange}
+          onClose={() => setShowModelSettings(false)}
+        />
+      )}
+
       <div className="fixed bottom-4 right-4 z-50">
         <button 
             onClick={handleImportClick}
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { ArchiveBoxIcon, CheckIcon, DocumentIcon, MagnifyingGlassIcon, PencilIcon, PhotoIcon, TrashIcon, XMarkIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { CreationThumbnail } from './CreationThumbnail';
+import { getSourceType } from '../services/storage';
+
+interface ArchiveBrowserProps {
+  history: Creation[];
+  onSelect: (creation: Creation) => void;
+  onDelete: (ids: string[]) => Promise<void>;
+  onRename: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+type SourceFilter = 'all' | 'image' | 'pdf' | 'text';
+type DateFilter = 'all' | 'today' | 'week' | 'month';
+type SortOrder = 'newest' | 'oldest' | 'name-asc' | 'name-desc';
+
+const SOURCE_FILTERS: { value: SourceFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Image' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'text', label: 'Text only' },
+];
+
+const DATE_FILTERS: { value: DateFilter; label: string; days?: number }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today', days: 1 },
+  { value: 'week', label: 'Last 7 days', days: 7 },
+  { value: 'month', label: 'Last 30 days', days: 30 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getSourceKind = (creation: Creation): Exclude<SourceFilter, 'all'> => {
+  const type = getSourceType(creation);
+  if (!type) return 'text';
+  return type === 'application/pdf' ? 'pdf' : 'image';
+};
+
+const selectClass = "bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-md text-xs text-zinc-300 px-2 py-1.5 outline-none";
+
+export const ArchiveBrowser: React.FC<ArchiveBrowserProps> = ({ history, onSelect, onDelete, onRename, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  // Searching HTML across hundreds of creations is the slow part; keep typing responsive
+  const deferredQuery = useDeferredValue(query);
+
+  const results = useMemo(() => {
+    const needle = deferredQuery.trim().toLowerCase();
+    const days = DATE_FILTERS.find(f => f.value === dateFilter)?.days;
+    const since = days ? (dateFilter === 'today' ? new Date().setHours(0, 0, 0, 0) : Date.now() - days * DAY_MS) : 0;
+
+    const filtered = history.filter(c => {
+      if (sourceFilter !== 'all' && getSourceKind(c) !== sourceFilter) return false;
+      if (c.timestamp.getTime() < since) return false;
+      if (!needle) return true;
+      return c.name.toLowerCase().includes(needle)
+        || (c.prompt || '').toLowerCase().includes(needle)
+        || c.html.toLowerCase().includes(needle);
+    });
+
+    return filtered.sort((a, b) => {
+      switch (sortOrder) {
+        case 'oldest': return a.timestamp.getTime() - b.timestamp.getTime();
+        case 'name-asc': return a.name.localeCompare(b.name);
+        case 'name-desc': return b.name.localeCompare(a.name);
+        case 'newest':
+        default: return b.timestamp.getTime() - a.timestamp.getTime();
+      }
+    });
+  }, [history, deferredQuery, sourceFilter, dateFilter, sortOrder]);
+
+  const allSelected = results.length > 0 && results.every(c => selectedIds.has(c.id));
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(results.map(c => c.id)));
+  };
+
+  const handleDelete = async () => {
+    if (selectedIds.size === 0) return;
+    if (!confirm(`Permanently delete ${selectedIds.size} creation(s)?`)) return;
+    await onDelete([...selectedIds]);
+    setSelectedIds(new Set());
+  };
+
+  const startRename = (creation: Creation) => {
+    setRenamingId(creation.id);
+    setRenameDraft(creation.name);
+  };
+
+  const commitRename = () => {
+    const name = renameDraft.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-zinc-950/95 backdrop-blur-sm flex flex-col animate-in fade-in duration-200">
+      <div className="px-4 sm:px-6 py-3 border-b border-zinc-800 flex items-center gap-3 shrink-0">
+        <ArchiveBoxIcon className="w-4 h-4 text-zinc-500" />
+        <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Archive</h2>
+        <span className="text-[10px] font-mono text-zinc-600">{results.length} / {history.length}</span>
+        <div className="flex-1" />
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title="Close Archive"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-4 sm:px-6 py-3 border-b border-zinc-800 flex flex-wrap items-center gap-2 shrink-0">
+        <div className="relative flex-1 min-w-[12rem]">
+          <MagnifyingGlassIcon className="w-4 h-4 text-zinc-600 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names, prompts and code..."
+            className="w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-md text-sm text-zinc-100 placeholder:text-zinc-600 pl-8 pr-3 py-1.5 outline-none"
+          />
+        </div>
+        <div className="flex items-center bg-zinc-900 border border-zinc-800 rounded-md p-0.5">
+          {SOURCE_FILTERS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => setSourceFilter(f.value)}
+              className={`px-2.5 py-1 rounded text-xs transition-colors ${sourceFilter === f.value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <select value={dateFilter} onChange={(e) => setDateFilter(e.target.value as DateFilter)} className={selectClass}>
+          {DATE_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className={selectClass}>
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="name-asc">Name A–Z</option>
+          <option value="name-desc">Name Z–A</option>
+        </select>
+      </div>
+
+      <div className="px-4 sm:px-6 py-2 flex items-center gap-3 shrink-0">
+        <button onClick={toggleAll} className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors">
+          {allSelected ? 'Clear selection' : 'Select all'}
+        </button>
+        {selectedIds.size > 0 && (
+          <button
+            onClick={handleDelete}
+            className="flex items-center space-x-1 text-xs font-bold px-3 py-1 rounded-md bg-red-500/90 text-white hover:bg-red-600 transition-colors"
+          >
+            <TrashIcon className="w-3 h-3" />
+            <span>Delete {selectedIds.size}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 sm:px-6 pb-6">
+        {results.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-zinc-600">No creations match these filters.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {results.map(item => {
+              const kind = getSourceKind(item);
+              const isSelected = selectedIds.has(item.id);
+              return (
+                <div
+                  key={item.id}
+                  className={`group relative flex flex-col rounded-lg overflow-hidden border bg-zinc-900/50 transition-all duration-200 ${isSelected ? 'border-blue-500' : 'border-zinc-800 hover:border-zinc-600'}`}
+                >
+                  <button onClick={() => onSelect(item)} className="block text-left" title="Open">
+                    <CreationThumbnail creation={item} />
+                  </button>
+                  <button
+                    onClick={() => toggle(item.id)}
+                    className={`absolute top-2 left-2 w-5 h-5 rounded border flex items-center justify-center transition-opacity ${isSelected ? 'bg-blue-500 border-blue-500 opacity-100' : 'bg-black/60 border-zinc-500 opacity-0 group-hover:opacity-100'}`}
+                    title="Select"
+                  >
+                    {isSelected && <CheckIcon className="w-3 h-3 text-white" />}
+                  </button>
+                  <div className="p-3 flex items-center gap-2">
+                    {kind === 'image' ? (
+                      <PhotoIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+                    ) : kind === 'pdf' ? (
+                      <DocumentIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+                    ) : (
+                      <ChatBubbleBottomCenterTextIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+                    )}
+                    {renamingId === item.id ? (
+                      <input
+                        autoFocus
+                        value={renameDraft}
+                        onChange={(e) => setRenameDraft(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded text-sm text-zinc-100 px-1.5 py-0.5 outline-none"
+                      />
+                    ) : (
+                      <h3
+                        onDoubleClick={() => startRename(item)}
+                        className="flex-1 min-w-0 text-sm font-medium text-zinc-300 truncate"
+                        title={item.prompt || item.name}
+                      >
+                        {item.name}
+                      </h3>
+                    )}
+                    <button
+                      onClick={() => startRename(item)}
+                      className="p-1 rounded text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Rename"
+                    >
+                      <PencilIcon className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="px-3 pb-3 -mt-1 text-[10px] font-mono text-zinc-600">
+                    {item.timestamp.toLocaleDateString()} · {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
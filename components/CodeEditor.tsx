@@ -0,0 +1,647 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  Bars3BottomLeftIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon
+} from '@heroicons/react/24/outline';
+import { CodeMinimap } from './CodeMinimap';
+import { CodeSearchBar } from './CodeSearchBar';
+import { getFoldRanges, getLineStarts, indexLineTokens, lineAt, SourceLanguage, TokenType, tokenize, VOID_ELEMENTS } from '../services/syntax';
+import { DiagnosticSeverity, groupByLine, lintSource } from '../services/lint';
+import { formatSource } from '../services/formatter';
+import { DEFAULT_SEARCH_OPTIONS, findMatches, getReplacement, replaceAll, SearchMatch, SearchOptions } from '../services/codeSearch';
+
+interface CodeEditorProps {
+  code: string;
+  language: SourceLanguage;
+  onChange: (code: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  revealLine?: { line: number; nonce: number } | null;
+}
+
+// Offsets into the document, not into the textarea, which leaves folded lines out
+interface Selection {
+  start: number;
+  end: number;
+}
+
+interface PendingSelection extends Selection {
+  focus?: boolean;
+  reveal?: boolean;
+  center?: boolean;
+  scrollTop?: number;
+}
+
+const LINE_HEIGHT = 20;
+const PADDING = 16;
+const OVERSCAN = 10; // Rows rendered above and below the viewport
+const INDENT = '  ';
+const NO_FOLDS = new Set<number>();
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  tag: 'text-orange-400',
+  attribute: 'text-sky-300',
+  string: 'text-green-400',
+  comment: 'text-zinc-600',
+  keyword: 'text-blue-400',
+  number: 'text-amber-300',
+  function: 'text-yellow-200',
+  property: 'text-sky-300',
+  selector: 'text-orange-300',
+  entity: 'text-pink-400',
+  meta: 'text-zinc-500',
+  bracket: 'text-zinc-400',
+  invalid: 'text-red-400',
+};
+
+const SEVERITY_CLASSES: Record<DiagnosticSeverity, string> = {
+  error: 'underline decoration-wavy decoration-red-500 underline-offset-4',
+  warning: 'underline decoration-wavy decoration-amber-500 underline-offset-4',
+};
+
+// Index of the first match that ends after `offset`
+const firstMatchAfter = (matches: SearchMatch[], offset: number) => {
+  let low = 0;
+  let high = matches.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (matches[mid].to <= offset) low = mid + 1; else high = mid;
+  }
+  return low;
+};
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ code, language, onChange, onUndo, onRedo, revealLine }) => {
+  const textAreaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelection = useRef<PendingSelection | null>(null);
+  const searchFrom = useRef<number | null>(null);
+
+  // Folds belong to the code they were made on; any change from outside, such as undo, opens them all
+  const [foldState, setFoldState] = useState<{ code: string; lines: Set<number> }>({ code, lines: NO_FOLDS });
+  const [selection, setSelection] = useState<Selection>({ start: 0, end: 0 });
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const [showSearch, setShowSearch] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [matchIndex, setMatchIndex] = useState(-1);
+  const [searchFocus, setSearchFocus] = useState(0);
+
+  const syntax = useMemo(() => tokenize(code, language), [code, language]);
+  const lineStarts = useMemo(() => getLineStarts(code), [code]);
+  const lineTokens = useMemo(() => indexLineTokens(syntax.tokens, lineStarts), [syntax, lineStarts]);
+  const foldRanges = useMemo(() => getFoldRanges(syntax, lineStarts), [syntax, lineStarts]);
+
+  // Linting compiles inline scripts, so it runs behind typing rather than on every keystroke
+  const lintCode = useDeferredValue(code);
+  const diagnostics = useMemo(
+    () => lintSource(lintCode, lintCode === code ? syntax : tokenize(lintCode, language), language),
+    [lintCode, language]
+  );
+  const diagnosticsByLine = useMemo(() => groupByLine(diagnostics, lineStarts), [diagnostics, lineStarts]);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+
+  const lineEnd = (line: number) => line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : code.length;
+
+  const folds = foldState.code === code ? foldState.lines : NO_FOLDS;
+  const rows = useMemo(() => {
+    const result: number[] = [];
+    for (let line = 0; line < lineStarts.length; line++) {
+      result.push(line);
+      const end = folds.has(line) ? foldRanges.get(line) : undefined;
+      if (end !== undefined) line = end - 1;
+    }
+    return result;
+  }, [lineStarts, folds, foldRanges]);
+  const isFolded = rows.length < lineStarts.length;
+
+  // The textarea holds only the visible lines
+  const { displayText, rowStarts } = useMemo(() => {
+    if (!isFolded) return { displayText: code, rowStarts: lineStarts };
+    const starts: number[] = [];
+    let length = 0;
+    const text = rows.map(line => {
+      const content = code.slice(lineStarts[line], lineEnd(line));
+      starts.push(length);
+      length += content.length + 1;
+      return content;
+    }).join('\n');
+    return { displayText: text, rowStarts: starts };
+  }, [code, rows, lineStarts]);
+
+  const toDoc = (offset: number) => {
+    if (!isFolded) return offset;
+    const row = lineAt(rowStarts, offset);
+    return lineStarts[rows[row]] + offset - rowStarts[row];
+  };
+
+  // Offsets inside folded lines map to the end of the fold's first line
+  const toDisplay = (offset: number) => {
+    if (!isFolded) return offset;
+    const line = lineAt(lineStarts, offset);
+    const row = lineAt(rows, line);
+    if (rows[row] === line) return rowStarts[row] + offset - lineStarts[line];
+    return rowStarts[row] + lineEnd(rows[row]) - lineStarts[rows[row]];
+  };
+
+  const rowOf = (offset: number) => lineAt(rows, lineAt(lineStarts, offset));
+
+  const readSelection = (): Selection => {
+    const textArea = textAreaRef.current!;
+    return { start: toDoc(textArea.selectionStart), end: toDoc(textArea.selectionEnd) };
+  };
+
+  const revealRow = (row: number, center = false) => {
+    const textArea = textAreaRef.current;
+    if (!textArea) return;
+    const top = row * LINE_HEIGHT;
+    const outside = top < textArea.scrollTop || top + LINE_HEIGHT + 2 * PADDING > textArea.scrollTop + textArea.clientHeight;
+    if (center || outside) textArea.scrollTop = Math.max(0, top - textArea.clientHeight / 3);
+  };
+
+  // Selections are applied after render, once the textarea holds the new text
+  useLayoutEffect(() => {
+    const pending = pendingSelection.current;
+    const textArea = textAreaRef.current;
+    if (!pending || !textArea) return;
+    pendingSelection.current = null;
+    if (pending.focus) textArea.focus({ preventScroll: true });
+    textArea.setSelectionRange(toDisplay(pending.start), toDisplay(pending.end));
+    if (pending.scrollTop !== undefined) textArea.scrollTop = pending.scrollTop;
+    if (pending.reveal || pending.center) revealRow(rowOf(pending.start), pending.center);
+  });
+
+  useEffect(() => {
+    const textArea = textAreaRef.current;
+    if (!textArea) return;
+    const observer = new ResizeObserver(() => setViewportHeight(textArea.clientHeight));
+    observer.observe(textArea);
+    return () => observer.disconnect();
+  }, []);
+
+  // Opens any fold hiding one of the offsets
+  const unfoldAt = (offsets: number[]) => {
+    const lines = new Set(folds);
+    offsets.forEach(offset => {
+      const line = lineAt(lineStarts, offset);
+      folds.forEach(start => {
+        const end = foldRanges.get(start);
+        if (end !== undefined && line > start && line < end) lines.delete(start);
+      });
+    });
+    if (lines.size !== folds.size) setFoldState({ code, lines });
+  };
+
+  const select = (start: number, end: number, options: Omit<PendingSelection, 'start' | 'end'> = { reveal: true }) => {
+    unfoldAt([start, end]);
+    pendingSelection.current = { start, end, ...options };
+    setSelection({ start, end });
+  };
+
+  const applyEdit = (from: number, to: number, text: string, next: Selection = { start: from + text.length, end: from + text.length }) => {
+    const updated = code.slice(0, from) + text + code.slice(to);
+    if (folds.size) {
+      // Folds after the edit move with their lines; folds inside the replaced text are gone
+      const fromLine = lineAt(lineStarts, from);
+      const toLine = lineAt(lineStarts, to);
+      const shift = text.split('\n').length - 1 - (toLine - fromLine);
+      const lines = new Set<number>();
+      folds.forEach(line => {
+        if (line <= fromLine) lines.add(line);
+        else if (line > toLine) lines.add(line + shift);
+      });
+      setFoldState({ code: updated, lines });
+    }
+    pendingSelection.current = { ...next, reveal: true };
+    setSelection(next);
+    onChange(updated);
+  };
+
+  // Replaces the whole document, keeping the caret on the same line; folds don't survive this
+  const replaceDocument = (updated: string) => {
+    const line = lineAt(lineStarts, selection.start);
+    const caret = getLineStarts(updated)[line] ?? updated.length;
+    pendingSelection.current = { start: caret, end: caret, scrollTop: textAreaRef.current?.scrollTop };
+    setSelection({ start: caret, end: caret });
+    onChange(updated);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    searchFrom.current = null;
+    if (!isFolded) {
+      onChange(value);
+      return;
+    }
+
+    // Find what changed around the caret and map it back into the document
+    const old = displayText;
+    const caret = e.target.selectionEnd;
+    let start = 0;
+    while (start < old.length && start < value.length && start < caret && old[start] === value[start]) start++;
+    let suffix = 0;
+    const maxSuffix = Math.min(old.length - start, value.length - caret);
+    while (suffix < maxSuffix && old[old.length - 1 - suffix] === value[value.length - 1 - suffix]) suffix++;
+    const removedEnd = old.length - suffix;
+    const inserted = value.slice(start, value.length - suffix);
+
+    // Deleting the line break after a folded line would delete the hidden lines with it, so the fold opens instead
+    const row = lineAt(rowStarts, start);
+    if (!inserted && removedEnd - start === 1 && old[start] === '\n' && rows[row + 1] - rows[row] > 1) {
+      const lines = new Set(folds);
+      lines.delete(rows[row]);
+      const kept = toDoc((e.nativeEvent as InputEvent).inputType === 'deleteContentBackward' ? start + 1 : start);
+      pendingSelection.current = { start: kept, end: kept, scrollTop: e.target.scrollTop };
+      setFoldState({ code, lines });
+      return;
+    }
+
+    applyEdit(toDoc(start), toDoc(removedEnd), inserted);
+  };
+
+  const toggleFold = (line: number) => {
+    const lines = new Set(folds);
+    if (lines.has(line)) lines.delete(line); else lines.add(line);
+    pendingSelection.current = { ...selection, scrollTop: textAreaRef.current?.scrollTop };
+    setFoldState({ code, lines });
+  };
+
+  const indentLines = (outdent: boolean) => {
+    const { start, end } = readSelection();
+    const first = lineAt(lineStarts, start);
+    let last = lineAt(lineStarts, end);
+    if (last > first && lineStarts[last] === end) last--;
+    if (!outdent && first === last) {
+      applyEdit(start, end, INDENT);
+      return;
+    }
+    const from = lineStarts[first];
+    const to = lineEnd(last);
+    const lines = code.slice(from, to).split('\n');
+    const changed = lines.map(text => outdent ? text.replace(/^( {1,2}|\t)/, '') : text ? INDENT + text : text);
+    const text = changed.join('\n');
+    const startShift = changed[0].length - lines[0].length;
+    applyEdit(from, to, text, { start: Math.max(from, start + startShift), end: end + text.length - (to - from) });
+  };
+
+  // New lines keep the current indentation, one level deeper after an opening bracket or start tag
+  const insertNewLine = () => {
+    const { start, end } = readSelection();
+    const line = lineAt(lineStarts, start);
+    const indent = code.slice(lineStarts[line], start).match(/^[ \t]*/)![0];
+    const before = code[start - 1];
+    const openTag = before === '>' ? syntax.tags.find(tag => tag.to === start) : undefined;
+    const opensBracket = !!before && '{[('.includes(before);
+    const opens = opensBracket || (!!openTag && !openTag.closing && !openTag.selfClosing && !VOID_ELEMENTS.has(openTag.name));
+    const closes = opensBracket ? !!code[end] && '}])'.includes(code[end]) : code.startsWith('</', end);
+
+    if (opens && closes) {
+      const caret = start + 1 + indent.length + INDENT.length;
+      applyEdit(start, end, `\n${indent}${INDENT}\n${indent}`, { start: caret, end: caret });
+    } else {
+      applyEdit(start, end, `\n${indent}${opens ? INDENT : ''}`);
+    }
+  };
+
+  const openSearch = (withReplace: boolean) => {
+    const { start, end } = readSelection();
+    const selected = code.slice(start, end);
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    searchFrom.current = start;
+    setShowSearch(true);
+    if (withReplace) setShowReplace(true);
+    setSearchFocus(nonce => nonce + 1);
+  };
+
+  const handleFormat = () => {
+    const formatted = formatSource(code, language);
+    if (formatted !== code) replaceDocument(formatted);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (mod && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) onRedo(); else onUndo();
+    } else if (mod && key === 'y') {
+      e.preventDefault();
+      onRedo();
+    } else if (mod && (key === 'f' || key === 'h')) {
+      e.preventDefault();
+      openSearch(key === 'h');
+    } else if (e.shiftKey && e.altKey && key === 'f') {
+      e.preventDefault();
+      handleFormat();
+    } else if (e.key === 'Tab' && !mod && !e.altKey) {
+      e.preventDefault();
+      indentLines(e.shiftKey);
+    } else if (e.key === 'Enter' && !mod && !e.altKey && !e.shiftKey) {
+      e.preventDefault();
+      insertNewLine();
+    } else if (e.key === 'Escape' && showSearch) {
+      e.preventDefault();
+      setShowSearch(false);
+    }
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setSelection({ start: toDoc(e.currentTarget.selectionStart), end: toDoc(e.currentTarget.selectionEnd) });
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft });
+  };
+
+  // Selects the requested line and scrolls it to the upper third of the editor
+  useEffect(() => {
+    if (!revealLine) return;
+    const line = Math.min(Math.max(revealLine.line, 1), lineStarts.length) - 1;
+    select(lineStarts[line], lineEnd(line), { focus: true, center: true });
+  }, [revealLine]);
+
+  // Search
+
+  const { matches, error: searchError } = useMemo(
+    () => showSearch ? findMatches(code, query, searchOptions) : { matches: [] as SearchMatch[] },
+    [showSearch, code, query, searchOptions]
+  );
+  const currentMatch = matchIndex < matches.length ? matchIndex : -1;
+
+  const selectMatch = (index: number) => {
+    setMatchIndex(index);
+    select(matches[index].from, matches[index].to);
+  };
+
+  // After the query changes or a match is replaced, move to the first match from where the search left off
+  useEffect(() => {
+    const from = searchFrom.current;
+    if (from === null) return;
+    searchFrom.current = null;
+    if (!matches.length) {
+      setMatchIndex(-1);
+      return;
+    }
+    const index = firstMatchAfter(matches, from);
+    selectMatch(index < matches.length && matches[index].from >= from ? index : (index + 1) % matches.length);
+  }, [matches]);
+
+  const goToMatch = (step: number) => {
+    if (!matches.length) return;
+    if (currentMatch < 0) {
+      const index = firstMatchAfter(matches, selection.end);
+      selectMatch(index < matches.length ? index : 0);
+    } else {
+      selectMatch((currentMatch + step + matches.length) % matches.length);
+    }
+  };
+
+  const handleReplace = () => {
+    const match = matches[currentMatch];
+    if (!match) {
+      goToMatch(1);
+      return;
+    }
+    const text = getReplacement(code, match, query, replacement, searchOptions);
+    searchFrom.current = match.from + text.length;
+    applyEdit(match.from, match.to, text, { start: match.from, end: match.from + text.length });
+  };
+
+  const handleReplaceAll = () => {
+    const result = replaceAll(code, query, replacement, searchOptions);
+    if (result.count) replaceDocument(result.source);
+  };
+
+  const closeSearch = () => {
+    setShowSearch(false);
+    const match = matches[currentMatch];
+    if (match) select(match.from, match.to, { focus: true, reveal: true });
+    else textAreaRef.current?.focus();
+  };
+
+  const goToProblem = () => {
+    if (!diagnostics.length) return;
+    const next = diagnostics.find(d => d.from > selection.start) || diagnostics[0];
+    select(next.from, next.to, { focus: true, reveal: true });
+  };
+
+  // Rendering
+
+  const caretLine = lineAt(lineStarts, selection.end);
+  const caretRow = lineAt(rows, caretLine);
+
+  const bracketPair = useMemo(() => {
+    if (selection.start !== selection.end) return null;
+    for (const at of [selection.start, selection.start - 1]) {
+      const partner = syntax.brackets.get(at);
+      if (partner !== undefined && partner >= 0) return [at, partner];
+    }
+    return null;
+  }, [syntax, selection]);
+
+  const problemRows = useMemo(() => {
+    const result = new Map<number, DiagnosticSeverity>();
+    diagnostics.forEach(d => {
+      const row = rowOf(d.from);
+      if (result.get(row) !== 'error') result.set(row, d.severity);
+    });
+    return result;
+  }, [diagnostics, rows, lineStarts]);
+
+  const renderLine = (line: number) => {
+    const start = lineStarts[line];
+    const end = lineEnd(line);
+    if (start === end) return null;
+    const clamp = (offset: number) => Math.min(Math.max(offset, start), end);
+
+    const decorations: { from: number; to: number; className: string }[] = [];
+    for (let m = firstMatchAfter(matches, start); m < matches.length && matches[m].from < end; m++) {
+      decorations.push({ ...matches[m], className: m === currentMatch ? 'bg-amber-400/50 rounded-sm' : 'bg-amber-400/20 rounded-sm' });
+    }
+    (diagnosticsByLine.get(line) || []).forEach(d => {
+      decorations.push({ from: d.from, to: Math.max(d.to, d.from + 1), className: SEVERITY_CLASSES[d.severity] });
+    });
+    bracketPair?.forEach(at => {
+      if (at >= start && at < end) decorations.push({ from: at, to: at + 1, className: 'bg-zinc-700/70 outline outline-1 outline-zinc-500/60' });
+    });
+
+    const { tokens } = syntax;
+    const cuts = new Set([start, end]);
+    for (let t = lineTokens[line]; t < tokens.length && tokens[t].from < end; t++) {
+      cuts.add(clamp(tokens[t].from));
+      cuts.add(clamp(tokens[t].to));
+    }
+    decorations.forEach(d => {
+      cuts.add(clamp(d.from));
+      cuts.add(clamp(d.to));
+    });
+    const points = Array.from(cuts).sort((a, b) => a - b);
+
+    let t = lineTokens[line];
+    return points.slice(0, -1).map((from, i) => {
+      while (t < tokens.length && tokens[t].to <= from) t++;
+      const token = t < tokens.length && tokens[t].from <= from ? tokens[t] : null;
+      const classes = [token ? TOKEN_CLASSES[token.type] : '', ...decorations.filter(d => d.from <= from && d.to > from).map(d => d.className)];
+      return <span key={from} className={classes.join(' ')}>{code.slice(from, points[i + 1])}</span>;
+    });
+  };
+
+  const firstRow = Math.max(0, Math.floor((scroll.top - PADDING) / LINE_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((scroll.top + viewportHeight) / LINE_HEIGHT) + OVERSCAN);
+  const visibleRows: number[] = [];
+  for (let row = firstRow; row < lastRow; row++) visibleRows.push(row);
+
+  const gutterWidth = `calc(${String(lineStarts.length).length}ch + 34px)`;
+  const selectedLength = Math.abs(selection.end - selection.start);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col bg-[#09090b] overflow-hidden">
+      <div className="relative flex-1 min-h-0 flex font-mono text-[13px]" style={{ lineHeight: `${LINE_HEIGHT}px`, tabSize: 2 }}>
+        <div
+          className="relative bg-zinc-950/50 border-r border-zinc-900 text-zinc-700 select-none overflow-hidden shrink-0"
+          style={{ width: gutterWidth }}
+          onWheel={(e) => { if (textAreaRef.current) textAreaRef.current.scrollTop += e.deltaY; }}
+        >
+          <div style={{ transform: `translateY(${-scroll.top}px)` }}>
+            {visibleRows.map(row => {
+              const line = rows[row];
+              const problems = diagnosticsByLine.get(line);
+              const canFold = foldRanges.has(line);
+              const isFoldedLine = canFold && folds.has(line);
+              return (
+                <div
+                  key={line}
+                  className={`absolute inset-x-0 flex items-center pl-1 ${row === caretRow ? 'text-zinc-400' : ''}`}
+                  style={{ top: PADDING + row * LINE_HEIGHT, height: LINE_HEIGHT }}
+                >
+                  <span className="w-2 shrink-0" title={problems?.map(d => d.message).join('\n')}>
+                    {problems && <span className={`block w-1.5 h-1.5 rounded-full ${problems.some(d => d.severity === 'error') ? 'bg-red-500' : 'bg-amber-500'}`} />}
+                  </span>
+                  <span className="flex-1 text-right">{line + 1}</span>
+                  <button
+                    onClick={() => toggleFold(line)}
+                    disabled={!canFold}
+                    className={`w-4 h-4 ml-1 flex items-center justify-center shrink-0 ${isFoldedLine ? 'text-zinc-300' : 'text-zinc-700 hover:text-zinc-300'}`}
+                    title={isFoldedLine ? 'Unfold' : canFold ? 'Fold' : undefined}
+                  >
+                    {canFold && (isFoldedLine ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />)}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="relative flex-1 min-w-0">
+          <div aria-hidden="true" className="absolute inset-0 overflow-hidden pointer-events-none text-zinc-300 whitespace-pre">
+            <div style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+              {visibleRows.map(row => {
+                const line = rows[row];
+                const hidden = row + 1 < rows.length ? rows[row + 1] - line - 1 : 0;
+                return (
+                  <div
+                    key={line}
+                    className={`absolute left-0 min-w-full ${row === caretRow ? 'bg-white/[0.03]' : ''}`}
+                    style={{ top: PADDING + row * LINE_HEIGHT, height: LINE_HEIGHT, paddingLeft: PADDING, paddingRight: PADDING }}
+                  >
+                    {renderLine(line)}
+                    {hidden > 0 && (
+                      <span className="ml-2 px-1.5 rounded bg-zinc-800 text-zinc-500 text-[11px]">⋯ {hidden} line{hidden === 1 ? '' : 's'}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          <textarea
+            ref={textAreaRef}
+            value={displayText}
+            onChange={handleInput}
+            onKeyDown={handleKeyDown}
+            onSelect={handleSelect}
+            onScroll={handleScroll}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            wrap="off"
+            className="absolute inset-0 w-full h-full bg-transparent text-transparent caret-white resize-none outline-none z-10 whitespace-pre overflow-auto font-mono selection:bg-blue-500/30"
+            style={{ padding: PADDING }}
+          />
+          {showSearch && (
+            <CodeSearchBar
+              query={query}
+              replacement={replacement}
+              options={searchOptions}
+              showReplace={showReplace}
+              matchCount={matches.length}
+              currentMatch={currentMatch}
+              error={searchError}
+              focusNonce={searchFocus}
+              onQueryChange={(value) => { searchFrom.current = selection.start; setQuery(value); }}
+              onReplacementChange={setReplacement}
+              onOptionsChange={(options) => { searchFrom.current = selection.start; setSearchOptions(options); }}
+              onToggleReplace={() => setShowReplace(!showReplace)}
+              onNext={() => goToMatch(1)}
+              onPrevious={() => goToMatch(-1)}
+              onReplace={handleReplace}
+              onReplaceAll={handleReplaceAll}
+              onClose={closeSearch}
+            />
+          )}
+        </div>
+
+        <CodeMinimap
+          source={code}
+          tokens={syntax.tokens}
+          lineStarts={lineStarts}
+          lineTokens={lineTokens}
+          rows={rows}
+          problemRows={problemRows}
+          rowHeight={LINE_HEIGHT}
+          scrollTop={scroll.top}
+          viewportHeight={viewportHeight}
+          onScrollTo={(top) => { if (textAreaRef.current) textAreaRef.current.scrollTop = top; }}
+        />
+      </div>
+
+      <div className="px-3 py-1 border-t border-zinc-900 bg-zinc-900/30 flex items-center gap-3 text-[10px] font-mono text-zinc-500 shrink-0">
+        <span>Ln {caretLine + 1}, Col {selection.end - lineStarts[caretLine] + 1}{selectedLength > 0 && ` (${selectedLength} selected)`}</span>
+        <span>{lineStarts.length} lines</span>
+        <span>{language === 'jsx' ? 'TSX' : 'HTML'}</span>
+        <div className="flex-1" />
+        <button
+          onClick={goToProblem}
+          disabled={!diagnostics.length}
+          className="flex items-center gap-2 hover:text-zinc-300 transition-colors disabled:hover:text-zinc-500"
+          title={diagnostics.length ? 'Go to next problem' : 'No problems found'}
+        >
+          <span className={`flex items-center gap-0.5 ${errorCount ? 'text-red-400' : ''}`}>
+            <ExclamationCircleIcon className="w-3 h-3" />{errorCount}
+          </span>
+          <span className={`flex items-center gap-0.5 ${diagnostics.length - errorCount ? 'text-amber-400' : ''}`}>
+            <ExclamationTriangleIcon className="w-3 h-3" />{diagnostics.length - errorCount}
+          </span>
+        </button>
+        <button onClick={handleFormat} className="flex items-center gap-1 hover:text-zinc-300 transition-colors" title="Format document (Shift+Alt+F)">
+          <Bars3BottomLeftIcon className="w-3 h-3" />
+          <span>Format</span>
+        </button>
+        <button onClick={() => openSearch(false)} className="flex items-center gap-1 hover:text-zinc-300 transition-colors" title="Find (Ctrl+F) / Replace (Ctrl+H)">
+          <MagnifyingGlassIcon className="w-3 h-3" />
+          <span>Find</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { SyntaxToken, TokenType } from '../services/syntax';
+import { DiagnosticSeverity } from '../services/lint';
+
+interface CodeMinimapProps {
+  source: string;
+  tokens: SyntaxToken[];
+  lineStarts: number[];
+  lineTokens: number[];
+  rows: number[]; // Document line shown on each editor row; folded lines are left out
+  problemRows: Map<number, DiagnosticSeverity>;
+  rowHeight: number;
+  scrollTop: number;
+  viewportHeight: number;
+  onScrollTo: (scrollTop: number) => void;
+}
+
+const MINIMAP_COLORS: Record<TokenType, string> = {
+  tag: '#fb923c',
+  attribute: '#7dd3fc',
+  string: '#4ade80',
+  comment: '#52525b',
+  keyword: '#60a5fa',
+  number: '#fcd34d',
+  function: '#fef08a',
+  property: '#7dd3fc',
+  selector: '#fdba74',
+  entity: '#f472b6',
+  meta: '#71717a',
+  bracket: '#a1a1aa',
+  invalid: '#f87171',
+};
+
+const TEXT_COLOR = '#a1a1aa';
+const WIDTH = 72;
+const MAX_LINE_HEIGHT = 2; // Pixels per row; long files are squeezed to fit
+const CHAR_WIDTH = 0.6;
+
+export const CodeMinimap: React.FC<CodeMinimapProps> = ({
+  source, tokens, lineStarts, lineTokens, rows, problemRows, rowHeight, scrollTop, viewportHeight, onScrollTo,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [height, setHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = rows.length ? Math.min(MAX_LINE_HEIGHT, height / rows.length) : MAX_LINE_HEIGHT;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !height) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = WIDTH * ratio;
+    canvas.height = height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, WIDTH, height);
+
+    const barHeight = Math.max(scale * 0.7, 0.5);
+    const maxColumns = Math.floor((WIDTH - 6) / CHAR_WIDTH);
+
+    rows.forEach((line, row) => {
+      const y = row * scale;
+      const start = lineStarts[line];
+      const end = Math.min(line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : source.length, start + maxColumns);
+      let t = lineTokens[line];
+      let runStart = -1;
+      let runColor = '';
+
+      const flush = (at: number) => {
+        if (runStart < 0) return;
+        context.fillStyle = runColor;
+        context.fillRect((runStart - start) * CHAR_WIDTH, y, (at - runStart) * CHAR_WIDTH, barHeight);
+        runStart = -1;
+      };
+
+      for (let offset = start; offset < end; offset++) {
+        while (t < tokens.length && tokens[t].to <= offset) t++;
+        const color = t < tokens.length && tokens[t].from <= offset ? MINIMAP_COLORS[tokens[t].type] : TEXT_COLOR;
+        const blank = source[offset] === ' ' || source[offset] === '\t';
+        if (blank || color !== runColor) flush(offset);
+        if (!blank && runStart < 0) {
+          runStart = offset;
+          runColor = color;
+        }
+      }
+      flush(end);
+    });
+
+    // Problems are marked along the right edge so they can be found in long files
+    problemRows.forEach((severity, row) => {
+      context.fillStyle = severity === 'error' ? '#ef4444' : '#f59e0b';
+      context.fillRect(WIDTH - 4, row * scale, 4, Math.max(scale, 2));
+    });
+  }, [source, tokens, lineStarts, lineTokens, rows, problemRows, height, scale]);
+
+  const scrollToPointer = (clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const row = (clientY - rect.top) / scale;
+    onScrollTo(Math.max(0, row * rowHeight - viewportHeight / 2));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    scrollToPointer(e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) scrollToPointer(e.clientY);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      className="relative shrink-0 border-l border-zinc-900 bg-zinc-950/50 cursor-pointer overflow-hidden select-none"
+      style={{ width: WIDTH }}
+      title="Minimap"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0" style={{ width: WIDTH, height }} />
+      <div
+        className="absolute inset-x-0 bg-zinc-400/10 border-y border-zinc-500/20 pointer-events-none"
+        style={{ top: (scrollTop / rowHeight) * scale, height: Math.max((viewportHeight / rowHeight) * scale, 8) }}
+      />
+    </div>
+  );
+};
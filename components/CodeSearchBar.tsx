@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, ChevronUpIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { MAX_SEARCH_MATCHES, SearchOptions } from '../services/codeSearch';
+
+interface CodeSearchBarProps {
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  showReplace: boolean;
+  matchCount: number;
+  currentMatch: number; // -1 when no match is selected
+  error?: string;
+  focusNonce: number; // Changes whenever the editor asks for the search field to be focused
+  onQueryChange: (query: string) => void;
+  onReplacementChange: (replacement: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onToggleReplace: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const OPTION_TOGGLES: { id: keyof SearchOptions; label: string; title: string }[] = [
+  { id: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { id: 'wholeWord', label: 'ab', title: 'Match whole word' },
+  { id: 'regex', label: '.*', title: 'Use regular expression' },
+];
+
+export const CodeSearchBar: React.FC<CodeSearchBarProps> = ({
+  query, replacement, options, showReplace, matchCount, currentMatch, error, focusNonce,
+  onQueryChange, onReplacementChange, onOptionsChange, onToggleReplace, onNext, onPrevious, onReplace, onReplaceAll, onClose,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusNonce]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, isReplace: boolean) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (isReplace) {
+        if (e.ctrlKey || e.metaKey) onReplaceAll(); else onReplace();
+      } else if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    }
+  };
+
+  const countLabel = error
+    ? 'Invalid'
+    : !query ? '' : matchCount === 0 ? 'No results' : `${currentMatch >= 0 ? currentMatch + 1 : '?'} of ${matchCount >= MAX_SEARCH_MATCHES ? `${MAX_SEARCH_MATCHES}+` : matchCount}`;
+
+  const fieldClass = 'flex-1 min-w-0 bg-zinc-950 border rounded px-2 py-1 text-[11px] font-mono text-zinc-200 placeholder-zinc-600 outline-none';
+  const buttonClass = 'p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors disabled:text-zinc-700 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+  return (
+    <div className="absolute right-4 top-2 z-30 w-[340px] flex items-start gap-1 p-1.5 bg-zinc-900/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-xl">
+      <button onClick={onToggleReplace} className={`${buttonClass} mt-0.5`} title="Toggle replace (Ctrl+H)">
+        <ChevronRightIcon className={`w-3 h-3 transition-transform ${showReplace ? 'rotate-90' : ''}`} />
+      </button>
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-1">
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e, false)}
+            placeholder="Find"
+            spellCheck={false}
+            title={error}
+            className={`${fieldClass} ${error ? 'border-red-500/50' : 'border-zinc-800 focus:border-blue-500/50'}`}
+          />
+          {OPTION_TOGGLES.map(toggle => (
+            <button
+              key={toggle.id}
+              onClick={() => onOptionsChange({ ...options, [toggle.id]: !options[toggle.id] })}
+              title={toggle.title}
+              className={`w-6 py-0.5 rounded text-[10px] font-mono transition-colors ${options[toggle.id] ? 'bg-blue-500/20 text-blue-300' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+            >
+              {toggle.label}
+            </button>
+          ))}
+        </div>
+        {showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={replacement}
+              onChange={(e) => onReplacementChange(e.target.value)}
+              onKeyDown={(e) => handleKeyDown(e, true)}
+              placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+              spellCheck={false}
+              className={`${fieldClass} border-zinc-800 focus:border-blue-500/50`}
+            />
+            <button onClick={onReplace} disabled={matchCount === 0} className={`${buttonClass} px-1.5 text-[10px] font-mono`} title="Replace (Enter)">
+              Replace
+            </button>
+            <button onClick={onReplaceAll} disabled={matchCount === 0} className={`${buttonClass} px-1.5 text-[10px] font-mono`} title="Replace all (Ctrl+Enter)">
+              All
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-0.5 mt-0.5">
+        <span className={`w-16 text-right text-[10px] font-mono mr-1 ${error || (query && matchCount === 0) ? 'text-red-400' : 'text-zinc-500'}`}>{countLabel}</span>
+        <button onClick={onPrevious} disabled={matchCount === 0} className={buttonClass} title="Previous match (Shift+Enter)">
+          <ChevronUpIcon className="w-3 h-3" />
+        </button>
+        <button onClick={onNext} disabled={matchCount === 0} className={buttonClass} title="Next match (Enter)">
+          <ChevronDownIcon className="w-3 h-3" />
+        </button>
+        <button onClick={onClose} className={buttonClass} title="Close (Escape)">
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -2,23 +2,108 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useRef, useState } from 'react';
+import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, CircleStackIcon } from '@heroicons/react/24/outline';
+import { GenerationMetadata, RefinementTurn } from '../services/gemini';
+import { getSourceType, loadSourceBlob } from '../services/storage';
+import { PageSelection } from '../services/pdf';
+import { OutputTarget } from '../services/targets';
+import { CreationSnapshot } from '../services/capture';
+
+export type VersionKind = 'generated' | 'refined' | 'repaired' | 'manual' | 'autosave' | 'restored' | 'forked';
+
+export interface CreationVersion {
+  id: string;
+  html?: string; // Missing for stored versions until the timeline loads them; see loadVersionHtml
+  kind: VersionKind;
+  label?: string; // e.g. the refinement instruction that produced this version
+  timestamp: Date;
+}
+
+export interface CreationArtifact {
+  name: string;
+  role: string; // What the artifact is for, e.g. "Wireframe" or "Style guide"
+  mimeType: string; // Known even before the data is loaded
+  dataUrl?: string; // Base64 data URL, loaded lazily for stored creations
+  pageSelection?: PageSelection; // PDFs only
+}
 
 export interface Creation {
   id: string;
   name: string;
-  html: string;
-  originalImage?: string; // Base64 data URL
+  html: string; // The generated source: a full HTML document, or a component for the React and Vue targets
+  target?: OutputTarget; // Defaults to 'html'
+  artifacts?: CreationArtifact[]; // Source artifacts in the order they were sent; the first is the primary one
   timestamp: Date;
+  prompt?: string; // The text prompt the creation was generated from
+  generation?: GenerationMetadata;
+  conversation?: RefinementTurn[]; // Refinement chat turns, oldest first
+  versions?: CreationVersion[]; // Saved revisions, oldest first; the last one matches `html`
+  thumbnail?: CreationSnapshot; // PNG of the rendered app, refreshed in the background when `html` changes
 }
 
 interface CreationHistoryProps {
   history: Creation[];
   onSelect: (creation: Creation) => void;
+  storageLabel?: string;
+  onManageStorage?: () => void;
+  onBrowse?: () => void;
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect }) => {
+// Loads the stored primary source image only once the card scrolls into view
+const SourceThumbnail = ({ creation }: { creation: Creation }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    });
+    if (ref.current) observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    const dataUrl = creation.artifacts?.[0]?.dataUrl;
+    if (dataUrl) {
+      setUrl(dataUrl);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadSourceBlob(creation.id)
+      .then(blob => {
+        if (blob && !cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch(err => console.error("Failed to load thumbnail", err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [isVisible, creation.id, creation.artifacts]);
+
+  return (
+    <div ref={ref} className="w-7 h-7 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50 overflow-hidden flex items-center justify-center">
+      {url ? (
+        <img src={url} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <PhotoIcon className="w-4 h-4 text-zinc-400" />
+      )}
+    </div>
+  );
+};
+
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, storageLabel, onManageStorage, onBrowse }) => {
   if (history.length === 0) return null;
 
   return (
@@ -27,28 +112,59 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
         <ClockIcon className="w-4 h-4 text-zinc-500" />
         <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Archive</h2>
         <div className="h-px flex-1 bg-zinc-800"></div>
+        {onBrowse && (
+          <button
+            onClick={onBrowse}
+            className="flex items-center space-x-1 text-[10px] font-bold uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors"
+            title="Search and manage all creations"
+          >
+            <span>Browse all ({history.length})</span>
+            <ArrowRightIcon className="w-3 h-3" />
+          </button>
+        )}
+        {onManageStorage && (
+          <button
+            onClick={onManageStorage}
+            className="flex items-center space-x-1.5 text-zinc-600 hover:text-zinc-300 transition-colors"
+            title="Manage Storage"
+          >
+            <CircleStackIcon className="w-3.5 h-3.5" />
+            {storageLabel && <span className="text-[10px] font-mono">{storageLabel}</span>}
+          </button>
+        )}
       </div>
       
       {/* Horizontal Scroll Container for Compact Layout */}
       <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide">
         {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
+          const sourceType = getSourceType(item);
+          const isPdf = sourceType === 'application/pdf';
           return (
             <button
               key={item.id}
               onClick={() => onSelect(item)}
               className="group flex-shrink-0 relative flex flex-col text-left w-44 h-28 bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden"
             >
-              <div className="p-4 flex flex-col h-full">
+              {item.thumbnail && (
+                <img
+                  src={item.thumbnail.dataUrl}
+                  alt=""
+                  className="absolute inset-0 w-full h-full object-cover object-top opacity-30 group-hover:opacity-50 transition-opacity"
+                />
+              )}
+              <div className="relative p-4 flex flex-col h-full">
                 <div className="flex items-start justify-between mb-2">
-                  <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
-                      {isPdf ? (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
-                          <PhotoIcon className="w-4 h-4 text-zinc-400" />
-                      ) : (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      )}
+                  <div className="flex items-center gap-1.5">
+                    {sourceType?.startsWith('image/') ? (
+                        <SourceThumbnail creation={item} />
+                    ) : (
+                        <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
+                            <DocumentIcon className={`w-4 h-4 ${isPdf ? 'text-zinc-400' : 'text-zinc-500'}`} />
+                        </div>
+                    )}
+                    {(item.artifacts?.length || 0) > 1 && (
+                        <span className="text-[9px] font-mono text-zinc-500">+{item.artifacts!.length - 1}</span>
+                    )}
                   </div>
                   <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
                     {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
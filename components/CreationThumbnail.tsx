@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Creation } from './CreationHistory';
+import { DEFAULT_SANDBOX_SETTINGS, getSandboxAttribute, preparePreviewHtml } from '../services/sandbox';
+import { buildPreviewDocument } from '../services/targets';
+
+const RENDER_WIDTH = 1280;
+const RENDER_HEIGHT = 800;
+
+// Scaled-down render of a creation: the captured thumbnail when there is one, otherwise a live iframe.
+// The iframe is only mounted once the card is on screen, and always uses the default strict sandbox
+// since it's purely decorative.
+export const CreationThumbnail = ({ creation, className = '' }: { creation: Creation, className?: string }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [scale, setScale] = useState(0.2);
+  const srcDoc = useMemo(() => preparePreviewHtml(buildPreviewDocument(creation.html, creation.target), DEFAULT_SANDBOX_SETTINGS, creation.id), [creation.html, creation.target, creation.id]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    const visibility = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        visibility.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    const resize = new ResizeObserver(([entry]) => {
+      setScale(entry.contentRect.width / RENDER_WIDTH);
+    });
+
+    visibility.observe(el);
+    resize.observe(el);
+    return () => {
+      visibility.disconnect();
+      resize.disconnect();
+    };
+  }, []);
+
+  return (
+    <div ref={ref} className={`relative aspect-[16/10] overflow-hidden bg-white ${className}`}>
+      {creation.thumbnail ? (
+        <img src={creation.thumbnail.dataUrl} alt="" className="absolute inset-0 w-full h-full object-cover object-top" />
+      ) : isVisible ? (
+        <iframe
+          title={`${creation.name} thumbnail`}
+          srcDoc={srcDoc}
+          sandbox={getSandboxAttribute(DEFAULT_SANDBOX_SETTINGS)}
+          loading="lazy"
+          tabIndex={-1}
+          className="absolute top-0 left-0 origin-top-left pointer-events-none border-0"
+          style={{ width: RENDER_WIDTH, height: RENDER_HEIGHT, transform: `scale(${scale})` }}
+        />
+      ) : (
+        <div className="absolute inset-0 bg-zinc-900 animate-pulse" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DeviceKind, getFitScale, ViewportSize } from '../services/devices';
+
+interface DeviceFrameProps {
+  size: ViewportSize;
+  kind: DeviceKind;
+  label: string;
+  zoom: number | 'fit';
+  children: React.ReactNode;
+}
+
+// Bezel width in CSS pixels; it is scaled along with the viewport
+const BEZEL: Record<DeviceKind, number> = { phone: 12, tablet: 16, desktop: 0 };
+const LABEL_HEIGHT = 24;
+
+// Renders its children at exactly `size` CSS pixels and scales the result to the zoom level, so media queries
+// inside a preview iframe see the device's width rather than the panel's
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ size, kind, label, zoom, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState<ViewportSize | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height - LABEL_HEIGHT });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const bezel = BEZEL[kind];
+  const outer = { width: size.width + bezel * 2, height: size.height + bezel * 2 };
+  const scale = zoom !== 'fit' ? zoom : available ? getFitScale(outer, available) : 1;
+
+  return (
+    // Columns in the multi-device view share the space in proportion to device width
+    <div ref={containerRef} className="min-w-0 min-h-0 basis-0 overflow-auto p-6 flex" style={{ flexGrow: size.width }}>
+      <div className="m-auto flex flex-col items-center">
+        <div className="shrink-0 text-[10px] font-mono text-zinc-500 whitespace-nowrap" style={{ height: LABEL_HEIGHT }}>
+          {label} · {size.width}×{size.height} · {Math.round(scale * 100)}%
+        </div>
+        <div className="shrink-0" style={{ width: outer.width * scale, height: outer.height * scale }}>
+          <div
+            className={`origin-top-left ${kind === 'desktop' ? 'ring-1 ring-zinc-800' : 'bg-zinc-800 ring-1 ring-zinc-700 shadow-2xl'}`}
+            style={{
+              width: outer.width,
+              height: outer.height,
+              padding: bezel,
+              borderRadius: kind === 'phone' ? 44 : kind === 'tablet' ? 28 : 0,
+              transform: `scale(${scale})`,
+            }}
+          >
+            <div className="w-full h-full bg-white overflow-hidden" style={{ borderRadius: kind === 'phone' ? 32 : kind === 'tablet' ? 12 : 0 }}>
+              {children}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
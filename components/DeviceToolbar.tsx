@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ArrowPathRoundedSquareIcon, ComputerDesktopIcon, DevicePhoneMobileIcon, DeviceTabletIcon, MagnifyingGlassIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import {
+  clampViewport,
+  DEVICE_PRESETS,
+  DeviceKind,
+  DeviceSettings,
+  getDeviceKind,
+  getViewportSize,
+  ZOOM_LEVELS,
+} from '../services/devices';
+
+interface DeviceToolbarProps {
+  settings: DeviceSettings;
+  onChange: (settings: DeviceSettings) => void;
+}
+
+const KIND_LABELS: Record<DeviceKind, string> = { phone: 'Phones', tablet: 'Tablets', desktop: 'Desktops' };
+const KIND_ICONS: Record<DeviceKind, React.ElementType> = { phone: DevicePhoneMobileIcon, tablet: DeviceTabletIcon, desktop: ComputerDesktopIcon };
+
+const selectClass = "bg-transparent border-none outline-none text-zinc-400 hover:text-zinc-200 cursor-pointer transition-colors";
+const sizeInputClass = "w-14 bg-zinc-900 border border-zinc-800 focus:border-zinc-600 rounded px-1.5 py-0.5 text-zinc-200 text-center outline-none";
+
+// Commits on blur or Enter so partially typed values aren't clamped mid-edit
+const SizeInput: React.FC<{ value: number; title: string; onCommit: (value: number) => void }> = ({ value, title, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = parseInt(draft, 10);
+    if (Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+    else setDraft(String(value));
+  };
+
+  return (
+    <input
+      inputMode="numeric"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value.replace(/\D/g, ''))}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className={sizeInputClass}
+      title={title}
+    />
+  );
+};
+
+export const DeviceToolbar: React.FC<DeviceToolbarProps> = ({ settings, onChange }) => {
+  const size = getViewportSize(settings.viewport, settings);
+  const KindIcon = KIND_ICONS[getDeviceKind(settings.viewport, settings)];
+
+  // Typing a size switches to a custom viewport with the shown orientation
+  const setSize = (dimension: 'width' | 'height', value: number) =>
+    onChange({ ...settings, viewport: 'custom', rotated: false, customSize: { ...size, [dimension]: clampViewport(value) } });
+
+  const toggleMultiViewDevice = (id: string) => {
+    const ids = settings.multiViewIds.includes(id)
+      ? settings.multiViewIds.filter(existing => existing !== id)
+      : DEVICE_PRESETS.filter(preset => preset.id === id || settings.multiViewIds.includes(preset.id)).map(preset => preset.id);
+    if (ids.length > 0) onChange({ ...settings, multiViewIds: ids });
+  };
+
+  return (
+    <div className="bg-[#0c0c0e] px-4 py-2 flex items-center gap-4 border-b border-zinc-800 shrink-0 overflow-x-auto text-[10px] font-mono text-zinc-500">
+      {settings.multiView ? (
+        <div className="flex items-center gap-1">
+          {DEVICE_PRESETS.map(preset => {
+            const selected = settings.multiViewIds.includes(preset.id);
+            return (
+              <button
+                key={preset.id}
+                onClick={() => toggleMultiViewDevice(preset.id)}
+                className={`shrink-0 px-2 py-1 rounded border transition-colors ${selected ? 'bg-zinc-800 text-zinc-100 border-zinc-600' : 'text-zinc-500 border-zinc-800 hover:text-zinc-300'}`}
+                title={`${preset.width}×${preset.height}`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-1.5 shrink-0">
+            <KindIcon className="w-3.5 h-3.5" />
+            <select
+              value={settings.viewport}
+              onChange={(e) => onChange({ ...settings, viewport: e.target.value })}
+              className={selectClass}
+            >
+              {(Object.keys(KIND_LABELS) as DeviceKind[]).map(kind => (
+                <optgroup key={kind} label={KIND_LABELS[kind]} className="bg-zinc-900">
+                  {DEVICE_PRESETS.filter(preset => preset.kind === kind).map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                </optgroup>
+              ))}
+              <option value="custom" className="bg-zinc-900">Custom</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <SizeInput value={size.width} title="Width in CSS pixels" onCommit={(value) => setSize('width', value)} />
+            <span>×</span>
+            <SizeInput value={size.height} title="Height in CSS pixels" onCommit={(value) => setSize('height', value)} />
+          </div>
+        </>
+      )}
+      <div className="flex items-center gap-1 shrink-0 ml-auto">
+        <button
+          onClick={() => onChange({ ...settings, rotated: !settings.rotated })}
+          className={`p-1 rounded transition-colors ${settings.rotated ? 'bg-zinc-800 text-zinc-100' : 'hover:text-zinc-300 hover:bg-zinc-800'}`}
+          title="Rotate"
+        >
+          <ArrowPathRoundedSquareIcon className="w-3.5 h-3.5" />
+        </button>
+        <div className="flex items-center gap-1 px-1">
+          <MagnifyingGlassIcon className="w-3.5 h-3.5" />
+          <select
+            value={String(settings.zoom)}
+            onChange={(e) => onChange({ ...settings, zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+            className={selectClass}
+            title="Zoom"
+          >
+            <option value="fit" className="bg-zinc-900">Fit</option>
+            {ZOOM_LEVELS.map(level => (
+              <option key={level} value={level} className="bg-zinc-900">{level * 100}%</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, multiView: !settings.multiView })}
+          className={`p-1 rounded transition-colors ${settings.multiView ? 'bg-zinc-800 text-zinc-100' : 'hover:text-zinc-300 hover:bg-zinc-800'}`}
+          title="Compare devices side by side"
+        >
+          <Squares2X2Icon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
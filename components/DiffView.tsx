@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { DiffLine } from '../services/versions';
+
+export type DiffRow = DiffLine | { type: 'gap'; count: number };
+
+const CONTEXT_LINES = 3;
+
+// Hides long runs of unchanged lines, keeping a few lines of context around each change
+export const collapseUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, idx) => {
+    if (line.type === 'same') return;
+    for (let k = Math.max(0, idx - CONTEXT_LINES); k <= Math.min(lines.length - 1, idx + CONTEXT_LINES); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  let skipped = 0;
+  lines.forEach((line, idx) => {
+    if (keep[idx]) {
+      if (skipped > 0) rows.push({ type: 'gap', count: skipped });
+      skipped = 0;
+      rows.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ type: 'gap', count: skipped });
+  return rows;
+};
+
+export const countChanges = (rows: DiffRow[]) => ({
+  added: rows.filter(r => r.type === 'added').length,
+  removed: rows.filter(r => r.type === 'removed').length,
+});
+
+export const DiffView = ({ rows, emptyMessage }: { rows: DiffRow[]; emptyMessage: string }) => {
+  const { added, removed } = countChanges(rows);
+
+  return (
+    <div className="flex-1 overflow-auto font-mono text-[12px] leading-relaxed">
+      {added === 0 && removed === 0 ? (
+        <div className="p-6 text-zinc-600 text-xs">{emptyMessage}</div>
+      ) : (
+        rows.map((row, idx) => row.type === 'gap' ? (
+          <div key={idx} className="px-4 py-1 bg-zinc-900/60 text-zinc-600 text-[10px] select-none">
+            ⋯ {row.count} unchanged lines
+          </div>
+        ) : (
+          <div
+            key={idx}
+            className={`flex whitespace-pre ${row.type === 'added' ? 'bg-green-500/10 text-green-300' : row.type === 'removed' ? 'bg-red-500/10 text-red-300' : 'text-zinc-500'}`}
+          >
+            <span className="w-10 shrink-0 text-right pr-2 text-zinc-700 select-none">{row.oldNumber ?? ''}</span>
+            <span className="w-10 shrink-0 text-right pr-2 text-zinc-700 select-none">{row.newNumber ?? ''}</span>
+            <span className="w-4 shrink-0 select-none">{row.type === 'added' ? '+' : row.type === 'removed' ? '−' : ' '}</span>
+            <span>{row.text}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CursorArrowRaysIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  ColorProperty,
+  ElementDetails,
+  getSpacing,
+  getStyleProperty,
+  InspectedElement,
+  setColorClass,
+  setSpacingClass,
+  setStyleProperty,
+  SPACING_SCALE,
+  SpacingProperty,
+  toHexColor,
+} from '../services/inspector';
+
+export interface ElementEdit {
+  text?: string;
+  className?: string;
+  style?: string;
+}
+
+interface ElementInspectorProps {
+  element: InspectedElement;
+  details: ElementDetails;
+  useTailwind: boolean; // Otherwise colours and spacing are written as inline styles
+  onChange: (edit: ElementEdit) => void;
+  onPatch?: (instruction: string) => Promise<boolean>; // Asks the model to rewrite the element; resolves true once applied
+  isPatching?: boolean;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 placeholder:text-zinc-600 px-2 py-1.5 outline-none";
+const labelClass = "block text-[10px] font-mono text-zinc-500 uppercase tracking-widest mb-1.5";
+
+const COLOR_STYLES: Record<ColorProperty, string> = { text: 'color', bg: 'background-color' };
+const SPACING_STYLES: Record<SpacingProperty, string> = { p: 'padding', m: 'margin' };
+
+// Tailwind's spacing unit is 0.25rem, i.e. 4px at the default font size
+const toPixels = (step: string) => `${Number(step) * 4}px`;
+
+// A text field that writes back on blur, or on Enter when it's a single line
+const DraftField = ({ value, multiline, placeholder, onCommit }: { value: string, multiline?: boolean, placeholder?: string, onCommit: (value: string) => void }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  return multiline ? (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      placeholder={placeholder}
+      rows={3}
+      className={`${fieldClass} resize-none`}
+    />
+  ) : (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      placeholder={placeholder}
+      className={`${fieldClass} font-mono`}
+    />
+  );
+};
+
+export const ElementInspector: React.FC<ElementInspectorProps> = ({ element, details, useTailwind, onChange, onPatch, isPatching = false, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [colors, setColors] = useState({ text: toHexColor(element.color), bg: toHexColor(element.backgroundColor) });
+  const colorTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    setColors({ text: toHexColor(element.color), bg: toHexColor(element.backgroundColor) });
+  }, [element]);
+
+  useEffect(() => () => clearTimeout(colorTimer.current), []);
+
+  // The picker fires continuously while dragging, so only the last colour is written back
+  const handleColor = (property: ColorProperty, hex: string) => {
+    setColors(prev => ({ ...prev, [property]: hex }));
+    clearTimeout(colorTimer.current);
+    colorTimer.current = setTimeout(() => {
+      if (useTailwind) {
+        onChange({ className: setColorClass(details.className, property, hex) });
+      } else {
+        onChange({ style: setStyleProperty(details.style, COLOR_STYLES[property], hex) });
+      }
+    }, 300);
+  };
+
+  const spacingValue = (property: SpacingProperty) =>
+    useTailwind ? getSpacing(details.className, property).value : getStyleProperty(details.style, SPACING_STYLES[property]);
+
+  const handleSpacing = (property: SpacingProperty, value: string) => {
+    if (useTailwind) {
+      onChange({ className: setSpacingClass(details.className, property, value) });
+    } else {
+      onChange({ style: setStyleProperty(details.style, SPACING_STYLES[property], value) });
+    }
+  };
+
+  const handlePatch = async () => {
+    if (!onPatch || isPatching || !instruction.trim()) return;
+    if (await onPatch(instruction.trim())) setInstruction('');
+  };
+
+  return (
+    <div className="absolute right-4 top-4 z-30 w-72 max-h-[calc(100%-2rem)] overflow-y-auto bg-zinc-900/95 backdrop-blur-md border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CursorArrowRaysIcon className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Element</h2>
+          <span className="text-[10px] font-mono text-blue-400">&lt;{details.tagName}&gt;</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title="Clear selection"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div>
+          <label className={labelClass}>Text</label>
+          {details.text !== null ? (
+            <DraftField value={details.text} multiline onCommit={(text) => onChange({ text })} />
+          ) : (
+            <p className="text-[10px] text-zinc-600">This element contains other elements. Select one of them to edit its text.</p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>{useTailwind ? 'Tailwind classes' : 'Classes'}</label>
+          <DraftField value={details.className} multiline placeholder="No classes" onCommit={(className) => onChange({ className })} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {(['text', 'bg'] as ColorProperty[]).map(property => (
+            <div key={property}>
+              <label className={labelClass}>{property === 'text' ? 'Text colour' : 'Background'}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={colors[property] || '#ffffff'}
+                  onChange={(e) => handleColor(property, e.target.value)}
+                  className="w-7 h-7 shrink-0 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                />
+                <span className="text-[10px] font-mono text-zinc-400">{colors[property] || 'none'}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {(['p', 'm'] as SpacingProperty[]).map(property => {
+            const value = spacingValue(property);
+            const options = SPACING_SCALE.map(step => useTailwind ? step : toPixels(step));
+            const sides = useTailwind ? getSpacing(details.className, property).sides : [];
+            return (
+              <div key={property}>
+                <label className={labelClass}>{property === 'p' ? 'Padding' : 'Margin'}</label>
+                <select
+                  value={value}
+                  onChange={(e) => handleSpacing(property, e.target.value)}
+                  className={fieldClass}
+                >
+                  <option value="">{sides.length > 0 ? 'Per side' : 'None'}</option>
+                  {value && !options.includes(value) && <option value={value}>{value}</option>}
+                  {options.map(option => (
+                    <option key={option} value={option}>{useTailwind ? `${property}-${option}` : option}</option>
+                  ))}
+                </select>
+                {sides.length > 0 && (
+                  <p className="mt-1 text-[10px] font-mono text-zinc-600 truncate" title={sides.join(' ')}>{sides.join(' ')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {onPatch && (
+          <div className="pt-4 border-t border-zinc-800">
+            <label className={labelClass}>Ask AI</label>
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handlePatch();
+                }
+              }}
+              placeholder="Make this a carousel..."
+              disabled={isPatching}
+              rows={2}
+              className={`${fieldClass} resize-none disabled:opacity-50`}
+            />
+            <div className="mt-2 flex items-center justify-between gap-2">
+              <span className="text-[10px] text-zinc-600">Rewrites only this element</span>
+              <button
+                onClick={handlePatch}
+                disabled={isPatching || !instruction.trim()}
+                className={`flex items-center space-x-1 text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${isPatching || !instruction.trim() ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-white text-black hover:bg-blue-500 hover:text-white'}`}
+              >
+                <SparklesIcon className={`w-3 h-3 ${isPatching ? 'animate-pulse' : ''}`} />
+                <span>{isPatching ? 'Applying...' : 'Apply'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-[10px] text-zinc-600">
+          Changes are written into the code and saved as a new version. Hover the preview to outline elements and click to select one, or hold Shift and drag to select the element around an area.
+        </p>
+      </div>
+    </div>
+  );
+};
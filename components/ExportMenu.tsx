@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArchiveBoxIcon, CodeBracketIcon, CodeBracketSquareIcon, GlobeAltIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { downloadBlob, exportAsHtml, exportAsJson, exportAsSource, exportAsZip, ExportResult } from '../services/exporter';
+import { isComponentTarget, OUTPUT_TARGETS } from '../services/targets';
+import { loadVersionHtml } from '../services/storage';
+
+interface ExportMenuProps {
+  creation: Creation;
+  html: string;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ creation, html }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [inlineDependencies, setInlineDependencies] = useState(true);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const run = async (exporter: () => Promise<ExportResult> | ExportResult) => {
+    setIsExporting(true);
+    try {
+      const result = await exporter();
+      downloadBlob(result.blob, result.filename);
+      if (result.failedDependencies.length > 0) {
+        alert(`Exported, but these dependencies could not be bundled and still load from the internet:\n\n${result.failedDependencies.join('\n')}`);
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Export error", err);
+      alert("Failed to export creation.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const itemClass = "w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-zinc-800 transition-colors disabled:opacity-50";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button 
+        onClick={() => setIsOpen(!isOpen)}
+        className={`transition-colors p-1.5 rounded-md hover:bg-zinc-800 ${isOpen ? 'text-zinc-100 bg-zinc-800' : 'text-zinc-500 hover:text-zinc-300'}`}
+        title="Export"
+      >
+        <ArrowDownTrayIcon className={`w-4 h-4 ${isExporting ? 'animate-pulse' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-50 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-150">
+          {creation.target && isComponentTarget(creation.target) && (
+            <button disabled={isExporting} onClick={() => run(() => exportAsSource(creation, html))} className={itemClass}>
+              <CodeBracketIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+              <div>
+                <div className="text-xs font-medium text-zinc-200">Download {OUTPUT_TARGETS[creation.target].filename}</div>
+                <div className="text-[10px] text-zinc-500">The {OUTPUT_TARGETS[creation.target].label.toLowerCase()} source, ready for your codebase</div>
+              </div>
+            </button>
+          )}
+          <button disabled={isExporting} onClick={() => run(() => exportAsHtml(creation, html, { inlineDependencies }))} className={itemClass}>
+            <GlobeAltIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+            <div>
+              <div className="text-xs font-medium text-zinc-200">Export as site</div>
+              <div className="text-[10px] text-zinc-500">A single index.html anyone can open</div>
+            </div>
+          </button>
+          <button disabled={isExporting} onClick={() => run(() => exportAsZip(creation, html, { inlineDependencies }))} className={itemClass}>
+            <ArchiveBoxIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+            <div>
+              <div className="text-xs font-medium text-zinc-200">Export as zip bundle</div>
+              <div className="text-[10px] text-zinc-500">HTML, assets folder and README</div>
+            </div>
+          </button>
+          <button disabled={isExporting} onClick={() => run(async () => exportAsJson({ ...creation, versions: creation.versions && await loadVersionHtml(creation.versions) }, html))} className={itemClass}>
+            <CodeBracketSquareIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+            <div>
+              <div className="text-xs font-medium text-zinc-200">Export as JSON</div>
+              <div className="text-[10px] text-zinc-500">Re-import into this app later</div>
+            </div>
+          </button>
+          <label className="flex items-center gap-2 px-3 py-2 border-t border-zinc-800 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={inlineDependencies}
+              onChange={(e) => setInlineDependencies(e.target.checked)}
+              className="accent-blue-500"
+            />
+            <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-400">Bundle Tailwind & Lucide for offline use</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
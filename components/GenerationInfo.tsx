@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, CheckIcon, ExclamationTriangleIcon, InformationCircleIcon, PencilIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { PROVIDER_LABELS } from '../services/providers';
+import { DEFAULT_OUTPUT_TARGET, OUTPUT_TARGETS } from '../services/targets';
+
+interface GenerationInfoProps {
+  creation: Creation;
+  isBusy: boolean;
+  onRegenerate?: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const Row = ({ label, value }: { label: string, value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-1">
+    <span className="text-[10px] font-mono uppercase tracking-widest text-zinc-500">{label}</span>
+    <span className="text-xs font-mono text-zinc-300 text-right truncate">{value}</span>
+  </div>
+);
+
+export const GenerationInfo: React.FC<GenerationInfoProps> = ({ creation, isBusy, onRegenerate, onClose }) => {
+  const { generation } = creation;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(creation.prompt || '');
+
+  useEffect(() => {
+    setDraft(creation.prompt || '');
+    setIsEditing(false);
+  }, [creation.id, creation.prompt]);
+
+  return (
+    <div className="absolute right-4 top-4 z-30 w-80 bg-zinc-900/95 backdrop-blur-md border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <InformationCircleIcon className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Generation</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title="Close"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div>
+          <div className="flex items-center justify-between mb-1.5">
+            <span className="text-[10px] font-mono uppercase tracking-widest text-zinc-500">Prompt</span>
+            {onRegenerate && !isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center space-x-1 text-[10px] text-zinc-500 hover:text-zinc-300 transition-colors"
+              >
+                <PencilIcon className="w-3 h-3" />
+                <span>Edit</span>
+              </button>
+            )}
+          </div>
+          {isEditing ? (
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={4}
+              className="w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 p-2 outline-none resize-none"
+            />
+          ) : (
+            <p className="text-xs text-zinc-300 whitespace-pre-wrap max-h-32 overflow-y-auto">
+              {creation.prompt || <span className="text-zinc-600 italic">No prompt (artifact only)</span>}
+            </p>
+          )}
+        </div>
+
+        {generation ? (
+          <div className="divide-y divide-zinc-800/60">
+            <Row label="Provider" value={PROVIDER_LABELS[generation.provider]} />
+            <Row label="Model" value={generation.model} />
+            <Row label="Temperature" value={generation.temperature.toFixed(2)} />
+            <Row label="Target" value={OUTPUT_TARGETS[creation.target || DEFAULT_OUTPUT_TARGET].label} />
+            {generation.style && <Row label="Profile" value={<span title={generation.style.instructions}>{generation.style.name}</span>} />}
+            {generation.directive && <Row label="Style" value={<span title={generation.directive}>{generation.directive}</span>} />}
+            <Row label="Prompt tokens" value={generation.usage ? generation.usage.promptTokenCount.toLocaleString() : '—'} />
+            <Row label="Output tokens" value={generation.usage ? generation.usage.candidatesTokenCount.toLocaleString() : '—'} />
+            <Row label="Total tokens" value={generation.usage ? generation.usage.totalTokenCount.toLocaleString() : '—'} />
+            <Row label="Duration" value={`${(generation.durationMs / 1000).toFixed(1)}s`} />
+            <Row label="Generated" value={generation.generatedAt.toLocaleString()} />
+          </div>
+        ) : (
+          <p className="text-xs text-zinc-600">No generation details were recorded for this creation.</p>
+        )}
+
+        {generation?.issues && generation.issues.length > 0 && (
+          <div>
+            <span className="text-[10px] font-mono uppercase tracking-widest text-zinc-500">Output checks</span>
+            <ul className="mt-1.5 space-y-1">
+              {generation.issues.map(issue => (
+                <li key={issue.code} className={`flex items-start gap-1.5 text-xs ${issue.fixed ? 'text-zinc-500' : 'text-amber-300'}`}>
+                  {issue.fixed
+                    ? <CheckIcon className="w-3 h-3 mt-0.5 shrink-0" />
+                    : <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 shrink-0" />}
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {onRegenerate && (
+          <div className="flex items-center justify-end gap-2">
+            {isEditing && (
+              <button
+                onClick={() => { setIsEditing(false); setDraft(creation.prompt || ''); }}
+                className="text-xs text-zinc-500 hover:text-zinc-300 px-2 py-1.5 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => onRegenerate(isEditing ? draft.trim() : creation.prompt || '')}
+              disabled={isBusy}
+              className={`flex items-center space-x-1 text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${isBusy ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-white text-black hover:bg-blue-500 hover:text-white'}`}
+            >
+              <ArrowPathIcon className="w-3 h-3" />
+              <span>{isEditing ? 'Regenerate with edit' : 'Regenerate'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
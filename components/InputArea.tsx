@@ -4,13 +4,48 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useCallback, useState, useEffect, useRef } from 'react';
-import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, MicrophoneIcon, PaperAirplaneIcon, XMarkIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, MicrophoneIcon, PaperAirplaneIcon, XMarkIcon, ShieldExclamationIcon, Square2StackIcon, PlusIcon, ExclamationTriangleIcon, SwatchIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
 import { MicrophoneIcon as MicrophoneIconSolid } from '@heroicons/react/24/solid';
+import { MAX_VARIANTS } from '../services/gemini';
+import { PageSelection } from '../services/pdf';
+import { ARTIFACT_ROLES, DEFAULT_ARTIFACT_ROLE, MAX_ARTIFACTS } from '../services/artifacts';
+import { PendingMedia } from '../services/tokens';
+import { BUDGET_LABELS, formatCost, formatTokenCount, GenerationEstimate } from '../services/usage';
+import { StyleProfile } from '../services/styleProfiles';
+import { DEFAULT_OUTPUT_TARGET, OUTPUT_TARGETS, OutputTarget } from '../services/targets';
+import { PdfPagePicker } from './PdfPagePicker';
+
+export interface ArtifactUpload {
+  file: File;
+  role: string;
+  pageSelection?: PageSelection;
+}
+
+export interface GenerateOptions {
+  variantCount: number;
+  target: OutputTarget;
+}
+
+// An artifact as far as token estimation is concerned, before its data has been read
+export type PendingArtifact = PendingMedia & { name: string; role: string };
+
+interface SelectedArtifact {
+  id: string;
+  file: File;
+  role: string;
+  previewUrl?: string; // Object URL for images
+  pageSelection: PageSelection | null;
+}
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File) => void;
+  onGenerate: (prompt: string, artifacts: ArtifactUpload[], options?: GenerateOptions) => void;
+  onEstimate?: (prompt: string, artifacts: PendingArtifact[], options: GenerateOptions) => GenerationEstimate;
   isGenerating: boolean;
   disabled?: boolean;
+  styleProfiles?: StyleProfile[];
+  styleProfileId?: string;
+  onStyleProfileChange?: (id: string) => void;
+  onManageStyleProfiles?: () => void;
 }
 
 const CyclingText = () => {
@@ -43,11 +78,14 @@ const CyclingText = () => {
     );
 };
 
-export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false }) => {
+export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onEstimate, isGenerating, disabled = false, styleProfiles, styleProfileId, onStyleProfileChange, onManageStyleProfiles }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [prompt, setPrompt] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [artifacts, setArtifacts] = useState<SelectedArtifact[]>([]);
+  const [activePdfId, setActivePdfId] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [target, setTarget] = useState<OutputTarget>(DEFAULT_OUTPUT_TARGET);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
 
@@ -87,28 +125,48 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     }
   };
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-      setSelectedFile(file);
-    } else {
-      alert("Please upload an image or PDF.");
+  const handleFiles = (files: File[]) => {
+    const accepted = files.filter(file => file.type.startsWith('image/') || file.type === 'application/pdf');
+    if (accepted.length < files.length) {
+      alert("Please upload images or PDFs.");
+    }
+    const room = MAX_ARTIFACTS - artifacts.length;
+    if (accepted.length > room) {
+      alert(`You can attach up to ${MAX_ARTIFACTS} artifacts.`);
     }
+
+    const added: SelectedArtifact[] = accepted.slice(0, Math.max(0, room)).map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      role: DEFAULT_ARTIFACT_ROLE,
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+      pageSelection: null,
+    }));
+    if (added.length === 0) return;
+    setArtifacts(prev => [...prev, ...added]);
+    const newPdf = added.find(a => a.file.type === 'application/pdf');
+    if (newPdf) setActivePdfId(newPdf.id);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+        handleFiles(Array.from(e.target.files));
     }
+    e.target.value = '';
+  };
+
+  const updateArtifact = (id: string, changes: Partial<SelectedArtifact>) => {
+    setArtifacts(prev => prev.map(a => a.id === id ? { ...a, ...changes } : a));
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled || isGenerating) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
-  }, [disabled, isGenerating]);
+  }, [disabled, isGenerating, artifacts]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -122,21 +180,42 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     setIsDragging(false);
   }, []);
 
+  const hasInput = !!prompt.trim() || artifacts.length > 0;
+  const estimate = onEstimate && hasInput && !isGenerating
+    ? onEstimate(prompt, artifacts.map(a => ({
+        name: a.file.name,
+        role: a.role.trim() || DEFAULT_ARTIFACT_ROLE,
+        mimeType: a.file.type,
+        size: a.file.size,
+        pageSelection: a.pageSelection || undefined,
+      })), { variantCount, target })
+    : null;
+  const isOverBudget = !!estimate?.exceeded;
+
   const handleSubmit = (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (disabled || isGenerating) return;
-    if (!prompt.trim() && !selectedFile) {
+    if (disabled || isGenerating || isOverBudget) return;
+    if (!hasInput) {
         return;
     }
-    onGenerate(prompt, selectedFile || undefined);
+    onGenerate(prompt, artifacts.map(a => ({
+      file: a.file,
+      role: a.role.trim() || DEFAULT_ARTIFACT_ROLE,
+      pageSelection: a.pageSelection || undefined,
+    })), { variantCount, target });
   };
 
-  const removeFile = (e: React.MouseEvent) => {
+  const removeArtifact = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    setSelectedFile(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    const removed = artifacts.find(a => a.id === id);
+    if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+    setArtifacts(prev => prev.filter(a => a.id !== id));
   };
 
+  const pdfs = artifacts.filter(a => a.file.type === 'application/pdf');
+  const pdfCount = pdfs.length;
+  const activePdf = pdfs.find(a => a.id === activePdfId) || pdfs[pdfs.length - 1];
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-4">
       <div 
@@ -147,29 +226,78 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
       >
         {/* Artifact Preview Area */}
         <div className="p-8 md:p-12 flex flex-col items-center justify-center min-h-[16rem]">
-            {selectedFile ? (
-                <div className="relative group/file flex flex-col items-center">
-                    <div className="w-32 h-32 md:w-40 md:h-40 rounded-xl bg-zinc-800 border border-zinc-700 overflow-hidden shadow-2xl relative">
-                        {selectedFile.type.startsWith('image/') ? (
-                             <img 
-                                src={URL.createObjectURL(selectedFile)} 
-                                alt="Selected" 
-                                className="w-full h-full object-cover"
-                             />
-                        ) : (
-                            <div className="w-full h-full flex flex-col items-center justify-center p-4">
-                                <ArrowUpTrayIcon className="w-12 h-12 text-zinc-500 mb-2" />
-                                <span className="text-[10px] font-mono text-zinc-400 uppercase truncate max-w-full">{selectedFile.name}</span>
-                            </div>
+            {artifacts.length > 0 ? (
+                <div className="w-full space-y-6">
+                    <div className="flex flex-wrap justify-center gap-4">
+                        {artifacts.map(artifact => {
+                            const isPdf = artifact.file.type === 'application/pdf';
+                            return (
+                                <div key={artifact.id} className="relative group/file flex flex-col items-center w-32 md:w-40">
+                                    <div
+                                        onClick={() => isPdf && setActivePdfId(artifact.id)}
+                                        className={`w-32 h-32 md:w-40 md:h-40 rounded-xl bg-zinc-800 border overflow-hidden shadow-2xl relative ${isPdf ? 'cursor-pointer' : ''} ${activePdf?.id === artifact.id && pdfCount > 1 ? 'border-blue-500' : 'border-zinc-700'}`}
+                                    >
+                                        {artifact.previewUrl ? (
+                                             <img 
+                                                src={artifact.previewUrl} 
+                                                alt={artifact.file.name} 
+                                                className="w-full h-full object-cover"
+                                             />
+                                        ) : (
+                                            <div className="w-full h-full flex flex-col items-center justify-center p-4">
+                                                <ArrowUpTrayIcon className="w-12 h-12 text-zinc-500 mb-2" />
+                                                <span className="text-[10px] font-mono text-zinc-400 uppercase truncate max-w-full">{artifact.file.name}</span>
+                                            </div>
+                                        )}
+                                        <button 
+                                            onClick={(e) => removeArtifact(e, artifact.id)}
+                                            className="absolute top-1 right-1 p-1 bg-black/60 hover:bg-red-500 text-white rounded-full transition-colors opacity-0 group-hover/file:opacity-100"
+                                        >
+                                            <XMarkIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <input
+                                        value={artifact.role}
+                                        onChange={(e) => updateArtifact(artifact.id, { role: e.target.value })}
+                                        list="artifact-roles"
+                                        disabled={isGenerating || disabled}
+                                        placeholder={DEFAULT_ARTIFACT_ROLE}
+                                        title="What this artifact is for"
+                                        className="mt-3 w-full bg-transparent border-b border-zinc-800 focus:border-zinc-500 focus:outline-none text-center text-xs font-mono uppercase tracking-wider text-zinc-300 placeholder:text-zinc-600 py-1"
+                                    />
+                                    <p className="mt-1 text-[11px] text-zinc-500 truncate max-w-full">{artifact.file.name}</p>
+                                </div>
+                            );
+                        })}
+                        {artifacts.length < MAX_ARTIFACTS && (
+                            <button
+                                type="button"
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={isGenerating || disabled}
+                                className="w-32 h-32 md:w-40 md:h-40 rounded-xl border-2 border-dashed border-zinc-800 hover:border-zinc-600 text-zinc-600 hover:text-zinc-400 flex flex-col items-center justify-center gap-2 transition-colors"
+                            >
+                                <PlusIcon className="w-6 h-6" />
+                                <span className="text-[10px] font-mono uppercase tracking-wider">Add artifact</span>
+                            </button>
                         )}
-                        <button 
-                            onClick={removeFile}
-                            className="absolute top-1 right-1 p-1 bg-black/60 hover:bg-red-500 text-white rounded-full transition-colors opacity-0 group-hover/file:opacity-100"
-                        >
-                            <XMarkIcon className="w-4 h-4" />
-                        </button>
                     </div>
-                    <p className="mt-4 text-sm text-zinc-400 font-medium">{selectedFile.name}</p>
+                    {activePdf && (
+                        <div className="w-full max-w-2xl mx-auto">
+                            {pdfCount > 1 && (
+                                <p className="mb-2 text-[10px] font-mono text-zinc-500 uppercase tracking-wider truncate">{activePdf.file.name}</p>
+                            )}
+                            <PdfPagePicker
+                                key={activePdf.id}
+                                file={activePdf.file}
+                                selection={activePdf.pageSelection}
+                                onChange={(pageSelection) => updateArtifact(activePdf.id, { pageSelection })}
+                                disabled={isGenerating || disabled}
+                            />
+                        </div>
+                    )}
+                    <datalist id="artifact-roles">
+                        {ARTIFACT_ROLES.map(role => <option key={role} value={role} />)}
+                    </datalist>
                 </div>
             ) : (
                 <div 
@@ -191,7 +319,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                             <span>to life</span>
                         </h3>
                         <p className="text-zinc-500 text-sm md:text-base font-light">
-                            {disabled && !isGenerating ? "Session Token Limit Reached" : "Drop an artifact here or click to upload"}
+                            {disabled && !isGenerating ? "Usage budget reached" : "Drop one or more artifacts here or click to upload"}
                         </p>
                     </div>
                 </div>
@@ -202,6 +330,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
             type="file"
             ref={fileInputRef}
             accept="image/*,application/pdf"
+            multiple
             className="hidden"
             onChange={handleFileChange}
             disabled={isGenerating || disabled}
@@ -218,7 +347,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                 <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
-                    placeholder={disabled && !isGenerating ? "Session limit reached..." : "Describe what you want to build or leave blank for a surprise..."}
+                    placeholder={disabled && !isGenerating ? "Usage budget reached..." : "Describe what you want to build or leave blank for a surprise..."}
                     disabled={isGenerating || disabled}
                     rows={1}
                     onKeyDown={(e) => {
@@ -230,6 +359,17 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                     className="w-full bg-transparent border-none focus:ring-0 text-zinc-100 placeholder:text-zinc-600 resize-none py-3 px-4 min-h-[44px] max-h-[200px] overflow-y-auto font-medium"
                 />
                 
+                <button
+                    type="button"
+                    onClick={() => setVariantCount(prev => (prev % MAX_VARIANTS) + 1)}
+                    disabled={isGenerating || disabled}
+                    className={`flex items-center gap-1 p-2 rounded-xl transition-all ${variantCount > 1 ? 'text-blue-400 bg-blue-500/10' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    title="Number of variants to generate in parallel"
+                >
+                    <Square2StackIcon className="w-5 h-5" />
+                    <span className="text-xs font-mono font-bold">{variantCount}×</span>
+                </button>
+
                 <button
                     type="button"
                     onClick={toggleListening}
@@ -247,15 +387,15 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
 
             <button
                 type="submit"
-                disabled={isGenerating || disabled || (!prompt.trim() && !selectedFile)}
+                disabled={isGenerating || disabled || isOverBudget || !hasInput}
                 className={`
                     group flex items-center justify-center
                     h-11 px-6 rounded-xl
                     font-bold text-sm tracking-wide uppercase
                     transition-all duration-300
-                    ${isGenerating || (disabled && !isGenerating)
+                    ${isGenerating || (disabled && !isGenerating) || isOverBudget
                         ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed border border-zinc-700/50' 
-                        : (!prompt.trim() && !selectedFile)
+                        : !hasInput
                             ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
                             : 'bg-white text-black hover:bg-blue-500 hover:text-white shadow-[0_0_20px_rgba(255,255,255,0.1)] active:scale-95'
                     }
@@ -263,10 +403,10 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
             >
                 {isGenerating ? (
                     <CpuChipIcon className="w-5 h-5 animate-spin" />
-                ) : disabled ? (
+                ) : disabled || isOverBudget ? (
                     <div className="flex items-center gap-2">
                         <ShieldExclamationIcon className="w-4 h-4 text-red-500" />
-                        <span className="text-zinc-500">Locked</span>
+                        <span className="text-zinc-500">{disabled ? 'Locked' : 'Over budget'}</span>
                     </div>
                 ) : (
                     <>
@@ -276,6 +416,63 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                 )}
             </button>
         </form>
+        <div className="mt-2 px-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 text-[10px] font-mono text-zinc-500 min-w-0">
+                {styleProfiles && onStyleProfileChange && (
+                    <div className="flex items-center gap-1.5 min-w-0">
+                        <SwatchIcon className="w-3 h-3 shrink-0" />
+                        <select
+                            value={styleProfileId}
+                            onChange={(e) => onStyleProfileChange(e.target.value)}
+                            disabled={isGenerating || disabled}
+                            className="bg-transparent border-none outline-none text-zinc-400 hover:text-zinc-200 cursor-pointer truncate transition-colors"
+                            title={styleProfiles.find(p => p.id === styleProfileId)?.description || 'Style profile for new generations'}
+                        >
+                            {styleProfiles.map(profile => (
+                                <option key={profile.id} value={profile.id} className="bg-zinc-900">{profile.name}</option>
+                            ))}
+                        </select>
+                        {onManageStyleProfiles && (
+                            <button
+                                type="button"
+                                onClick={onManageStyleProfiles}
+                                className="uppercase tracking-wider text-zinc-600 hover:text-zinc-300 transition-colors"
+                            >
+                                Edit
+                            </button>
+                        )}
+                    </div>
+                )}
+                <div className="flex items-center gap-1.5 min-w-0">
+                    <CodeBracketIcon className="w-3 h-3 shrink-0" />
+                    <select
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value as OutputTarget)}
+                        disabled={isGenerating || disabled}
+                        className="bg-transparent border-none outline-none text-zinc-400 hover:text-zinc-200 cursor-pointer truncate transition-colors"
+                        title={OUTPUT_TARGETS[target].description}
+                    >
+                        {(Object.keys(OUTPUT_TARGETS) as OutputTarget[]).map(id => (
+                            <option key={id} value={id} className="bg-zinc-900">{OUTPUT_TARGETS[id].label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            {estimate && !disabled && (
+                <div className={`flex items-center justify-end gap-1.5 text-[10px] font-mono ${estimate.exceeded ? 'text-red-400' : estimate.warning ? 'text-amber-400' : 'text-zinc-600'}`}>
+                    {estimate.warning && <ExclamationTriangleIcon className="w-3 h-3 shrink-0" />}
+                    <span title="Estimated locally; the exact prompt size is counted before sending">
+                        ≈ {formatTokenCount(estimate.promptTokens)} in + {formatTokenCount(estimate.outputTokens)} out tokens
+                        {estimate.cost !== null ? ` · ~${formatCost(estimate.cost)}` : ''}
+                    </span>
+                    {estimate.exceeded ? (
+                        <span>· exceeds your {BUDGET_LABELS[estimate.exceeded.scope].toLowerCase()} budget</span>
+                    ) : estimate.warning ? (
+                        <span>· would use {Math.floor(estimate.warning.percentage)}% of your {BUDGET_LABELS[estimate.warning.scope].toLowerCase()} budget</span>
+                    ) : null}
+                </div>
+            )}
+        </div>
       </div>
     </div>
   );
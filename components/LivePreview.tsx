@@ -3,9 +3,8 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useMemo, useState, useRef, useCallback } from 'react';
 import { 
-  ArrowDownTrayIcon, 
   PlusIcon, 
   ViewColumnsIcon, 
   DocumentIcon, 
@@ -20,16 +19,67 @@ import {
   ExclamationCircleIcon,
   ArrowUturnLeftIcon,
   ArrowUturnRightIcon,
-  CloudArrowUpIcon
+  CloudArrowUpIcon,
+  ChatBubbleLeftRightIcon,
+  QueueListIcon,
+  InformationCircleIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  WrenchScrewdriverIcon,
+  DevicePhoneMobileIcon,
+  CursorArrowRaysIcon
 } from '@heroicons/react/24/outline';
-import { Creation } from './CreationHistory';
+import { Creation, CreationVersion } from './CreationHistory';
+import { RefinementChat } from './RefinementChat';
+import { VariantGrid } from './VariantGrid';
+import { VersionHistory } from './VersionHistory';
+import { ExportMenu } from './ExportMenu';
+import { ScreenshotMenu } from './ScreenshotMenu';
+import { PreviewFrame } from './PreviewFrame';
+import { SandboxMenu } from './SandboxMenu';
+import { PreviewConsole } from './PreviewConsole';
+import { CodeEditor } from './CodeEditor';
+import { GenerationInfo } from './GenerationInfo';
+import { DeviceFrame } from './DeviceFrame';
+import { DeviceToolbar } from './DeviceToolbar';
+import { ElementEdit, ElementInspector } from './ElementInspector';
+import { RepairReview } from './RepairReview';
+import { appendVersion, getVersions } from '../services/versions';
+import { RefinementTurn, GenerationProgress, RuntimeErrorReport } from '../services/gemini';
+import { loadPdf, renderPage, renderPageToDataUrl } from '../services/pdf';
+import { SandboxSettings } from '../services/sandbox';
+import { isCancellation } from '../services/errors';
+import { getUnfixedIssues } from '../services/output';
+import { ElementRange, getElementDetails, getElementRange, InspectedElement, setElementAttribute, setElementText } from '../services/inspector';
+import { isComponentTarget } from '../services/targets';
+import { DeviceSettings, getDeviceKind, getViewportLabel, getViewportSize, loadDeviceSettings, saveDeviceSettings, ViewportSize } from '../services/devices';
+import { PreviewMessage } from '../services/previewBridge';
+import { MAX_LOG_ENTRIES, PreviewLogEntry, toLogEntry } from '../services/previewLog';
+import { getSourceLanguage } from '../services/syntax';
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
+  progress?: GenerationProgress | null;
+  modelName?: string;
   isFocused: boolean;
   onReset: () => void;
   onUpdate?: (updated: Creation) => void;
+  onRefine?: (creation: Creation, currentHtml: string, instruction: string) => Promise<string>;
+  onPatchElement?: (creation: Creation, currentHtml: string, range: ElementRange, instruction: string) => Promise<string>; // Returns the replacement markup
+  variants?: Creation[] | null;
+  isMerging?: boolean;
+  onPickVariant?: (variant: Creation) => void;
+  onKeepVariants?: (variants: Creation[]) => void;
+  onMergeVariants?: (variants: Creation[], guidance?: string) => void;
+  onForkVersion?: (creation: Creation, version: CreationVersion, versionNumber: number) => void;
+  onRegenerate?: (creation: Creation, prompt: string) => Promise<Creation>;
+  onRepair?: (currentHtml: string, errors: RuntimeErrorReport[]) => Promise<string>;
+  onCancel?: () => void;
+  onError?: (error: unknown) => void; // Refinements, element edits, regenerations and repairs that failed
+  retryStatus?: string | null;
+  sandbox: SandboxSettings;
+  onSandboxChange: (settings: SandboxSettings) => void;
 }
 
 // Add type definition for the global pdfjsLib
@@ -39,8 +89,8 @@ declare global {
   }
 }
 
-const TerminalLog = ({ step }: { step: number }) => {
-    const [logs, setLogs] = useState<string[]>([]);
+const TerminalLog = ({ step, entries }: { step: number, entries?: string[] }) => {
+    const [simulatedLogs, setSimulatedLogs] = useState<string[]>([]);
     const logPool = [
         ["Initializing neural link...", "Scanning pixel buffers...", "Extracting geometric primitives...", "Metadata integrity verified."],
         ["Mapping interface topology...", "Identifying interactive nodes...", "Generating layout constraints...", "Responsive breakpoints calculated."],
@@ -49,11 +99,12 @@ const TerminalLog = ({ step }: { step: number }) => {
     ];
 
     useEffect(() => {
+        if (entries) return;
         if (step >= 0 && step < logPool.length) {
             let i = 0;
             const interval = setInterval(() => {
                 if (i < logPool[step].length) {
-                    setLogs(prev => [...prev.slice(-5), `> ${logPool[step][i]}`]);
+                    setSimulatedLogs(prev => [...prev.slice(-5), `> ${logPool[step][i]}`]);
                     i++;
                 } else {
                     clearInterval(interval);
@@ -61,7 +112,9 @@ const TerminalLog = ({ step }: { step: number }) => {
             }, 600);
             return () => clearInterval(interval);
         }
-    }, [step]);
+    }, [step, entries]);
+
+    const logs = entries ? entries.slice(-6) : simulatedLogs;
 
     return (
         <div className="w-full font-mono text-[9px] text-zinc-600 bg-black/40 p-3 rounded-lg border border-zinc-900 overflow-hidden h-24 flex flex-col justify-end">
@@ -77,6 +130,41 @@ const TerminalLog = ({ step }: { step: number }) => {
     );
 };
 
+// Markers in the streamed document, in the order they usually appear
+const STREAM_MILESTONES: [string, string][] = [
+    ['<head', 'Document head received'],
+    ['cdn.tailwindcss.com', 'Tailwind runtime linked'],
+    ['<style', 'Custom styles streaming'],
+    ['<body', 'Body markup started'],
+    ['</body>', 'Body markup complete'],
+    ['</html>', 'Document closed'],
+];
+
+// Derives the loading step and real terminal entries from a streaming generation
+const describeStream = (progress: GenerationProgress) => {
+    const { html, chunkCount, usage } = progress;
+    const lower = html.toLowerCase();
+    const bodyIndex = lower.indexOf('<body');
+
+    const logs = ['> Stream opened, awaiting first tokens...'];
+    STREAM_MILESTONES
+        .map(([marker, label]) => ({ index: lower.indexOf(marker), label }))
+        .filter(m => m.index >= 0)
+        .sort((a, b) => a.index - b.index)
+        .forEach(m => logs.push(`> ${m.label}`));
+    if (bodyIndex >= 0 && lower.lastIndexOf('<script') > bodyIndex) {
+        logs.push('> Application logic streaming');
+    }
+    logs.push(`> ${chunkCount} chunks · ${(html.length / 1024).toFixed(1)} KB · ${(usage?.candidatesTokenCount ?? 0).toLocaleString()} output tokens`);
+
+    let step = 0;
+    if (html) step = 1;
+    if (bodyIndex >= 0 && lower.lastIndexOf('<script') > bodyIndex) step = 2;
+    if (lower.includes('</html>')) step = 3;
+
+    return { step, logs };
+};
+
 const LoadingStep = ({ 
     text, 
     active, 
@@ -117,122 +205,58 @@ const LoadingStep = ({
     </div>
 );
 
-const CodeEditor = ({ 
-    code, 
-    onChange, 
-    onUndo, 
-    onRedo 
-}: { 
-    code: string, 
-    onChange: (val: string) => void,
-    onUndo: () => void,
-    onRedo: () => void
-}) => {
-    const preRef = useRef<HTMLPreElement>(null);
-    const textAreaRef = useRef<HTMLTextAreaElement>(null);
-
-    const highlight = (text: string) => {
-        return text
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;')
-            .replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/g, '<span class="text-green-400">$1</span>')
-            .replace(/\b(const|let|var|function|return|if|else|for|while|import|export|from|await|async|class|extends|new|this|true|false|null|undefined)\b/g, '<span class="text-blue-400">$1</span>')
-            .replace(/\b(html|body|div|span|script|style|link|meta|h1|h2|h3|p|button|input|form|section|header|footer|nav|main|article|aside|ul|li|ol|canvas|iframe|a)\b/g, '<span class="text-orange-400">$1</span>')
-            .replace(/(\/\*[\s\S]*?\*\/|\/\/.+)$/gm, '<span class="text-zinc-600">$1</span>');
-    };
-
-    const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
-        if (preRef.current) {
-            preRef.current.scrollTop = e.currentTarget.scrollTop;
-            preRef.current.scrollLeft = e.currentTarget.scrollLeft;
-        }
-    };
-
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-        if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-            e.preventDefault();
-            if (e.shiftKey) {
-                onRedo();
-            } else {
-                onUndo();
-            }
-        } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
-            e.preventDefault();
-            onRedo();
-        }
-    };
-
-    const lineNumbers = code.split('\n').length;
-
-    return (
-        <div className="relative flex-1 bg-[#09090b] flex overflow-hidden font-mono text-[13px] leading-relaxed">
-            <div className="w-10 bg-zinc-950/50 border-r border-zinc-900 text-zinc-700 text-right pr-2 pt-4 select-none overflow-hidden shrink-0">
-                {Array.from({ length: lineNumbers }).map((_, i) => (
-                    <div key={i}>{i + 1}</div>
-                ))}
-            </div>
-            
-            <div className="relative flex-1">
-                <textarea
-                    ref={textAreaRef}
-                    value={code}
-                    onChange={(e) => onChange(e.target.value)}
-                    onScroll={handleScroll}
-                    onKeyDown={handleKeyDown}
-                    spellCheck={false}
-                    className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-white resize-none outline-none z-10 whitespace-pre overflow-auto font-mono"
-                />
-                <pre
-                    ref={preRef}
-                    aria-hidden="true"
-                    className="absolute inset-0 w-full h-full p-4 pointer-events-none whitespace-pre overflow-hidden font-mono"
-                    dangerouslySetInnerHTML={{ __html: highlight(code) + '\n' }}
-                />
-            </div>
-        </div>
-    );
-};
-
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
+const PdfRenderer = ({ dataUrl, selectedPages }: { dataUrl: string; selectedPages?: number[] }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<any>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        setError("PDF library not initialized");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        const page = await pdf.getPage(1);
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const context = canvas.getContext('2d');
-        const viewport = page.getViewport({ scale: 2.0 });
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
-        await page.render(renderContext).promise;
-        setLoading(false);
-      } catch (err) {
+    let cancelled = false;
+    setPdf(null);
+    setThumbnails([]);
+    setPageNumber(selectedPages?.[0] || 1);
+    setLoading(true);
+    setError(null);
+
+    loadPdf(dataUrl)
+      .then(async (doc) => {
+        if (cancelled) return;
+        setPdf(doc);
+        // Thumbnails render one at a time so the first page isn't held up by the rest
+        for (let n = 1; n <= doc.numPages && !cancelled; n++) {
+          const thumb = await renderPageToDataUrl(doc, n, 120);
+          if (!cancelled) setThumbnails(prev => [...prev, thumb]);
+        }
+      })
+      .catch((err) => {
         console.error("Error rendering PDF:", err);
-        setError("Could not render PDF preview.");
-        setLoading(false);
-      }
-    };
-    renderPdf();
+        if (!cancelled) {
+          setError("Could not render PDF preview.");
+          setLoading(false);
+        }
+      });
+
+    return () => { cancelled = true; };
   }, [dataUrl]);
 
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let cancelled = false;
+    setLoading(true);
+    renderPage(pdf, pageNumber, canvasRef.current, 2.0)
+      .catch((err) => {
+        console.error("Error rendering PDF page:", err);
+        if (!cancelled) setError("Could not render PDF preview.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber]);
+
   if (error) {
     return (
         <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
@@ -242,25 +266,114 @@ const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
     );
   }
 
+  const pageCount = pdf?.numPages || 0;
+
   return (
-    <div className="relative w-full h-full flex items-center justify-center">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+    <div className="relative w-full h-full flex flex-col">
+        <div className="relative flex-1 min-h-0 flex items-center justify-center">
+            {loading && (
+                <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+            )}
+            <canvas 
+                ref={canvasRef} 
+                className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
+            />
+        </div>
+
+        {pageCount > 1 && (
+            <div className="shrink-0 pt-4 space-y-3">
+                <div className="flex items-center justify-center gap-3">
+                    <button
+                        onClick={() => setPageNumber(n => Math.max(1, n - 1))}
+                        disabled={pageNumber <= 1}
+                        className="p-1.5 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        title="Previous page"
+                    >
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider">
+                        Page {pageNumber} of {pageCount}
+                    </span>
+                    <button
+                        onClick={() => setPageNumber(n => Math.min(pageCount, n + 1))}
+                        disabled={pageNumber >= pageCount}
+                        className="p-1.5 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        title="Next page"
+                    >
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                    {thumbnails.map((thumb, idx) => {
+                        const n = idx + 1;
+                        const wasSent = !selectedPages || selectedPages.includes(n);
+                        return (
+                            <button
+                                key={n}
+                                onClick={() => setPageNumber(n)}
+                                className={`relative shrink-0 w-12 rounded border overflow-hidden transition-all ${n === pageNumber ? 'border-blue-500 ring-1 ring-blue-500/50' : 'border-zinc-800 hover:border-zinc-600'} ${wasSent ? '' : 'opacity-30'}`}
+                                title={wasSent ? `Page ${n}` : `Page ${n} (not sent to the model)`}
+                            >
+                                <img src={thumb} alt={`Page ${n}`} className="w-full h-auto block" />
+                                <span className="absolute bottom-0 right-0 px-1 text-[8px] font-mono bg-black/70 text-zinc-300">{n}</span>
+                            </button>
+                        );
+                    })}
+                </div>
             </div>
         )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
     </div>
   );
 };
 
-export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, onReset, onUpdate }) => {
+export const LivePreview: React.FC<LivePreviewProps> = ({
+    creation,
+    isLoading,
+    progress,
+    modelName,
+    isFocused,
+    onReset,
+    onUpdate,
+    onRefine,
+    onPatchElement,
+    variants,
+    isMerging = false,
+    onPickVariant,
+    onKeepVariants,
+    onMergeVariants,
+    onForkVersion,
+    onRegenerate,
+    onRepair,
+    onCancel,
+    onError,
+    retryStatus,
+    sandbox,
+    onSandboxChange
+}) => {
     const [loadingStep, setLoadingStep] = useState(0);
+    const [partialHtml, setPartialHtml] = useState('');
+    const latestPartial = useRef('');
     const [showSplitView, setShowSplitView] = useState(false);
+    const [activeArtifact, setActiveArtifact] = useState(0);
+    const [blockedRequests, setBlockedRequests] = useState<string[]>([]);
+    const [logs, setLogs] = useState<PreviewLogEntry[]>([]);
+    const [showConsole, setShowConsole] = useState(false);
+    const [revealLine, setRevealLine] = useState<{ line: number; nonce: number } | null>(null);
     const [showCodeEditor, setShowCodeEditor] = useState(false);
+    const [showChat, setShowChat] = useState(false);
+    const [showVersions, setShowVersions] = useState(false);
+    const [showInfo, setShowInfo] = useState(false);
+    const [devices, setDevices] = useState<DeviceSettings>(loadDeviceSettings);
+    const previewPanelRef = useRef<HTMLDivElement>(null);
+    const [isInspecting, setIsInspecting] = useState(false);
+    const [inspected, setInspected] = useState<InspectedElement | null>(null);
+    const [isRefining, setIsRefining] = useState(false);
+    const [isPatching, setIsPatching] = useState(false);
+    const [pendingInstruction, setPendingInstruction] = useState<string | null>(null);
+    const [isRepairing, setIsRepairing] = useState(false);
+    const [pendingRepair, setPendingRepair] = useState<{ before: string; after: string; errors: RuntimeErrorReport[] } | null>(null);
     
     const [editableCode, setEditableCode] = useState('');
     const [debouncedCode, setDebouncedCode] = useState('');
@@ -271,22 +384,55 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
     const [historyIndex, setHistoryIndex] = useState(-1);
     const isInternalChange = useRef(false);
     const prevCreationId = useRef<string | null>(null);
+    // The creation as of the last render; model results are added to it, since autosaves may land while a request runs
+    const latestCreation = useRef(creation);
+
+    useEffect(() => {
+        latestCreation.current = creation;
+    }, [creation]);
+
+    useEffect(() => {
+        latestPartial.current = progress?.html || '';
+        if (!progress) setPartialHtml('');
+    }, [progress]);
+
+    // Throttle partial documents into the preview so the iframe isn't reloaded on every chunk
+    useEffect(() => {
+        if (!isLoading) return;
+        const interval = setInterval(() => setPartialHtml(latestPartial.current), 750);
+        return () => clearInterval(interval);
+    }, [isLoading]);
+
+    const isStreaming = !!progress;
 
     useEffect(() => {
-        if (isLoading) {
+        if (isLoading && !isStreaming) {
             setLoadingStep(0);
             const interval = setInterval(() => {
                 setLoadingStep(prev => (prev < 3 ? prev + 1 : prev));
             }, 3000); 
             return () => clearInterval(interval);
-        } else {
+        } else if (!isLoading) {
             setLoadingStep(0);
         }
-    }, [isLoading]);
+    }, [isLoading, isStreaming]);
+
+    const streamStatus = progress ? describeStream(progress) : null;
+    const errorCount = logs.filter(entry => entry.level === 'error').length;
+    // Problems output validation could not fix, e.g. a truncated document
+    const flaggedIssues = getUnfixedIssues(creation?.generation?.issues);
+    const runtimeErrors = logs.filter(entry => entry.category === 'error');
+    const referenceArtifacts = creation?.artifacts?.filter(a => a.dataUrl) || [];
+    const shownArtifact = referenceArtifacts[Math.min(activeArtifact, referenceArtifacts.length - 1)];
+    const activeStep = streamStatus ? streamStatus.step : loadingStep;
+    const showPartial = partialHtml.toLowerCase().includes('<body');
 
     useEffect(() => {
         if (creation?.id !== prevCreationId.current) {
             prevCreationId.current = creation?.id || null;
+            setActiveArtifact(0);
+            setPendingRepair(null);
+            setInspected(null);
             if (creation?.html) {
                 setEditableCode(creation.html);
                 setDebouncedCode(creation.html);
@@ -306,11 +452,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
             
             // Trigger auto-save to parent history
             if (creation && onUpdate && editableCode !== creation.html) {
-                onUpdate({
-                    ...creation,
-                    html: editableCode,
-                    timestamp: new Date()
-                });
+                onUpdate(appendVersion(creation, editableCode, 'autosave'));
                 setLastSaved(new Date());
             }
         }, 800);
@@ -339,13 +481,83 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
     }, [editableCode, history, historyIndex]);
 
     useEffect(() => {
-        if (creation?.originalImage) {
+        if (creation?.artifacts?.some(a => a.dataUrl)) {
             setShowSplitView(true);
         } else {
             setShowSplitView(false);
         }
     }, [creation]);
 
+    const handlePreviewMessage = useCallback((message: PreviewMessage) => {
+        if (message.type === 'inspect-select') {
+            setInspected(message.element);
+            return;
+        }
+        if (message.type === 'ready') {
+            // A fresh document has loaded, so earlier violations and output no longer apply
+            setBlockedRequests([]);
+            setLogs([]);
+        } else if (message.type === 'csp-violation') {
+            setBlockedRequests(prev => [...prev, message.blockedUri || message.directive].slice(-100));
+        }
+        const entry = toLogEntry(message);
+        if (entry) {
+            setLogs(prev => [...prev, entry].slice(-MAX_LOG_ENTRIES));
+        }
+    }, []);
+
+    const handleJumpToLine = (line: number) => {
+        setShowCodeEditor(true);
+        setRevealLine({ line, nonce: Date.now() });
+    };
+
+    const openConsole = () => {
+        setShowCodeEditor(true);
+        setShowConsole(true);
+    };
+
+    const handleDevicesChange = (settings: DeviceSettings) => {
+        setDevices(settings);
+        saveDeviceSettings(settings);
+    };
+
+    // Visual editing works on the HTML source; React and Vue components can't be mapped back to the preview
+    const canInspect = !!creation && !isComponentTarget(creation.target || 'html');
+    const inspectedDetails = useMemo(
+        () => inspected ? getElementDetails(editableCode, inspected.sourceId) : null,
+        [editableCode, inspected]
+    );
+
+    const toggleInspect = () => {
+        if (isInspecting) {
+            setIsInspecting(false);
+            setInspected(null);
+            return;
+        }
+        setIsInspecting(true);
+        setShowCodeEditor(false);
+        setShowVersions(false);
+        setShowInfo(false);
+        setShowChat(false);
+    };
+
+    // Edits go through `editableCode`, so they are autosaved as a version like typed changes
+    const handleElementEdit = (edit: ElementEdit) => {
+        if (!inspected) return;
+        let next = editableCode;
+        if (edit.text !== undefined) next = setElementText(next, inspected.sourceId, edit.text);
+        if (edit.className !== undefined) next = setElementAttribute(next, inspected.sourceId, 'class', edit.className.trim());
+        if (edit.style !== undefined) next = setElementAttribute(next, inspected.sourceId, 'style', edit.style);
+        if (next !== editableCode) setEditableCode(next);
+    };
+
+    // Screenshots use the device size when one is shown, otherwise the size of the preview panel
+    const getScreenshotViewport = (): ViewportSize => {
+        if (devices.enabled && !devices.multiView) return getViewportSize(devices.viewport, devices);
+        const panel = previewPanelRef.current;
+        return panel?.clientWidth ? { width: panel.clientWidth, height: panel.clientHeight } : { width: 1280, height: 800 };
+    };
+
     const handleUndo = useCallback(() => {
         if (historyIndex > 0) {
             const nextIdx = historyIndex - 1;
@@ -364,31 +576,174 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         }
     }, [history, historyIndex]);
 
+    // Applies externally produced HTML as a new undo-able revision
+    const pushRevision = useCallback((html: string) => {
+        isInternalChange.current = true;
+        setHistory(prev => {
+            const newHistory = prev.slice(0, historyIndex + 1);
+            newHistory.push(html);
+            if (newHistory.length > 100) newHistory.shift();
+            return newHistory;
+        });
+        setHistoryIndex(prev => Math.min(prev + 1, 99));
+        setEditableCode(html);
+        setDebouncedCode(html);
+    }, [historyIndex]);
+
+    const handleRefine = async (instruction: string) => {
+        if (!creation || !onRefine || isRefining) return;
+        const target = creation;
+        setIsRefining(true);
+        setPendingInstruction(instruction);
+
+        try {
+            const html = await onRefine(target, editableCode, instruction);
+            // Drop the result if the user switched to another creation meanwhile
+            if (prevCreationId.current !== target.id) return;
+
+            const current = latestCreation.current || target;
+            const turns: RefinementTurn[] = [
+                ...(current.conversation || []),
+                { role: 'user', text: instruction },
+                { role: 'model', text: `Updated the app (${html.split('\n').length} lines).` }
+            ];
+            pushRevision(html);
+            if (onUpdate) {
+                onUpdate({
+                    ...appendVersion(current, html, 'refined', instruction),
+                    conversation: turns
+                });
+                setLastSaved(new Date());
+            }
+        } catch (error) {
+            if (isCancellation(error)) return;
+            console.error("Failed to refine:", error);
+            onError?.(error);
+        } finally {
+            setIsRefining(false);
+            setPendingInstruction(null);
+        }
+    };
+
+    // Only the selected element is sent back for rewriting; the reply is spliced into the source as a new version
+    const handlePatchElement = async (instruction: string): Promise<boolean> => {
+        if (!creation || !inspected || !onPatchElement || isPatching) return false;
+        const target = creation;
+        const source = editableCode;
+        const range = getElementRange(source, inspected.sourceId);
+        if (!range) {
+            alert("This element has no end tag in the code, so it can't be edited on its own. Select its parent instead.");
+            return false;
+        }
+        setIsPatching(true);
+
+        try {
+            const markup = await onPatchElement(target, source, range, instruction);
+            if (prevCreationId.current !== target.id) return false;
+
+            const html = source.slice(0, range.start) + markup + source.slice(range.end);
+            pushRevision(html);
+            if (onUpdate) {
+                onUpdate(appendVersion(latestCreation.current || target, html, 'refined', `<${inspected.tagName}>: ${instruction}`));
+                setLastSaved(new Date());
+            }
+            return true;
+        } catch (error) {
+            if (isCancellation(error)) return false;
+            console.error("Failed to edit element:", error);
+            onError?.(error);
+            return false;
+        } finally {
+            setIsPatching(false);
+        }
+    };
+
+    const handleRegenerate = async (prompt: string) => {
+        if (!creation || !onRegenerate || isLoading) return;
+        const target = creation;
+        setShowInfo(false);
+
+        try {
+            const updated = await onRegenerate(target, prompt);
+            if (prevCreationId.current !== target.id) return;
+            pushRevision(updated.html);
+            if (onUpdate) {
+                // The new version goes on top of the latest versions rather than those the request started from
+                const added = getVersions(updated).slice(-1)[0];
+                onUpdate({
+                    ...appendVersion(latestCreation.current || target, updated.html, added.kind, added.label),
+                    prompt: updated.prompt,
+                    generation: updated.generation
+                });
+                setLastSaved(new Date());
+            }
+        } catch (error) {
+            if (isCancellation(error)) return;
+            console.error("Failed to regenerate:", error);
+            onError?.(error);
+        }
+    };
+
+    // Sends the distinct uncaught errors to the model and holds its fix for review instead of applying it
+    const handleRepair = async () => {
+        if (!creation || !onRepair || isRepairing || runtimeErrors.length === 0) return;
+        const target = creation;
+        const before = editableCode;
+        const seen = new Set<string>();
+        const errors: RuntimeErrorReport[] = runtimeErrors
+            .filter(entry => {
+                const key = `${entry.line ?? ''}:${entry.text}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .slice(0, 10)
+            .map(entry => ({ message: entry.text, line: entry.line, stack: entry.detail }));
+        setIsRepairing(true);
+
+        try {
+            const after = await onRepair(before, errors);
+            if (prevCreationId.current !== target.id) return;
+            setPendingRepair({ before, after, errors });
+        } catch (error) {
+            if (isCancellation(error)) return;
+            console.error("Failed to repair:", error);
+            onError?.(error);
+        } finally {
+            setIsRepairing(false);
+        }
+    };
+
+    const handleAcceptRepair = () => {
+        if (!creation || !pendingRepair) return;
+        const { after, errors } = pendingRepair;
+        const label = `Fixed: ${errors[0].message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`;
+        pushRevision(after);
+        if (onUpdate) {
+            onUpdate(appendVersion(latestCreation.current || creation, after, 'repaired', label));
+            setLastSaved(new Date());
+        }
+        setPendingRepair(null);
+    };
+
+    const chatTurns: RefinementTurn[] = [
+        ...(creation?.conversation || []),
+        ...(pendingInstruction ? [{ role: 'user' as const, text: pendingInstruction }] : [])
+    ];
+
     const handleSave = () => {
         if (creation && onUpdate) {
-            onUpdate({
-                ...creation,
-                html: editableCode,
-                timestamp: new Date()
-            });
+            onUpdate(appendVersion(creation, editableCode, 'manual'));
             setLastSaved(new Date());
             setDebouncedCode(editableCode);
         }
     };
 
-    const handleExport = () => {
-        if (!creation) return;
-        const finalCreation = { ...creation, html: editableCode };
-        const dataStr = JSON.stringify(finalCreation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const handleRestoreVersion = (version: CreationVersion, versionNumber: number) => {
+        if (!creation || !onUpdate) return;
+        pushRevision(version.html);
+        onUpdate(appendVersion(creation, version.html, 'restored', `Restored v${versionNumber}`));
+        setLastSaved(new Date());
     };
 
   return (
@@ -442,22 +797,88 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         <div className="flex items-center space-x-2 text-zinc-500">
             <CodeBracketIcon className="w-3 h-3" />
             <span className="text-[11px] font-mono uppercase tracking-wider">
-                {isLoading ? 'System Synthesis' : creation ? creation.name : 'Preview Mode'}
+                {isLoading ? 'System Synthesis' : variants?.length ? `${variants.length} Variants` : creation ? creation.name : 'Preview Mode'}
             </span>
         </div>
 
         <div className="flex items-center justify-end space-x-1 w-32 md:w-56">
+            {isLoading && onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="flex items-center space-x-1 text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 px-3 py-1.5 rounded-md transition-colors"
+                    title="Stop the request; nothing is saved"
+                >
+                    <XMarkIcon className="w-3 h-3" />
+                    <span>Cancel</span>
+                </button>
+            )}
             {!isLoading && creation && (
                 <>
                     <button 
-                        onClick={() => setShowCodeEditor(!showCodeEditor)}
+                        onClick={toggleInspect}
+                        disabled={!canInspect}
+                        className={`p-1.5 rounded-md transition-all flex items-center space-x-1 disabled:opacity-40 disabled:cursor-not-allowed ${isInspecting ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        title={canInspect ? 'Inspect & Edit Elements' : 'Visual editing is only available for HTML output'}
+                    >
+                        <CursorArrowRaysIcon className="w-4 h-4" />
+                        <span className="text-[10px] font-bold uppercase hidden md:inline">Inspect</span>
+                    </button>
+                    <button 
+                        onClick={() => { setShowCodeEditor(!showCodeEditor); setIsInspecting(false); setInspected(null); }}
                         className={`p-1.5 rounded-md transition-all flex items-center space-x-1 ${showCodeEditor ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                         title="Edit Code"
                     >
                         <PencilSquareIcon className="w-4 h-4" />
                         <span className="text-[10px] font-bold uppercase hidden md:inline">Edit</span>
                     </button>
-                    {creation.originalImage && (
+                    <button 
+                        onClick={() => showCodeEditor && showConsole ? setShowConsole(false) : openConsole()}
+                        className={`relative p-1.5 rounded-md transition-all ${showCodeEditor && showConsole ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        title="Preview Console"
+                    >
+                        <CommandLineIcon className="w-4 h-4" />
+                        {errorCount > 0 && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-500 text-white text-[8px] font-mono font-bold flex items-center justify-center">
+                                {errorCount > 99 ? '99+' : errorCount}
+                            </span>
+                        )}
+                    </button>
+                    {onRefine && (
+                        <button 
+                            onClick={() => setShowChat(!showChat)}
+                            className={`p-1.5 rounded-md transition-all flex items-center space-x-1 ${showChat ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            title="Refine with Chat"
+                        >
+                            <ChatBubbleLeftRightIcon className="w-4 h-4" />
+                            <span className="text-[10px] font-bold uppercase hidden md:inline">Refine</span>
+                        </button>
+                    )}
+                    <button 
+                        onClick={() => setShowInfo(!showInfo)}
+                        className={`relative p-1.5 rounded-md transition-all ${showInfo ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        title={flaggedIssues.length > 0 ? `Generation Details · ${flaggedIssues.map(issue => issue.message).join(' ')}` : 'Generation Details'}
+                    >
+                        <InformationCircleIcon className="w-4 h-4" />
+                        {flaggedIssues.length > 0 && (
+                            <span className="absolute top-0.5 right-0.5 w-2 h-2 rounded-full bg-amber-400" />
+                        )}
+                    </button>
+                    <button 
+                        onClick={() => setShowVersions(!showVersions)}
+                        className={`p-1.5 rounded-md transition-all flex items-center space-x-1 ${showVersions ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        title="Version History"
+                    >
+                        <QueueListIcon className="w-4 h-4" />
+                        <span className="text-[10px] font-mono hidden md:inline">v{getVersions(creation).length}</span>
+                    </button>
+                    <button 
+                        onClick={() => handleDevicesChange({ ...devices, enabled: !devices.enabled })}
+                        className={`p-1.5 rounded-md transition-all ${devices.enabled ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        title="Device Preview"
+                    >
+                        <DevicePhoneMobileIcon className="w-4 h-4" />
+                    </button>
+                    {referenceArtifacts.length > 0 && (
                          <button 
                             onClick={() => setShowSplitView(!showSplitView)}
                             className={`p-1.5 rounded-md transition-all ${showSplitView ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
@@ -472,13 +893,9 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                     >
                         <CloudArrowUpIcon className="w-4 h-4" />
                     </button>
-                    <button 
-                        onClick={handleExport}
-                        className="text-zinc-500 hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-800"
-                        title="Export as JSON"
-                    >
-                        <ArrowDownTrayIcon className="w-4 h-4" />
-                    </button>
+                    <SandboxMenu settings={sandbox} onChange={onSandboxChange} blockedRequests={blockedRequests} />
+                    <ScreenshotMenu creation={creation} html={editableCode} getViewport={getScreenshotViewport} />
+                    <ExportMenu creation={creation} html={editableCode} />
                     <button 
                         onClick={onReset}
                         className="ml-2 flex items-center space-x-1 text-xs font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors"
@@ -491,88 +908,131 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         </div>
       </div>
 
+      {devices.enabled && !isLoading && !variants?.length && creation?.html && !showVersions && !showCodeEditor && (
+        <DeviceToolbar settings={devices} onChange={handleDevicesChange} />
+      )}
+
       <div className="relative w-full flex-1 bg-[#09090b] flex overflow-hidden">
         {isLoading ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full bg-zinc-950/40 backdrop-blur-sm z-50">
+          <div className="absolute inset-0 flex w-full z-50">
+            <div className={`relative flex flex-col items-center justify-center p-8 bg-zinc-950/40 backdrop-blur-sm transition-all duration-500 ${showPartial ? 'w-full md:w-1/2 md:border-r border-zinc-800' : 'w-full'}`}>
              
-             {/* Dynamic Scanline Overlay */}
-             <div className="absolute inset-0 pointer-events-none bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.03),rgba(0,255,0,0.01),rgba(0,0,255,0.03))] bg-[length:100%_4px,3px_100%] opacity-20"></div>
+               {/* Dynamic Scanline Overlay */}
+               <div className="absolute inset-0 pointer-events-none bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.03),rgba(0,255,0,0.01),rgba(0,0,255,0.03))] bg-[length:100%_4px,3px_100%] opacity-20"></div>
 
-             <div className="w-full max-w-lg space-y-12 relative">
+               <div className="w-full max-w-lg space-y-12 relative">
                 
-                {/* Visual Core Animation */}
-                <div className="relative flex flex-col items-center">
-                    <div className="absolute -top-20 left-1/2 -translate-x-1/2 w-48 h-48 bg-blue-500/5 rounded-full blur-[100px]"></div>
+                  {/* Visual Core Animation */}
+                  <div className="relative flex flex-col items-center">
+                      <div className="absolute -top-20 left-1/2 -translate-x-1/2 w-48 h-48 bg-blue-500/5 rounded-full blur-[100px]"></div>
                     
-                    <div className="relative w-24 h-24 mb-10">
-                        {/* Rotating Rings */}
-                        <div className="absolute inset-0 border-2 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
-                        <div className="absolute inset-3 border-2 border-zinc-800 border-b-zinc-500 rounded-full animate-[spin_3s_linear_infinite_reverse]"></div>
-                        <div className="absolute inset-6 border border-zinc-700/50 rounded-full flex items-center justify-center overflow-hidden">
-                            <SparklesIcon className="w-8 h-8 text-white/90 animate-pulse" />
-                        </div>
-                        {/* Dynamic Core Glow */}
-                        <div className="absolute inset-0 rounded-full shadow-[0_0_30px_rgba(59,130,246,0.2)]"></div>
-                    </div>
+                      <div className="relative w-24 h-24 mb-10">
+                          {/* Rotating Rings */}
+                          <div className="absolute inset-0 border-2 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
+                          <div className="absolute inset-3 border-2 border-zinc-800 border-b-zinc-500 rounded-full animate-[spin_3s_linear_infinite_reverse]"></div>
+                          <div className="absolute inset-6 border border-zinc-700/50 rounded-full flex items-center justify-center overflow-hidden">
+                              <SparklesIcon className="w-8 h-8 text-white/90 animate-pulse" />
+                          </div>
+                          {/* Dynamic Core Glow */}
+                          <div className="absolute inset-0 rounded-full shadow-[0_0_30px_rgba(59,130,246,0.2)]"></div>
+                      </div>
 
-                    <div className="text-center">
-                        <h3 className="text-zinc-100 font-bold text-2xl tracking-tight mb-2">Synthesis in Progress</h3>
-                        <p className="text-zinc-500 text-sm font-medium tracking-wide">GEMINI-3-PRO: EXECUTING CONSTRUCTION PROTOCOL</p>
-                    </div>
-                </div>
+                      <div className="text-center">
+                          <h3 className="text-zinc-100 font-bold text-2xl tracking-tight mb-2">Synthesis in Progress</h3>
+                          <p className="text-zinc-500 text-sm font-medium tracking-wide">{(modelName || 'gemini-3-pro').toUpperCase()}: EXECUTING CONSTRUCTION PROTOCOL</p>
+                      </div>
+                  </div>
 
-                {/* Steps Grid */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12 gap-y-8 px-4">
-                    <LoadingStep 
-                        text="Visual Intelligence Scan" 
-                        Icon={MagnifyingGlassIcon}
-                        active={loadingStep === 0} 
-                        completed={loadingStep > 0} 
-                    />
-                    <LoadingStep 
-                        text="Structural Deconstruction" 
-                        Icon={PuzzlePieceIcon}
-                        active={loadingStep === 1} 
-                        completed={loadingStep > 1} 
-                    />
-                    <LoadingStep 
-                        text="Functional Logic Mapping" 
-                        Icon={CpuChipIcon}
-                        active={loadingStep === 2} 
-                        completed={loadingStep > 2} 
-                    />
-                    <LoadingStep 
-                        text="Runtime Compilation" 
-                        Icon={CommandLineIcon}
-                        active={loadingStep === 3} 
-                        completed={loadingStep > 3} 
-                    />
-                </div>
+                  {/* Steps Grid */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12 gap-y-8 px-4">
+                      <LoadingStep 
+                          text="Visual Intelligence Scan" 
+                          Icon={MagnifyingGlassIcon}
+                          active={activeStep === 0} 
+                          completed={activeStep > 0} 
+                      />
+                      <LoadingStep 
+                          text="Structural Deconstruction" 
+                          Icon={PuzzlePieceIcon}
+                          active={activeStep === 1} 
+                          completed={activeStep > 1} 
+                      />
+                      <LoadingStep 
+                          text="Functional Logic Mapping" 
+                          Icon={CpuChipIcon}
+                          active={activeStep === 2} 
+                          completed={activeStep > 2} 
+                      />
+                      <LoadingStep 
+                          text="Runtime Compilation" 
+                          Icon={CommandLineIcon}
+                          active={activeStep === 3} 
+                          completed={activeStep > 3} 
+                      />
+                  </div>
 
-                {/* Terminal Console */}
-                <div className="px-4">
-                    <TerminalLog step={loadingStep} />
-                </div>
+                  {/* Terminal Console */}
+                  <div className="px-4">
+                      <TerminalLog step={activeStep} entries={streamStatus?.logs} />
+                  </div>
 
-                {/* Bottom Progress Indicator */}
-                <div className="px-4 space-y-3">
-                    <div className="flex justify-between items-center text-[10px] font-mono text-zinc-600 uppercase tracking-widest">
-                        <span>Buffer Status: Stable</span>
-                        <span>{Math.round(((loadingStep + 1) / 4) * 100)}% Complete</span>
-                    </div>
-                    <div className="w-full h-1 bg-zinc-900 rounded-full overflow-hidden relative border border-zinc-800/50">
-                        <div 
-                            className="h-full bg-blue-500 transition-all duration-[2000ms] ease-out shadow-[0_0_15px_rgba(59,130,246,0.8)]"
-                            style={{ width: `${(loadingStep + 1) * 25}%` }}
-                        ></div>
+                  {/* Bottom Progress Indicator */}
+                  <div className="px-4 space-y-3">
+                      <div className="flex justify-between items-center text-[10px] font-mono text-zinc-600 uppercase tracking-widest">
+                          <span>
+                              {streamStatus
+                                  ? `Tokens: ${(progress?.usage?.totalTokenCount ?? 0).toLocaleString()}`
+                                  : 'Buffer Status: Stable'}
+                          </span>
+                          <span>{Math.round(((activeStep + 1) / 4) * 100)}% Complete</span>
+                      </div>
+                      {retryStatus && (
+                          <p className="text-[10px] font-mono text-amber-400 tracking-wide">{retryStatus}</p>
+                      )}
+                      <div className="w-full h-1 bg-zinc-900 rounded-full overflow-hidden relative border border-zinc-800/50">
+                          <div 
+                              className="h-full bg-blue-500 transition-all duration-[2000ms] ease-out shadow-[0_0_15px_rgba(59,130,246,0.8)]"
+                              style={{ width: `${(activeStep + 1) * 25}%` }}
+                          ></div>
+                      </div>
+                  </div>
+
+               </div>
+            </div>
+            {showPartial && (
+                <div className="hidden md:block flex-1 bg-white relative">
+                    <div className="absolute top-3 right-3 z-10 flex items-center space-x-2 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 tracking-tighter">
+                        <span className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse"></span>
+                        <span>Streaming Preview</span>
                     </div>
+                    <PreviewFrame
+                        title="Gemini Streaming Preview"
+                        html={partialHtml}
+                        sandbox={sandbox}
+                        className="w-full h-full"
+                    />
                 </div>
-
-             </div>
+            )}
           </div>
+        ) : variants?.length ? (
+          <VariantGrid
+            variants={variants}
+            isMerging={isMerging}
+            sandbox={sandbox}
+            onPick={(variant) => onPickVariant?.(variant)}
+            onKeep={(kept) => onKeepVariants?.(kept)}
+            onMerge={(selected, guidance) => onMergeVariants?.(selected, guidance)}
+          />
         ) : creation?.html ? (
           <>
-            {showCodeEditor ? (
+            {showVersions ? (
+                <VersionHistory
+                    creation={creation}
+                    onRestore={handleRestoreVersion}
+                    onFork={(version, versionNumber) => onForkVersion?.(creation, version, versionNumber)}
+                    onClose={() => setShowVersions(false)}
+                />
+            ) : showCodeEditor ? (
                  <div className="flex w-full h-full overflow-hidden">
                      <div className="w-1/2 border-r border-zinc-800 bg-zinc-950 flex flex-col overflow-hidden">
                         <div className="px-3 py-2 border-b border-zinc-900 bg-zinc-900/30 flex items-center justify-between shrink-0">
@@ -602,53 +1062,163 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                                 <span className="text-[9px] font-mono text-blue-400">Live Sync Active</span>
                             </div>
                         </div>
-                        <CodeEditor 
-                            code={editableCode} 
+                        <CodeEditor
+                            code={editableCode}
+                            language={getSourceLanguage(creation?.target)}
                             onChange={setEditableCode}
                             onUndo={handleUndo}
                             onRedo={handleRedo}
+                            revealLine={revealLine}
+                        />
+                        <PreviewConsole
+                            entries={logs}
+                            isOpen={showConsole}
+                            onToggle={() => setShowConsole(!showConsole)}
+                            onClear={() => setLogs([])}
+                            onJumpToLine={handleJumpToLine}
+                            onRepair={onRepair && runtimeErrors.length > 0 ? handleRepair : undefined}
+                            isRepairing={isRepairing}
                         />
                      </div>
                      <div className="flex-1 bg-white relative">
-                        <iframe
+                        <PreviewFrame
                             key={debouncedCode.length}
                             title="Gemini Live Preview"
-                            srcDoc={debouncedCode}
+                            html={debouncedCode}
+                            target={creation.target}
+                            sandbox={sandbox}
                             className="w-full h-full"
-                            sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
+                            onMessage={handlePreviewMessage}
                         />
                      </div>
                  </div>
             ) : (
                 <>
-                    {showSplitView && creation.originalImage && (
+                    {showSplitView && shownArtifact && (
                         <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
-                            <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 tracking-tighter">
-                                Reference Source
-                            </div>
-                            <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                                {creation.originalImage.startsWith('data:application/pdf') ? (
-                                    <PdfRenderer dataUrl={creation.originalImage} />
+                            {referenceArtifacts.length > 1 ? (
+                                <div className="absolute top-4 left-4 right-4 z-10 flex gap-1 overflow-x-auto">
+                                    {referenceArtifacts.map((artifact, idx) => (
+                                        <button
+                                            key={idx}
+                                            onClick={() => setActiveArtifact(idx)}
+                                            className={`shrink-0 backdrop-blur text-[10px] font-mono uppercase px-2 py-1 rounded border tracking-tighter transition-colors ${idx === activeArtifact ? 'bg-zinc-800/90 text-zinc-100 border-zinc-600' : 'bg-black/80 text-zinc-500 border-zinc-800 hover:text-zinc-300'}`}
+                                            title={artifact.name}
+                                        >
+                                            {artifact.role}
+                                        </button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 tracking-tighter">
+                                    Reference Source
+                                </div>
+                            )}
+                            <div className="w-full h-full p-6 pt-14 flex items-center justify-center overflow-hidden">
+                                {shownArtifact.mimeType === 'application/pdf' ? (
+                                    <PdfRenderer dataUrl={shownArtifact.dataUrl!} selectedPages={shownArtifact.pageSelection?.pages} />
                                 ) : (
                                     <img 
-                                        src={creation.originalImage} 
-                                        alt="Original Input" 
+                                        src={shownArtifact.dataUrl} 
+                                        alt={shownArtifact.name} 
                                         className="max-w-full max-h-full object-contain shadow-2xl border border-zinc-800/50 rounded-lg"
                                     />
                                 )}
                             </div>
                         </div>
                     )}
-                    <div className={`relative h-full bg-white transition-all duration-500 ${showSplitView && creation.originalImage ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
-                        <iframe
-                            title="Gemini Live Preview"
-                            srcDoc={editableCode}
-                            className="w-full h-full"
-                            sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
-                        />
+                    <div ref={previewPanelRef} className={`relative h-full transition-all duration-500 ${devices.enabled ? 'flex bg-[#09090b]' : 'bg-white'} ${showSplitView && shownArtifact ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
+                        {devices.enabled ? (
+                            // Only the first device reports to the console so each message is logged once
+                            (devices.multiView ? devices.multiViewIds : [devices.viewport]).map((viewport, idx) => (
+                                <DeviceFrame
+                                    key={devices.multiView ? viewport : 'single'}
+                                    size={getViewportSize(viewport, devices)}
+                                    kind={getDeviceKind(viewport, devices)}
+                                    label={getViewportLabel(viewport)}
+                                    zoom={devices.zoom}
+                                >
+                                    <PreviewFrame
+                                        title={`Gemini Live Preview (${getViewportLabel(viewport)})`}
+                                        html={editableCode}
+                                        target={creation.target}
+                                        sandbox={sandbox}
+                                        className="w-full h-full"
+                                        inspect={isInspecting && idx === 0}
+                                        selectedSourceId={inspected?.sourceId}
+                                        onMessage={idx === 0 ? handlePreviewMessage : undefined}
+                                    />
+                                </DeviceFrame>
+                            ))
+                        ) : (
+                            <PreviewFrame
+                                title="Gemini Live Preview"
+                                html={editableCode}
+                                target={creation.target}
+                                sandbox={sandbox}
+                                className="w-full h-full"
+                                inspect={isInspecting}
+                                selectedSourceId={inspected?.sourceId}
+                                onMessage={handlePreviewMessage}
+                            />
+                        )}
                     </div>
                 </>
             )}
+            {onRepair && runtimeErrors.length > 0 && !pendingRepair && !showVersions && !(showCodeEditor && showConsole) && (
+                <button
+                    onClick={handleRepair}
+                    disabled={isRepairing}
+                    className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 bg-zinc-900/95 backdrop-blur border border-red-500/30 text-xs text-zinc-200 pl-3 pr-1.5 py-1.5 rounded-full shadow-2xl hover:border-red-500/60 disabled:cursor-wait transition-colors"
+                >
+                    <ExclamationCircleIcon className="w-4 h-4 text-red-400" />
+                    <span>{runtimeErrors.length} error{runtimeErrors.length === 1 ? '' : 's'} in preview</span>
+                    <span className="flex items-center gap-1 bg-white text-black font-bold px-2.5 py-1 rounded-full">
+                        {isRepairing ? (
+                            <span className="w-3 h-3 border-2 border-black/20 border-t-black rounded-full animate-spin" />
+                        ) : (
+                            <WrenchScrewdriverIcon className="w-3 h-3" />
+                        )}
+                        <span>{isRepairing ? 'Repairing' : 'Fix this'}</span>
+                    </span>
+                </button>
+            )}
+            {pendingRepair && (
+                <RepairReview
+                    before={pendingRepair.before}
+                    after={pendingRepair.after}
+                    errors={pendingRepair.errors}
+                    onAccept={handleAcceptRepair}
+                    onReject={() => setPendingRepair(null)}
+                />
+            )}
+            {isInspecting && inspected && inspectedDetails && !showCodeEditor && !showVersions && !showInfo && (
+                <ElementInspector
+                    element={inspected}
+                    details={inspectedDetails}
+                    useTailwind={creation.target !== 'vanilla'}
+                    onChange={handleElementEdit}
+                    onPatch={onPatchElement ? handlePatchElement : undefined}
+                    isPatching={isPatching}
+                    onClose={() => setInspected(null)}
+                />
+            )}
+            {showInfo && (
+                <GenerationInfo
+                    creation={creation}
+                    isBusy={isLoading || isRefining || isPatching || isRepairing}
+                    onRegenerate={onRegenerate ? handleRegenerate : undefined}
+                    onClose={() => setShowInfo(false)}
+                />
+            )}
+            {showChat && onRefine && (
+                <RefinementChat
+                    turns={chatTurns}
+                    isRefining={isRefining}
+                    onSend={handleRefine}
+                    onClose={() => setShowChat(false)}
+                />
+            )}
           </>
         ) : null}
       </div>
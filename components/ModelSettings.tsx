@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AdjustmentsHorizontalIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_PROVIDER_SETTINGS, MODEL_SUGGESTIONS, PROVIDER_LABELS, ProviderId, ProviderSettings } from '../services/providers';
+
+interface ModelSettingsProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 placeholder:text-zinc-600 px-3 py-2 outline-none font-mono";
+const labelClass = "block text-[10px] font-mono text-zinc-500 uppercase tracking-widest mb-1.5";
+
+export const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Switching providers resets the model, since names are rarely valid across backends
+    update({ provider, model: MODEL_SUGGESTIONS[provider][0] });
+  };
+
+  return (
+    <div className="fixed bottom-16 left-4 z-[70] w-80 bg-zinc-900/95 backdrop-blur-md border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <AdjustmentsHorizontalIcon className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Model</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title="Close"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            className={fieldClass}
+          >
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={labelClass}>Model</label>
+          <input
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            list="model-suggestions"
+            className={fieldClass}
+          />
+          <datalist id="model-suggestions">
+            {MODEL_SUGGESTIONS[settings.provider].map(model => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-baseline">
+            <label className={labelClass}>Temperature</label>
+            <span className="text-[10px] font-mono text-zinc-300">{settings.temperature.toFixed(2)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.05}
+            value={settings.temperature}
+            onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+
+        {settings.provider === 'openai-compatible' && (
+          <>
+            <div>
+              <label className={labelClass}>Endpoint</label>
+              <input
+                value={settings.endpoint}
+                onChange={(e) => update({ endpoint: e.target.value })}
+                placeholder={DEFAULT_PROVIDER_SETTINGS.endpoint}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>API Key (optional)</label>
+              <input
+                type="password"
+                value={settings.apiKey || ''}
+                onChange={(e) => update({ apiKey: e.target.value || undefined })}
+                placeholder="Not required for most local servers"
+                className={fieldClass}
+              />
+            </div>
+            <p className="text-[10px] text-zinc-500 leading-relaxed">
+              Requests go straight from the browser to this endpoint. PDF attachments are not supported; images require a vision-capable model.
+            </p>
+          </>
+        )}
+
+        <button
+          onClick={() => onChange(DEFAULT_PROVIDER_SETTINGS)}
+          className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
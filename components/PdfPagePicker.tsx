@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { CheckIcon } from '@heroicons/react/24/solid';
+import { formatPageRanges, loadPdf, PageSelection, parsePageRanges, renderPageToDataUrl } from '../services/pdf';
+
+interface PdfPagePickerProps {
+  file: File;
+  selection: PageSelection | null;
+  onChange: (selection: PageSelection) => void;
+  disabled?: boolean;
+}
+
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, selection, onChange, disabled = false }) => {
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [rangeInput, setRangeInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails([]);
+    setError(null);
+
+    file.arrayBuffer()
+      .then(loadPdf)
+      .then(async (pdf) => {
+        if (cancelled) return;
+        const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+        // Keep an earlier selection when the picker is reopened for the same file
+        if (!selection) {
+          onChange({ pages, pageCount: pdf.numPages, screenPerPage: false });
+        }
+        setRangeInput(formatPageRanges(selection?.pages || pages));
+        for (const n of pages) {
+          if (cancelled) return;
+          const thumb = await renderPageToDataUrl(pdf, n, 120);
+          if (!cancelled) setThumbnails(prev => [...prev, thumb]);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to read PDF:", err);
+        if (!cancelled) setError("Could not read this PDF's pages. The whole file will be sent.");
+      });
+
+    return () => { cancelled = true; };
+  }, [file]);
+
+  if (error) {
+    return <p className="text-xs text-amber-400/80">{error}</p>;
+  }
+
+  if (!selection) {
+    return <p className="text-xs font-mono text-zinc-500 animate-pulse">Reading pages...</p>;
+  }
+
+  const updatePages = (pages: number[]) => {
+    if (pages.length === 0) return; // At least one page has to be sent
+    onChange({ ...selection, pages, screenPerPage: selection.screenPerPage && pages.length > 1 });
+    setRangeInput(formatPageRanges(pages));
+  };
+
+  const togglePage = (n: number) => {
+    updatePages(selection.pages.includes(n)
+      ? selection.pages.filter(p => p !== n)
+      : [...selection.pages, n].sort((a, b) => a - b));
+  };
+
+  const applyRangeInput = () => {
+    const pages = parsePageRanges(rangeInput, selection.pageCount);
+    if (pages.length > 0) {
+      updatePages(pages);
+    } else {
+      setRangeInput(formatPageRanges(selection.pages));
+    }
+  };
+
+  return (
+    <div className="w-full space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider">Pages</span>
+          <input
+            value={rangeInput}
+            onChange={(e) => setRangeInput(e.target.value)}
+            onBlur={applyRangeInput}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                applyRangeInput();
+              }
+            }}
+            disabled={disabled}
+            placeholder="e.g. 1-3, 5"
+            className="w-40 bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-200 focus:outline-none focus:border-zinc-600"
+          />
+          <span className="text-[10px] font-mono text-zinc-600">
+            {selection.pages.length} of {selection.pageCount}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={selection.screenPerPage}
+            onChange={(e) => onChange({ ...selection, screenPerPage: e.target.checked })}
+            disabled={disabled || selection.pages.length < 2}
+            className="accent-blue-500"
+          />
+          One screen per page
+        </label>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {Array.from({ length: selection.pageCount }, (_, i) => i + 1).map(n => {
+          const isSelected = selection.pages.includes(n);
+          return (
+            <button
+              key={n}
+              type="button"
+              onClick={() => togglePage(n)}
+              disabled={disabled}
+              className={`relative shrink-0 w-16 h-20 rounded-md border overflow-hidden bg-zinc-800 transition-all ${isSelected ? 'border-blue-500 ring-1 ring-blue-500/50' : 'border-zinc-700 opacity-40 hover:opacity-70'}`}
+              title={isSelected ? `Page ${n} (click to skip)` : `Page ${n} (click to include)`}
+            >
+              {thumbnails[n - 1] && <img src={thumbnails[n - 1]} alt={`Page ${n}`} className="w-full h-full object-cover object-top" />}
+              <span className="absolute bottom-0 left-0 px-1 text-[9px] font-mono bg-black/70 text-zinc-300">{n}</span>
+              {isSelected && (
+                <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-blue-500 flex items-center justify-center">
+                  <CheckIcon className="w-3 h-3 text-white" />
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
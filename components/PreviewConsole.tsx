@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon, NoSymbolIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { LogCategory, PreviewLogEntry } from '../services/previewLog';
+
+interface PreviewConsoleProps {
+  entries: PreviewLogEntry[];
+  isOpen: boolean;
+  onToggle: () => void;
+  onClear: () => void;
+  onJumpToLine: (line: number) => void;
+  onRepair?: () => void;
+  isRepairing?: boolean;
+}
+
+type Filter = 'all' | LogCategory;
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'error', label: 'Errors' },
+  { id: 'console', label: 'Console' },
+  { id: 'network', label: 'Network' },
+];
+
+const LEVEL_STYLES: Record<PreviewLogEntry['level'], string> = {
+  error: 'text-red-400 bg-red-500/5 border-red-500/10',
+  warn: 'text-amber-400 bg-amber-500/5 border-amber-500/10',
+  info: 'text-blue-300 border-transparent',
+  log: 'text-zinc-300 border-transparent',
+  debug: 'text-zinc-500 border-transparent',
+};
+
+export const PreviewConsole: React.FC<PreviewConsoleProps> = ({ entries, isOpen, onToggle, onClear, onJumpToLine, onRepair, isRepairing = false }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visible = filter === 'all' ? entries : entries.filter(e => e.category === filter);
+  const errorCount = entries.filter(e => e.level === 'error').length;
+  const warnCount = entries.filter(e => e.level === 'warn').length;
+
+  // Stay pinned to the newest entry unless the user has scrolled up to read
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const nearBottom = list.scrollHeight - list.scrollTop - list.clientHeight < 60;
+    if (nearBottom) list.scrollTop = list.scrollHeight;
+  }, [visible.length, isOpen]);
+
+  return (
+    <div className={`flex flex-col border-t border-zinc-800 bg-[#0c0c0e] shrink-0 ${isOpen ? 'h-56' : ''}`}>
+      <div className="px-3 py-1.5 flex items-center justify-between gap-2 bg-zinc-900/30 shrink-0">
+        <button onClick={onToggle} className="flex items-center gap-2 text-zinc-500 hover:text-zinc-300 transition-colors">
+          {isOpen ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />}
+          <span className="text-[10px] font-mono uppercase tracking-widest">Console</span>
+          {errorCount > 0 && (
+            <span className="text-[9px] font-mono text-red-400 bg-red-500/10 px-1.5 rounded">{errorCount} error{errorCount === 1 ? '' : 's'}</span>
+          )}
+          {warnCount > 0 && (
+            <span className="text-[9px] font-mono text-amber-400 bg-amber-500/10 px-1.5 rounded">{warnCount} warning{warnCount === 1 ? '' : 's'}</span>
+          )}
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-1">
+            {onRepair && (
+              <button
+                onClick={onRepair}
+                disabled={isRepairing}
+                className="mr-1 flex items-center gap-1 text-[9px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded text-red-400 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 disabled:cursor-wait transition-colors"
+                title="Ask the model to fix the errors"
+              >
+                <WrenchScrewdriverIcon className={`w-3 h-3 ${isRepairing ? 'animate-pulse' : ''}`} />
+                {isRepairing ? 'Repairing' : 'Fix errors'}
+              </button>
+            )}
+            {FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`text-[9px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded transition-colors ${filter === f.id ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+            <button
+              onClick={onClear}
+              className="ml-1 p-1 rounded text-zinc-600 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+              title="Clear console"
+            >
+              <NoSymbolIcon className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div ref={listRef} className="flex-1 overflow-y-auto font-mono text-[11px]">
+          {visible.length === 0 ? (
+            <p className="px-3 py-4 text-zinc-600 text-center">
+              {entries.length === 0 ? 'No output from the preview yet.' : 'Nothing matches this filter.'}
+            </p>
+          ) : visible.map(entry => (
+            <div
+              key={entry.id}
+              className={`px-3 py-1 border-b border-l-2 border-b-zinc-900 flex items-start gap-2 ${LEVEL_STYLES[entry.level]}`}
+            >
+              <button
+                onClick={() => entry.detail && setExpandedId(expandedId === entry.id ? null : entry.id)}
+                className={`flex-1 min-w-0 text-left whitespace-pre-wrap break-words ${entry.detail ? 'cursor-pointer' : 'cursor-default'}`}
+              >
+                {entry.text}
+                {expandedId === entry.id && entry.detail && (
+                  <span className="block mt-1 text-zinc-500">{entry.detail}</span>
+                )}
+              </button>
+              {entry.line ? (
+                <button
+                  onClick={() => onJumpToLine(entry.line!)}
+                  className="shrink-0 text-[10px] text-zinc-500 hover:text-blue-400 underline decoration-dotted underline-offset-2"
+                  title="Show in editor"
+                >
+                  line {entry.line}
+                </button>
+              ) : entry.source ? (
+                <span className="shrink-0 max-w-[40%] truncate text-[10px] text-zinc-600" title={entry.source}>{entry.source}</span>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef } from 'react';
+import { getSandboxAttribute, preparePreviewHtml, SandboxSettings } from '../services/sandbox';
+import { postToPreview, PreviewMessage, readBridgeMessage } from '../services/previewBridge';
+import { buildPreviewDocument, DEFAULT_OUTPUT_TARGET, isComponentTarget, OutputTarget } from '../services/targets';
+import { annotateSource } from '../services/inspector';
+
+interface PreviewFrameProps {
+  html: string;
+  target?: OutputTarget; // Component targets are rendered through a harness document
+  title: string;
+  sandbox: SandboxSettings;
+  className?: string;
+  inspect?: boolean; // Inspect mode: clicks pick elements instead of reaching the app (HTML targets only)
+  selectedSourceId?: number | null;
+  onMessage?: (message: PreviewMessage) => void;
+}
+
+// Every iframe that runs generated code goes through here so the sandbox settings apply everywhere
+export const PreviewFrame: React.FC<PreviewFrameProps> = ({ html, target = DEFAULT_OUTPUT_TARGET, title, sandbox, className, inspect = false, selectedSourceId = null, onMessage }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const token = useMemo(() => crypto.randomUUID(), []);
+  const canInspect = inspect && !isComponentTarget(target);
+  // Inspect mode renders a copy tagged with source ids; the tags are added without line breaks
+  const srcDoc = useMemo(
+    () => preparePreviewHtml(buildPreviewDocument(canInspect ? annotateSource(html) : html, target), sandbox, token),
+    [html, target, sandbox, token, canInspect]
+  );
+  const sandboxAttribute = getSandboxAttribute(sandbox);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const inspectState = { type: 'inspect' as const, enabled: canInspect, selectedId: canInspect ? selectedSourceId : null };
+  const inspectRef = useRef(inspectState);
+  inspectRef.current = inspectState;
+
+  useEffect(() => {
+    postToPreview(frameRef.current, token, inspectRef.current);
+  }, [token, canInspect, selectedSourceId]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = readBridgeMessage(event, frameRef.current, token);
+      if (!message) return;
+      // Every new document starts with inspect mode off
+      if (message.type === 'ready' && inspectRef.current.enabled) postToPreview(frameRef.current, token, inspectRef.current);
+      // Lines in a harness document don't correspond to the component source, so they are dropped
+      onMessageRef.current?.(isComponentTarget(target) && 'line' in message ? { ...message, line: undefined } : message);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [token, target]);
+
+  return (
+    // Sandbox flags only apply on the next navigation, so a change of flags remounts the frame
+    <iframe
+      key={sandboxAttribute}
+      ref={frameRef}
+      title={title}
+      srcDoc={srcDoc}
+      className={className}
+      sandbox={sandboxAttribute}
+    />
+  );
+};
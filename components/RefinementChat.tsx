@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatBubbleLeftRightIcon, PaperAirplaneIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { RefinementTurn } from '../services/gemini';
+
+interface RefinementChatProps {
+  turns: RefinementTurn[];
+  isRefining: boolean;
+  onSend: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  "Add a dark/light toggle",
+  "Make it responsive on mobile",
+  "Add a reset button",
+];
+
+export const RefinementChat: React.FC<RefinementChatProps> = ({ turns, isRefining, onSend, onClose }) => {
+  const [draft, setDraft] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [turns.length, isRefining]);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    const instruction = draft.trim();
+    if (!instruction || isRefining) return;
+    onSend(instruction);
+    setDraft("");
+  };
+
+  return (
+    <div className="w-80 shrink-0 border-l border-zinc-800 bg-zinc-950 flex flex-col overflow-hidden">
+      <div className="px-3 py-2 border-b border-zinc-900 bg-zinc-900/30 flex items-center justify-between shrink-0">
+        <div className="flex items-center space-x-2">
+          <ChatBubbleLeftRightIcon className="w-3 h-3 text-zinc-500" />
+          <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest">Refine</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title="Close Chat"
+        >
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-3">
+        {turns.length === 0 && !isRefining && (
+          <div className="space-y-2">
+            <p className="text-xs text-zinc-500">Describe a change and Gemini will update the current code.</p>
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => setDraft(suggestion)}
+                className="block w-full text-left text-xs text-zinc-400 hover:text-zinc-100 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-lg px-3 py-2 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {turns.map((turn, idx) => (
+          <div key={idx} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] text-xs rounded-xl px-3 py-2 whitespace-pre-wrap ${
+              turn.role === 'user'
+                ? 'bg-blue-500/10 border border-blue-500/20 text-zinc-100'
+                : 'bg-zinc-900 border border-zinc-800 text-zinc-400 font-mono text-[11px]'
+            }`}>
+              {turn.text}
+            </div>
+          </div>
+        ))}
+        {isRefining && (
+          <div className="flex items-center space-x-2 text-zinc-500">
+            <div className="w-3 h-3 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            <span className="text-[10px] uppercase font-mono tracking-tighter">Applying change</span>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-2 border-t border-zinc-900 flex items-end gap-2 shrink-0">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder="Make the board 10x10..."
+          disabled={isRefining}
+          rows={2}
+          className="flex-1 bg-zinc-900 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 placeholder:text-zinc-600 resize-none p-2 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isRefining || !draft.trim()}
+          className={`p-2 rounded-lg transition-colors ${isRefining || !draft.trim() ? 'text-zinc-700 cursor-not-allowed' : 'text-white bg-blue-500 hover:bg-blue-600'}`}
+          title="Send"
+        >
+          <PaperAirplaneIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
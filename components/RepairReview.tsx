@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { CheckIcon, WrenchScrewdriverIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { RuntimeErrorReport } from '../services/gemini';
+import { diffLines } from '../services/versions';
+import { collapseUnchanged, countChanges, DiffView } from './DiffView';
+
+interface RepairReviewProps {
+  before: string;
+  after: string;
+  errors: RuntimeErrorReport[];
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+export const RepairReview: React.FC<RepairReviewProps> = ({ before, after, errors, onAccept, onReject }) => {
+  const rows = useMemo(() => collapseUnchanged(diffLines(before, after)), [before, after]);
+  const { added, removed } = countChanges(rows);
+
+  return (
+    <div className="absolute inset-0 z-40 flex flex-col bg-[#09090b] animate-in fade-in duration-200">
+      <div className="px-4 py-3 border-b border-zinc-800 bg-zinc-900/40 shrink-0">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <WrenchScrewdriverIcon className="w-4 h-4 text-blue-400" />
+            <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Proposed Repair</h2>
+            <span className="text-[10px] font-mono text-green-500">+{added}</span>
+            <span className="text-[10px] font-mono text-red-400">−{removed}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onReject}
+              className="flex items-center gap-1 text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 px-3 py-1.5 rounded-md transition-colors"
+            >
+              <XMarkIcon className="w-3.5 h-3.5" />
+              <span>Reject</span>
+            </button>
+            <button
+              onClick={onAccept}
+              disabled={added === 0 && removed === 0}
+              className="flex items-center gap-1 text-xs font-bold bg-white text-black hover:bg-blue-500 hover:text-white disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-black px-3 py-1.5 rounded-md transition-colors"
+            >
+              <CheckIcon className="w-3.5 h-3.5" />
+              <span>Accept</span>
+            </button>
+          </div>
+        </div>
+        <ul className="mt-2 space-y-0.5 max-h-20 overflow-y-auto">
+          {errors.map((error, idx) => (
+            <li key={idx} className="text-[11px] font-mono text-red-400/80 truncate" title={error.message}>
+              {error.line ? `line ${error.line}: ` : ''}{error.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <DiffView rows={rows} emptyMessage="The model returned the code unchanged, so there is nothing to apply." />
+    </div>
+  );
+};
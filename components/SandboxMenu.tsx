@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ShieldCheckIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { CSP_PRESETS, CspPreset, DEFAULT_SANDBOX_SETTINGS, getCsp, SandboxSettings } from '../services/sandbox';
+
+interface SandboxMenuProps {
+  settings: SandboxSettings;
+  onChange: (settings: SandboxSettings) => void;
+  blockedRequests: string[]; // URIs the CSP blocked in the current preview
+}
+
+const labelClass = "block text-[10px] font-mono text-zinc-500 uppercase tracking-widest mb-1.5";
+
+export const SandboxMenu: React.FC<SandboxMenuProps> = ({ settings, onChange, blockedRequests }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const update = (patch: Partial<SandboxSettings>) => onChange({ ...settings, ...patch });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handlePresetChange = (cspPreset: CspPreset) => {
+    // Start a custom policy from whatever is in effect, so it can be tweaked rather than written from scratch
+    update(cspPreset === 'custom' ? { cspPreset, customCsp: getCsp(settings) } : { cspPreset });
+  };
+
+  const isHardened = settings.strict && !!getCsp(settings);
+  const Icon = isHardened ? ShieldCheckIcon : ShieldExclamationIcon;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative transition-colors p-1.5 rounded-md hover:bg-zinc-800 ${isOpen ? 'text-zinc-100 bg-zinc-800' : isHardened ? 'text-zinc-500 hover:text-zinc-300' : 'text-amber-500 hover:text-amber-400'}`}
+        title={isHardened ? 'Sandbox: strict' : 'Sandbox: relaxed'}
+      >
+        <Icon className="w-4 h-4" />
+        {blockedRequests.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-500 text-white text-[8px] font-mono font-bold flex items-center justify-center">
+            {blockedRequests.length > 99 ? '99+' : blockedRequests.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 z-50 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-150">
+          <div className="p-4 space-y-4">
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.strict}
+                onChange={(e) => update({ strict: e.target.checked })}
+                className="accent-blue-500 mt-0.5"
+              />
+              <div>
+                <div className="text-xs font-medium text-zinc-200">Strict sandbox</div>
+                <div className="text-[10px] text-zinc-500 leading-relaxed">
+                  Runs the preview in an isolated origin with no access to this app's storage. Turn off only for code you trust.
+                </div>
+                {!settings.strict && (
+                  <div className="mt-1 text-[10px] text-amber-500/90 leading-relaxed">
+                    The preview shares this app's origin, so its code can read your history and the API key stored in your browser.
+                  </div>
+                )}
+              </div>
+            </label>
+
+            <div>
+              <label className={labelClass}>Content Security Policy</label>
+              <select
+                value={settings.cspPreset}
+                onChange={(e) => handlePresetChange(e.target.value as CspPreset)}
+                className="w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 px-3 py-2 outline-none font-mono"
+              >
+                {(Object.keys(CSP_PRESETS) as Exclude<CspPreset, 'custom'>[]).map(id => (
+                  <option key={id} value={id}>{CSP_PRESETS[id].label}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              {settings.cspPreset === 'custom' ? (
+                <textarea
+                  value={settings.customCsp}
+                  onChange={(e) => update({ customCsp: e.target.value })}
+                  rows={5}
+                  spellCheck={false}
+                  className="mt-2 w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-[10px] text-zinc-300 px-3 py-2 outline-none font-mono resize-y"
+                />
+              ) : (
+                <p className="mt-1.5 text-[10px] text-zinc-500 leading-relaxed">{CSP_PRESETS[settings.cspPreset].description}</p>
+              )}
+            </div>
+
+            {blockedRequests.length > 0 && (
+              <div>
+                <label className={labelClass}>Blocked in this preview ({blockedRequests.length})</label>
+                <ul className="max-h-28 overflow-y-auto space-y-0.5">
+                  {blockedRequests.map((uri, idx) => (
+                    <li key={idx} className="text-[10px] font-mono text-red-400/80 truncate" title={uri}>{uri}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <button
+              onClick={() => onChange(DEFAULT_SANDBOX_SETTINGS)}
+              className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
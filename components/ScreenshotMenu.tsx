@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowsPointingOutIcon, CameraIcon, ComputerDesktopIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { captureScreenshot } from '../services/capture';
+import { ViewportSize } from '../services/devices';
+import { downloadBlob, slugify } from '../services/exporter';
+
+interface ScreenshotMenuProps {
+  creation: Creation;
+  html: string;
+  getViewport: () => ViewportSize; // The size the preview is currently shown at
+}
+
+// Twice the CSS resolution so images stay sharp on slides
+const PIXEL_RATIO = 2;
+
+export const ScreenshotMenu: React.FC<ScreenshotMenuProps> = ({ creation, html, getViewport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [viewport, setViewport] = useState<ViewportSize | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggle = () => {
+    if (!isOpen) setViewport(getViewport());
+    setIsOpen(!isOpen);
+  };
+
+  const run = async (fullPage: boolean) => {
+    if (!viewport) return;
+    setIsCapturing(true);
+    setIsOpen(false);
+    try {
+      const blob = await captureScreenshot(html, creation.target, { viewport, fullPage, pixelRatio: PIXEL_RATIO });
+      downloadBlob(blob, `${slugify(creation.name)}_${fullPage ? 'full' : `${viewport.width}x${viewport.height}`}.png`);
+    } catch (err) {
+      console.error("Screenshot error", err);
+      alert(`Failed to capture a screenshot. ${(err as Error).message || ''}`.trim());
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const itemClass = "w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-zinc-800 transition-colors disabled:opacity-50";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={toggle}
+        disabled={isCapturing}
+        className={`transition-colors p-1.5 rounded-md hover:bg-zinc-800 ${isOpen ? 'text-zinc-100 bg-zinc-800' : 'text-zinc-500 hover:text-zinc-300'}`}
+        title={isCapturing ? 'Capturing screenshot...' : 'Download Screenshot'}
+      >
+        <CameraIcon className={`w-4 h-4 ${isCapturing ? 'animate-pulse' : ''}`} />
+      </button>
+
+      {isOpen && viewport && (
+        <div className="absolute right-0 top-full mt-2 w-64 z-50 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-150">
+          <button onClick={() => run(false)} className={itemClass}>
+            <ComputerDesktopIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+            <div>
+              <div className="text-xs font-medium text-zinc-200">Viewport</div>
+              <div className="text-[10px] text-zinc-500">The first screen at {viewport.width}×{viewport.height}</div>
+            </div>
+          </button>
+          <button onClick={() => run(true)} className={itemClass}>
+            <ArrowsPointingOutIcon className="w-4 h-4 mt-0.5 text-zinc-400 shrink-0" />
+            <div>
+              <div className="text-xs font-medium text-zinc-200">Full page</div>
+              <div className="text-[10px] text-zinc-500">The whole scroll height at {viewport.width} px wide</div>
+            </div>
+          </button>
+          <div className="px-3 py-2 border-t border-zinc-800 text-[10px] text-zinc-600">
+            PNG at {PIXEL_RATIO}× resolution, rendered from the current code in a fresh page.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useState } from 'react';
+import { CircleStackIcon, TrashIcon, XMarkIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { formatBytes, getCreationSizes, getStorageEstimate, requestPersistentStorage, StorageEstimate } from '../services/storage';
+
+interface StorageManagerProps {
+  history: Creation[];
+  onDelete: (ids: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const EVICT_BATCH = 10;
+
+export const StorageManager: React.FC<StorageManagerProps> = ({ history, onDelete, onClose }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextEstimate, nextSizes] = await Promise.all([getStorageEstimate(), getCreationSizes()]);
+      setEstimate(nextEstimate);
+      setSizes(nextSizes);
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, history.length]);
+
+  // Oldest first, since those are the natural eviction candidates
+  const items = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const selectedSize = items.filter(c => selectedIds.has(c.id)).reduce((sum, c) => sum + (sizes[c.id] ?? 0), 0);
+  const percentage = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDelete = async () => {
+    if (selectedIds.size === 0) return;
+    if (!confirm(`Permanently delete ${selectedIds.size} creation(s)?`)) return;
+    setIsDeleting(true);
+    try {
+      await onDelete([...selectedIds]);
+      setSelectedIds(new Set());
+      await refresh();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between shrink-0">
+          <div className="flex items-center space-x-2">
+            <CircleStackIcon className="w-4 h-4 text-zinc-500" />
+            <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Storage</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+            title="Close"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-zinc-800 shrink-0">
+          <div className="flex justify-between items-baseline text-[10px] font-mono uppercase tracking-widest">
+            <span className="text-zinc-500">{history.length} creations</span>
+            <span className="text-zinc-300">
+              {estimate ? formatBytes(estimate.usage) : '—'}
+              <span className="text-zinc-600"> / {estimate && estimate.quota > 0 ? formatBytes(estimate.quota) : 'unknown'}</span>
+            </span>
+          </div>
+          <div className="w-full h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-700 ${percentage > 90 ? 'bg-red-500' : percentage > 70 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+              style={{ width: `${percentage}%` }}
+            />
+          </div>
+          {estimate && !estimate.persisted && (
+            <button
+              onClick={handlePersist}
+              className="flex items-center space-x-1.5 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors"
+              title="Ask the browser not to clear the archive when disk space runs low"
+            >
+              <LockClosedIcon className="w-3 h-3" />
+              <span>Protect archive from browser eviction</span>
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-800/60">
+          {items.map(item => (
+            <label key={item.id} className="flex items-center gap-3 px-4 py-2 hover:bg-zinc-800/40 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(item.id)}
+                onChange={() => toggle(item.id)}
+                className="accent-blue-500"
+              />
+              <span className="flex-1 text-sm text-zinc-300 truncate">{item.name}</span>
+              <span className="text-[10px] font-mono text-zinc-600 whitespace-nowrap">
+                {item.timestamp.toLocaleDateString()}
+              </span>
+              <span className="w-16 text-right text-[10px] font-mono text-zinc-500">
+                {sizes[item.id] !== undefined ? formatBytes(sizes[item.id]) : '—'}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between gap-2 shrink-0">
+          <button
+            onClick={() => setSelectedIds(new Set(items.slice(0, EVICT_BATCH).map(c => c.id)))}
+            className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            Select oldest {EVICT_BATCH}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={selectedIds.size === 0 || isDeleting}
+            className={`flex items-center space-x-1 text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${selectedIds.size === 0 || isDeleting ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-red-500/90 text-white hover:bg-red-600'}`}
+          >
+            <TrashIcon className="w-3 h-3" />
+            <span>Delete {selectedIds.size > 0 ? `${selectedIds.size} (${formatBytes(selectedSize)})` : ''}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon, ArrowUpTrayIcon, CheckIcon, DocumentDuplicateIcon, PlusIcon, SwatchIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { downloadBlob } from '../services/exporter';
+import {
+  createProfile,
+  exportStyleProfiles,
+  getSelectedProfile,
+  isModifiedBuiltIn,
+  mergeStyleProfiles,
+  parseStyleProfiles,
+  resetProfile,
+  StyleLibrary,
+  StyleProfile,
+} from '../services/styleProfiles';
+
+interface StyleProfilesProps {
+  library: StyleLibrary;
+  onChange: (library: StyleLibrary) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-lg text-xs text-zinc-100 placeholder:text-zinc-600 px-3 py-2 outline-none";
+const labelClass = "block text-[10px] font-mono text-zinc-500 uppercase tracking-widest mb-1.5";
+
+export const StyleProfiles: React.FC<StyleProfilesProps> = ({ library, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState(() => getSelectedProfile(library).id);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const editing = library.profiles.find(p => p.id === editingId) || library.profiles[0];
+
+  const updateProfile = (profile: StyleProfile) =>
+    onChange({ ...library, profiles: library.profiles.map(p => p.id === profile.id ? profile : p) });
+
+  const addProfile = (source?: StyleProfile) => {
+    const profile = createProfile(source);
+    onChange({ ...library, profiles: [...library.profiles, profile] });
+    setEditingId(profile.id);
+  };
+
+  const deleteProfile = (profile: StyleProfile) => {
+    if (!confirm(`Delete the "${profile.name}" profile?`)) return;
+    const profiles = library.profiles.filter(p => p.id !== profile.id);
+    onChange({ profiles, selectedId: library.selectedId === profile.id ? profiles[0].id : library.selectedId });
+    setEditingId(profiles[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseStyleProfiles(await file.text());
+      onChange({ ...library, profiles: mergeStyleProfiles(library.profiles, imported) });
+      setEditingId(imported[0].id);
+    } catch (error) {
+      console.error("Failed to import style profiles:", error);
+      alert(error instanceof SyntaxError ? "This file isn't valid JSON." : (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between shrink-0">
+          <div className="flex items-center space-x-2">
+            <SwatchIcon className="w-4 h-4 text-zinc-500" />
+            <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Style Profiles</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center space-x-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+              title="Add profiles from a JSON file; profiles with the same id are replaced"
+            >
+              <ArrowUpTrayIcon className="w-3 h-3" />
+              <span>Import</span>
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => downloadBlob(exportStyleProfiles(library.profiles), 'style-profiles.json')}
+              className="flex items-center space-x-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+              title="Download all profiles as JSON"
+            >
+              <ArrowDownTrayIcon className="w-3 h-3" />
+              <span>Export</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+              title="Close"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-56 shrink-0 border-r border-zinc-800 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+              {library.profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => setEditingId(profile.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${profile.id === editing.id ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200'}`}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs font-medium truncate">{profile.name}</span>
+                    {profile.id === library.selectedId && <CheckIcon className="w-3 h-3 text-blue-400 shrink-0" title="Used for new generations" />}
+                  </div>
+                  <div className="text-[10px] font-mono text-zinc-600 truncate">
+                    {profile.builtIn ? (isModifiedBuiltIn(profile) ? 'Built-in · edited' : 'Built-in') : 'Custom'}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => addProfile()}
+              className="flex items-center justify-center gap-1 m-2 text-xs text-zinc-400 hover:text-zinc-100 border border-dashed border-zinc-700 hover:border-zinc-500 rounded-lg py-2 transition-colors"
+            >
+              <PlusIcon className="w-3 h-3" />
+              <span>New profile</span>
+            </button>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                value={editing.name}
+                onChange={(e) => updateProfile({ ...editing, name: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input
+                value={editing.description || ''}
+                onChange={(e) => updateProfile({ ...editing, description: e.target.value || undefined })}
+                placeholder="Shown in the style picker"
+                className={fieldClass}
+              />
+            </div>
+            <div className="flex-1 flex flex-col min-h-0">
+              <label className={labelClass}>Instructions</label>
+              <textarea
+                value={editing.instructions}
+                onChange={(e) => updateProfile({ ...editing, instructions: e.target.value })}
+                placeholder="Colours, typography, spacing, component styles and tone the model should follow..."
+                className={`${fieldClass} flex-1 font-mono resize-none leading-relaxed`}
+              />
+              <p className="mt-1.5 text-[10px] text-zinc-600">
+                Added to every generation that uses this profile. Rules such as a single self-contained file and no external images always apply.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 shrink-0">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => addProfile(editing)}
+                  className="flex items-center space-x-1 text-xs text-zinc-500 hover:text-zinc-300 px-2 py-1.5 rounded-md hover:bg-zinc-800 transition-colors"
+                >
+                  <DocumentDuplicateIcon className="w-3 h-3" />
+                  <span>Duplicate</span>
+                </button>
+                {editing.builtIn ? (
+                  <button
+                    onClick={() => updateProfile(resetProfile(editing))}
+                    disabled={!isModifiedBuiltIn(editing)}
+                    className="flex items-center space-x-1 text-xs text-zinc-500 hover:text-zinc-300 disabled:opacity-40 disabled:hover:text-zinc-500 px-2 py-1.5 rounded-md hover:bg-zinc-800 disabled:hover:bg-transparent transition-colors"
+                  >
+                    <ArrowPathIcon className="w-3 h-3" />
+                    <span>Reset</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => deleteProfile(editing)}
+                    className="flex items-center space-x-1 text-xs text-zinc-500 hover:text-red-400 px-2 py-1.5 rounded-md hover:bg-zinc-800 transition-colors"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                    <span>Delete</span>
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={() => onChange({ ...library, selectedId: editing.id })}
+                disabled={editing.id === library.selectedId || !editing.name.trim()}
+                className={`text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${editing.id === library.selectedId ? 'bg-zinc-800 text-zinc-500 cursor-default' : 'bg-white text-black hover:bg-blue-500 hover:text-white'}`}
+              >
+                {editing.id === library.selectedId ? 'In use' : 'Use for new generations'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { ArrowDownTrayIcon, ChartBarIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { downloadBlob } from '../services/exporter';
+import {
+  BUDGET_LABELS,
+  BUDGET_WARNING_THRESHOLD,
+  BudgetScope,
+  estimateCost,
+  exportUsageCsv,
+  formatBudgetAmount,
+  formatCost,
+  getBudgetStatuses,
+  getEntriesSince,
+  getModelPrice,
+  getMonthKey,
+  getStartOfDay,
+  getTotals,
+  isBudgetUsedUp,
+  ModelPrice,
+  OPERATION_LABELS,
+  summarizeUsage,
+  UsageEntry,
+  UsageSettings,
+} from '../services/usage';
+
+interface UsageReportProps {
+  ledger: UsageEntry[];
+  settings: UsageSettings;
+  onChange: (settings: UsageSettings) => void;
+  onClearLedger: () => void;
+  onClose: () => void;
+}
+
+type Breakdown = 'month' | 'model' | 'project' | 'operation';
+
+const BREAKDOWNS: { id: Breakdown; label: string; keyOf: (entry: UsageEntry) => string }[] = [
+  { id: 'month', label: 'Month', keyOf: e => getMonthKey(e.timestamp) },
+  { id: 'model', label: 'Model', keyOf: e => e.model },
+  { id: 'project', label: 'Project', keyOf: e => e.projectName || 'Untitled' },
+  { id: 'operation', label: 'Operation', keyOf: e => OPERATION_LABELS[e.operation] },
+];
+
+const fieldClass = "bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-md text-xs text-zinc-100 placeholder:text-zinc-600 px-2 py-1 outline-none font-mono";
+const labelClass = "text-[10px] font-mono text-zinc-500 uppercase tracking-widest";
+
+export const UsageReport: React.FC<UsageReportProps> = ({ ledger, settings, onChange, onClearLedger, onClose }) => {
+  const [breakdown, setBreakdown] = useState<Breakdown>('month');
+  const update = (patch: Partial<UsageSettings>) => onChange({ ...settings, ...patch });
+
+  const now = new Date();
+  const weekStart = getStartOfDay(new Date(now.getTime() - ((now.getDay() - settings.weekStartsOn + 7) % 7) * 86_400_000));
+  const periods = [
+    { label: 'Today', ...getTotals(getEntriesSince(ledger, getStartOfDay(now)), settings) },
+    { label: 'This week', ...getTotals(getEntriesSince(ledger, weekStart), settings) },
+    { label: 'This month', ...getTotals(getEntriesSince(ledger, new Date(now.getFullYear(), now.getMonth(), 1)), settings) },
+    { label: 'All time', ...getTotals(ledger, settings) },
+  ];
+  const statuses = getBudgetStatuses(ledger, settings);
+
+  const keyOf = BREAKDOWNS.find(b => b.id === breakdown)!.keyOf;
+  const rows = useMemo(() => {
+    const summary = summarizeUsage(ledger, settings, keyOf);
+    return breakdown === 'month' ? summary.sort((a, b) => b.key.localeCompare(a.key)) : summary;
+  }, [ledger, settings, breakdown]);
+
+  const models = useMemo(() => [...new Set(ledger.map(e => e.model.toLowerCase()))].sort(), [ledger]);
+  const unpricedCalls = ledger.filter(e => estimateCost(e, settings) === null).length;
+
+  const setBudget = (scope: BudgetScope, value: number | null) =>
+    update({ budgets: { ...settings.budgets, [scope]: value } });
+
+  const setPrice = (model: string, patch: Partial<ModelPrice>) => {
+    const current = getModelPrice(model, settings) || { input: 0, output: 0 };
+    update({ pricingOverrides: { ...settings.pricingOverrides, [model]: { ...current, ...patch } } });
+  };
+
+  const resetPrice = (model: string) => {
+    const { [model]: _, ...rest } = settings.pricingOverrides;
+    update({ pricingOverrides: rest });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportUsageCsv(ledger, settings)], { type: 'text/csv' });
+    downloadBlob(blob, `usage-${now.toISOString().slice(0, 10)}.csv`);
+  };
+
+  const handleClear = () => {
+    if (!confirm(`Delete all ${ledger.length} usage records? Budgets will start again from zero.`)) return;
+    onClearLedger();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between shrink-0">
+          <div className="flex items-center space-x-2">
+            <ChartBarIcon className="w-4 h-4 text-zinc-500" />
+            <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-400">Usage &amp; Budgets</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleExport}
+              disabled={ledger.length === 0}
+              className="flex items-center space-x-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 disabled:opacity-40 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+              title="Download every recorded call as CSV"
+            >
+              <ArrowDownTrayIcon className="w-3 h-3" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+              title="Close"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-px bg-zinc-800 border-b border-zinc-800">
+            {periods.map(period => (
+              <div key={period.label} className="bg-zinc-900 px-4 py-3">
+                <div className={labelClass}>{period.label}</div>
+                <div className="text-sm font-mono text-zinc-100 mt-1">{formatCost(period.cost)}</div>
+                <div className="text-[10px] font-mono text-zinc-600">{period.tokens.toLocaleString()} tokens</div>
+              </div>
+            ))}
+          </div>
+
+          <section className="p-4 space-y-3 border-b border-zinc-800">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h3 className={labelClass}>Budgets</h3>
+              <div className="flex items-center gap-2">
+                <select
+                  value={settings.unit}
+                  onChange={(e) => update({ unit: e.target.value as UsageSettings['unit'] })}
+                  className={fieldClass}
+                >
+                  <option value="tokens">Tokens</option>
+                  <option value="usd">US dollars</option>
+                </select>
+                <select
+                  value={settings.resetPolicy}
+                  onChange={(e) => update({ resetPolicy: e.target.value as UsageSettings['resetPolicy'] })}
+                  className={fieldClass}
+                  title="When daily and weekly budgets free up again"
+                >
+                  <option value="calendar">Reset at midnight</option>
+                  <option value="rolling">Rolling window</option>
+                </select>
+                {settings.resetPolicy === 'calendar' && (
+                  <select
+                    value={settings.weekStartsOn}
+                    onChange={(e) => update({ weekStartsOn: Number(e.target.value) as 0 | 1 })}
+                    className={fieldClass}
+                  >
+                    <option value={1}>Weeks start Monday</option>
+                    <option value={0}>Weeks start Sunday</option>
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {(Object.keys(BUDGET_LABELS) as BudgetScope[]).map(scope => {
+              const limit = settings.budgets[scope];
+              const status = statuses.find(s => s.scope === scope);
+              const percentage = status ? Math.min(100, status.percentage) : 0;
+              return (
+                <div key={scope} className="flex items-center gap-3">
+                  <label className="w-28 flex items-center gap-2 text-xs text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={limit !== null}
+                      onChange={(e) => setBudget(scope, e.target.checked ? (settings.unit === 'usd' ? 5 : 1_000_000) : null)}
+                      className="accent-blue-500"
+                    />
+                    {BUDGET_LABELS[scope]}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={settings.unit === 'usd' ? 0.5 : 100_000}
+                    value={limit ?? ''}
+                    disabled={limit === null}
+                    placeholder="Unlimited"
+                    onChange={(e) => setBudget(scope, Math.max(0, Number(e.target.value) || 0))}
+                    className={`${fieldClass} w-32 disabled:opacity-40`}
+                  />
+                  {status ? (
+                    <div className="flex-1 min-w-0">
+                      <div className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${isBudgetUsedUp(status) ? 'bg-red-500' : percentage >= BUDGET_WARNING_THRESHOLD ? 'bg-yellow-500' : 'bg-blue-500'}`}
+                          style={{ width: `${percentage}%` }}
+                        />
+                      </div>
+                      <div className="text-[10px] font-mono text-zinc-600 mt-1 truncate">
+                        {formatBudgetAmount(status.used, settings.unit)} used
+                        {status.resetsAt ? ` · resets ${status.resetsAt.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}` : ''}
+                      </div>
+                    </div>
+                  ) : (
+                    <span className="flex-1 text-[10px] font-mono text-zinc-600">
+                      {scope === 'project' && limit !== null ? 'Covers a creation and all of its edits' : ''}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+
+          <section className="p-4 space-y-2 border-b border-zinc-800">
+            <div className="flex items-center justify-between">
+              <h3 className={labelClass}>Breakdown</h3>
+              <div className="flex items-center gap-1">
+                {BREAKDOWNS.map(b => (
+                  <button
+                    key={b.id}
+                    onClick={() => setBreakdown(b.id)}
+                    className={`text-[9px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded transition-colors ${breakdown === b.id ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-600 hover:text-zinc-400'}`}
+                  >
+                    {b.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {rows.length === 0 ? (
+              <p className="py-4 text-center text-xs text-zinc-600">No model calls recorded yet.</p>
+            ) : (
+              <table className="w-full text-[11px] font-mono">
+                <thead>
+                  <tr className="text-zinc-600 text-left">
+                    <th className="font-normal py-1">{BREAKDOWNS.find(b => b.id === breakdown)!.label}</th>
+                    <th className="font-normal py-1 text-right">Calls</th>
+                    <th className="font-normal py-1 text-right">Input</th>
+                    <th className="font-normal py-1 text-right">Output</th>
+                    <th className="font-normal py-1 text-right">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800/60">
+                  {rows.map(row => (
+                    <tr key={row.key} className="text-zinc-300">
+                      <td className="py-1 pr-2 max-w-[12rem] truncate" title={row.key}>{row.key}</td>
+                      <td className="py-1 text-right text-zinc-500">{row.calls}</td>
+                      <td className="py-1 text-right">{row.promptTokens.toLocaleString()}</td>
+                      <td className="py-1 text-right">{row.candidateTokens.toLocaleString()}</td>
+                      <td className="py-1 text-right" title={row.unpricedCalls ? `${row.unpricedCalls} call(s) have no known price` : undefined}>
+                        {formatCost(row.cost)}{row.unpricedCalls ? <span className="text-amber-500">*</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className={labelClass}>Pricing (USD per 1M tokens)</h3>
+              <label className="flex items-center gap-2 text-[10px] font-mono text-zinc-500">
+                <input
+                  type="checkbox"
+                  checked={settings.localModelsAreFree}
+                  onChange={(e) => update({ localModelsAreFree: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Local models are free
+              </label>
+            </div>
+            {unpricedCalls > 0 && (
+              <p className="text-[10px] font-mono text-amber-500">
+                {unpricedCalls} call(s) use a model with no known price and are counted as $0. Set a price below.
+              </p>
+            )}
+            {models.length === 0 ? (
+              <p className="text-xs text-zinc-600">Prices appear here for every model you use.</p>
+            ) : models.map(model => {
+              const price = getModelPrice(model, settings);
+              const overridden = !!settings.pricingOverrides[model];
+              return (
+                <div key={model} className="flex items-center gap-2">
+                  <span className="flex-1 text-xs font-mono text-zinc-300 truncate" title={model}>{model}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={price?.input ?? ''}
+                    placeholder="Input"
+                    onChange={(e) => setPrice(model, { input: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${fieldClass} w-20`}
+                    title="Input tokens"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={price?.output ?? ''}
+                    placeholder="Output"
+                    onChange={(e) => setPrice(model, { output: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${fieldClass} w-20`}
+                    title="Output tokens"
+                  />
+                  <button
+                    onClick={() => resetPrice(model)}
+                    disabled={!overridden}
+                    className="w-12 text-[9px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300 disabled:invisible"
+                    title="Use the built-in price"
+                  >
+                    Reset
+                  </button>
+                </div>
+              );
+            })}
+          </section>
+        </div>
+
+        <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between gap-2 shrink-0">
+          <span className="text-[10px] font-mono text-zinc-600">
+            {ledger.length} calls recorded · estimates use list prices
+          </span>
+          <button
+            onClick={handleClear}
+            disabled={ledger.length === 0}
+            className="flex items-center space-x-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-red-400 disabled:opacity-40 transition-colors"
+          >
+            <TrashIcon className="w-3 h-3" />
+            <span>Clear history</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
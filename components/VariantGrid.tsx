@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ArrowsPointingOutIcon, BookmarkIcon, CheckIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { PreviewFrame } from './PreviewFrame';
+import { SandboxSettings } from '../services/sandbox';
+
+interface VariantGridProps {
+  variants: Creation[];
+  isMerging: boolean;
+  onPick: (variant: Creation) => void;
+  onKeep: (variants: Creation[]) => void;
+  onMerge: (variants: Creation[], guidance?: string) => void;
+  sandbox: SandboxSettings;
+}
+
+export const VariantGrid: React.FC<VariantGridProps> = ({ variants, isMerging, onPick, onKeep, onMerge, sandbox }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [keptIds, setKeptIds] = useState<Set<string>>(new Set());
+  const [guidance, setGuidance] = useState("");
+
+  const selected = variants.filter(v => selectedIds.has(v.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleKeep = () => {
+    onKeep(selected);
+    setKeptIds(prev => new Set([...prev, ...selected.map(v => v.id)]));
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="flex flex-col w-full h-full overflow-hidden">
+      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2 p-2 overflow-auto auto-rows-[minmax(20rem,1fr)]">
+        {variants.map(variant => {
+          const isSelected = selectedIds.has(variant.id);
+          const isKept = keptIds.has(variant.id);
+          return (
+            <div
+              key={variant.id}
+              className={`relative flex flex-col rounded-lg overflow-hidden border transition-all duration-200 ${isSelected ? 'border-blue-500 shadow-[0_0_20px_rgba(59,130,246,0.2)]' : 'border-zinc-800'}`}
+            >
+              <div className="px-3 py-2 bg-zinc-900/80 border-b border-zinc-800 flex items-center justify-between shrink-0">
+                <button
+                  onClick={() => toggleSelected(variant.id)}
+                  className="flex items-center space-x-2 text-left"
+                  title="Select"
+                >
+                  <span className={`w-3.5 h-3.5 rounded border flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-500' : 'border-zinc-600'}`}>
+                    {isSelected && <CheckIcon className="w-2.5 h-2.5 text-white" />}
+                  </span>
+                  <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-300 truncate">{variant.name}</span>
+                </button>
+                <div className="flex items-center space-x-2">
+                  {isKept && (
+                    <span className="text-[9px] font-mono uppercase tracking-tighter text-green-500">Kept</span>
+                  )}
+                  <button
+                    onClick={() => onPick(variant)}
+                    className="flex items-center space-x-1 text-[10px] font-bold uppercase text-zinc-400 hover:text-white bg-zinc-800 hover:bg-blue-500 px-2 py-1 rounded transition-colors"
+                    title="Open this variant"
+                  >
+                    <ArrowsPointingOutIcon className="w-3 h-3" />
+                    <span>Pick</span>
+                  </button>
+                </div>
+              </div>
+              <PreviewFrame
+                title={`Variant ${variant.name}`}
+                html={variant.html}
+                target={variant.target}
+                sandbox={sandbox}
+                className="w-full flex-1 bg-white"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-3 py-2 border-t border-zinc-800 bg-[#121214] flex items-center gap-2 shrink-0">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 whitespace-nowrap">
+          {selected.length} of {variants.length} selected
+        </span>
+        <input
+          value={guidance}
+          onChange={(e) => setGuidance(e.target.value)}
+          placeholder="Merge guidance, e.g. layout from Minimal, colours from Playful..."
+          disabled={isMerging}
+          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 focus:border-zinc-600 rounded-md text-xs text-zinc-100 placeholder:text-zinc-600 px-3 py-1.5 outline-none"
+        />
+        <button
+          onClick={handleKeep}
+          disabled={selected.length === 0}
+          className={`flex items-center space-x-1 text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${selected.length === 0 ? 'text-zinc-700 cursor-not-allowed' : 'text-zinc-300 hover:text-white hover:bg-zinc-800'}`}
+          title="Keep selected variants in the archive"
+        >
+          <BookmarkIcon className="w-3 h-3" />
+          <span>Keep</span>
+        </button>
+        <button
+          onClick={() => onMerge(selected, guidance.trim() || undefined)}
+          disabled={selected.length < 2 || isMerging}
+          className={`flex items-center space-x-1 text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${selected.length < 2 || isMerging ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-white text-black hover:bg-blue-500 hover:text-white'}`}
+          title="Merge the selected variants into a new creation"
+        >
+          <SparklesIcon className={`w-3 h-3 ${isMerging ? 'animate-spin' : ''}`} />
+          <span>{isMerging ? 'Merging' : 'Merge'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
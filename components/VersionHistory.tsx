@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon, DocumentDuplicateIcon, QueueListIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation, CreationVersion } from './CreationHistory';
+import { diffLines, getVersions, VERSION_KIND_LABELS } from '../services/versions';
+import { loadVersionHtml } from '../services/storage';
+import { collapseUnchanged, countChanges, DiffView } from './DiffView';
+
+interface VersionHistoryProps {
+  creation: Creation;
+  onRestore: (version: CreationVersion, versionNumber: number) => void;
+  onFork: (version: CreationVersion, versionNumber: number) => void;
+  onClose: () => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ creation, onRestore, onFork, onClose }) => {
+  // Stored versions come without their bodies; they are loaded once per version while the timeline is open
+  const [bodies, setBodies] = useState<Map<string, string>>(new Map());
+  const versions = useMemo(
+    () => getVersions(creation).map(v => v.html === undefined && bodies.has(v.id) ? { ...v, html: bodies.get(v.id) } : v),
+    [creation, bodies]
+  );
+  const isLoading = versions.some(v => v.html === undefined);
+  const [toIndex, setToIndex] = useState(versions.length - 1);
+  const [fromIndex, setFromIndex] = useState(Math.max(0, versions.length - 2));
+
+  // Follow the newest version as new revisions arrive
+  useEffect(() => {
+    setToIndex(versions.length - 1);
+    setFromIndex(Math.max(0, versions.length - 2));
+  }, [creation.id, versions.length]);
+
+  useEffect(() => {
+    const missing = versions.filter(v => v.html === undefined);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    loadVersionHtml(missing)
+      .then(loaded => {
+        if (!cancelled) setBodies(prev => new Map([...prev, ...loaded.map(v => [v.id, v.html!] as [string, string])]));
+      })
+      .catch(error => console.error("Failed to load versions", error));
+    return () => { cancelled = true; };
+  }, [creation.id, versions.length, isLoading]);
+
+  const from = versions[Math.min(fromIndex, versions.length - 1)];
+  const to = versions[Math.min(toIndex, versions.length - 1)];
+
+  const rows = useMemo(() => isLoading ? [] : collapseUnchanged(diffLines(from.html, to.html)), [from, to, isLoading]);
+  const { added, removed } = countChanges(rows);
+
+  const selectVersion = (idx: number) => {
+    setToIndex(idx);
+    setFromIndex(Math.max(0, idx - 1));
+  };
+
+  const versionOption = (v: CreationVersion, idx: number) => (
+    <option key={v.id} value={idx}>v{idx + 1} · {VERSION_KIND_LABELS[v.kind]}</option>
+  );
+
+  return (
+    <div className="flex w-full h-full overflow-hidden bg-zinc-950">
+      <div className="w-72 shrink-0 border-r border-zinc-800 flex flex-col overflow-hidden">
+        <div className="px-3 py-2 border-b border-zinc-900 bg-zinc-900/30 flex items-center justify-between shrink-0">
+          <div className="flex items-center space-x-2">
+            <QueueListIcon className="w-3 h-3 text-zinc-500" />
+            <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest">Versions</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+            title="Close Versions"
+          >
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {versions.map((version, idx) => ({ version, idx })).reverse().map(({ version, idx }) => {
+            const isLatest = idx === versions.length - 1;
+            return (
+              <div
+                key={version.id}
+                onClick={() => selectVersion(idx)}
+                className={`group px-3 py-2 border-b border-zinc-900 cursor-pointer transition-colors ${idx === toIndex ? 'bg-blue-500/10' : 'hover:bg-zinc-900'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs font-mono font-bold text-zinc-300">v{idx + 1}</span>
+                    <span className="text-[9px] font-mono uppercase tracking-tighter px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">
+                      {VERSION_KIND_LABELS[version.kind]}
+                    </span>
+                    {isLatest && <span className="text-[9px] font-mono uppercase tracking-tighter text-green-500">Current</span>}
+                  </div>
+                  <span className="text-[10px] font-mono text-zinc-600">
+                    {version.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                {version.label && (
+                  <p className="mt-1 text-[11px] text-zinc-500 truncate" title={version.label}>{version.label}</p>
+                )}
+                <div className="mt-1.5 flex items-center space-x-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {!isLatest && version.html !== undefined && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRestore(version, idx + 1); }}
+                      className="flex items-center space-x-1 text-[10px] text-blue-400 hover:text-blue-300"
+                    >
+                      <ArrowUturnLeftIcon className="w-3 h-3" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onFork(version, idx + 1); }}
+                    disabled={version.html === undefined}
+                    className="flex items-center space-x-1 text-[10px] text-zinc-400 hover:text-zinc-200"
+                  >
+                    <DocumentDuplicateIcon className="w-3 h-3" />
+                    <span>Fork</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="px-3 py-2 border-b border-zinc-900 bg-zinc-900/30 flex items-center gap-3 shrink-0 text-[10px] font-mono text-zinc-500 uppercase tracking-widest">
+          <span>Diff</span>
+          <select
+            value={fromIndex}
+            onChange={(e) => setFromIndex(Number(e.target.value))}
+            className="bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-300 normal-case tracking-normal"
+          >
+            {versions.map(versionOption)}
+          </select>
+          <span>→</span>
+          <select
+            value={toIndex}
+            onChange={(e) => setToIndex(Number(e.target.value))}
+            className="bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-300 normal-case tracking-normal"
+          >
+            {versions.map(versionOption)}
+          </select>
+          <span className="ml-auto text-green-500">+{added}</span>
+          <span className="text-red-400">−{removed}</span>
+        </div>
+
+        <DiffView rows={rows} emptyMessage={isLoading ? "Loading versions…" : "No differences between these versions."} />
+      </div>
+    </div>
+  );
+};
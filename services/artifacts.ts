@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+
+export const ARTIFACT_ROLES = ['Reference', 'Wireframe', 'Style guide', 'Data', 'Content', 'Brand assets'];
+export const DEFAULT_ARTIFACT_ROLE = ARTIFACT_ROLES[0];
+export const MAX_ARTIFACTS = 6;
+
+const getDataUrlType = (dataUrl: string) => dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+// Older creations carry a single `originalImage` data URL (or only its `sourceType` once stored)
+// plus an optional `pageSelection`; these are lifted into a one-item `artifacts` list
+export const reviveArtifacts = ({ originalImage, sourceType, pageSelection, ...creation }: any): Creation => {
+  if (!creation.artifacts && (originalImage || sourceType)) {
+    creation.artifacts = [{
+      name: creation.name,
+      role: DEFAULT_ARTIFACT_ROLE,
+      mimeType: sourceType || getDataUrlType(originalImage),
+      dataUrl: originalImage,
+      pageSelection,
+    }];
+  }
+  return creation;
+};
+
+export const hasUnloadedArtifacts = (creation: Creation) => !!creation.artifacts?.some(a => !a.dataUrl);
+
+export const getArtifactExtension = (mimeType: string) =>
+  mimeType === 'application/pdf' ? 'pdf' : mimeType.split('/')[1]?.split('+')[0].replace('jpeg', 'jpg') || 'bin';
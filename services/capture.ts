@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { postToPreview, readBridgeMessage } from './previewBridge';
+import { DEFAULT_SANDBOX_SETTINGS, preparePreviewHtml } from './sandbox';
+import { buildPreviewDocument, OutputTarget } from './targets';
+import { ViewportSize } from './devices';
+
+// Screenshots of generated apps. The source is rendered in a hidden frame with the default strict policy,
+// whatever the preview's settings, and the frame draws itself to a PNG through the preview bridge.
+
+export interface CaptureOptions {
+  viewport: ViewportSize; // CSS pixels
+  fullPage?: boolean;     // Capture the whole scroll height instead of the first screen
+  pixelRatio?: number;    // Output pixels per CSS pixel
+}
+
+// A thumbnail is current while `sourceHash` matches the creation's source
+export interface CreationSnapshot {
+  dataUrl: string;
+  sourceHash: string;
+}
+
+export const THUMBNAIL_VIEWPORT: ViewportSize = { width: 1280, height: 800 };
+const THUMBNAIL_PIXEL_RATIO = 0.25;
+
+// Time for CDN scripts such as Tailwind to style the page and for entrance animations to finish
+const SETTLE_MS = 1500;
+const TIMEOUT_MS = 30000;
+
+// The frame's code can forge bridge messages, so only an inline PNG is accepted as a capture
+const PNG_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]*={0,2}$/;
+
+// No allow-modals, so alert() in the page can't block the app while it is captured in the background
+const CAPTURE_SANDBOX = 'allow-scripts';
+
+// FNV-1a; only used to tell whether a thumbnail still matches its source
+export const hashSource = (source: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36) + source.length.toString(36);
+};
+
+export const isSnapshotCurrent = (creation: Creation) =>
+  !!creation.thumbnail && creation.thumbnail.sourceHash === hashSource(creation.html);
+
+// Resolves with a PNG data URL. Rejects with an AbortError when `signal` fires.
+export const captureSource = (source: string, target: OutputTarget | undefined, options: CaptureOptions, signal?: AbortSignal): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Capture cancelled', 'AbortError'));
+      return;
+    }
+
+    const token = crypto.randomUUID();
+    const frame = document.createElement('iframe');
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(settleTimer);
+      clearTimeout(timeout);
+      window.removeEventListener('message', handleMessage);
+      signal?.removeEventListener('abort', handleAbort);
+      frame.remove();
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const handleMessage = (event: MessageEvent) => {
+      const message = readBridgeMessage(event, frame, token);
+      if (message?.type === 'capture') {
+        if (typeof message.dataUrl !== 'string' || !PNG_DATA_URL.test(message.dataUrl)) {
+          fail(new Error('The page returned an invalid screenshot.'));
+          return;
+        }
+        cleanup();
+        resolve(message.dataUrl);
+      } else if (message?.type === 'capture-error') {
+        fail(new Error(message.text));
+      }
+    };
+    const handleAbort = () => fail(new DOMException('Capture cancelled', 'AbortError'));
+    const timeout = setTimeout(() => fail(new Error("The page took too long to render.")), TIMEOUT_MS);
+
+    window.addEventListener('message', handleMessage);
+    signal?.addEventListener('abort', handleAbort);
+    frame.addEventListener('load', () => {
+      settleTimer = setTimeout(() => {
+        postToPreview(frame, token, { type: 'capture', fullPage: !!options.fullPage, pixelRatio: options.pixelRatio ?? 1 });
+      }, SETTLE_MS);
+    });
+
+    // Kept inside the viewport but invisible, since browsers pause rendering in off-screen cross-origin frames
+    frame.title = 'Screenshot renderer';
+    frame.tabIndex = -1;
+    frame.setAttribute('aria-hidden', 'true');
+    frame.setAttribute('sandbox', CAPTURE_SANDBOX);
+    frame.style.cssText = `position:fixed;top:0;left:0;width:${options.viewport.width}px;height:${options.viewport.height}px;border:0;opacity:0;pointer-events:none;z-index:-1`;
+    frame.srcdoc = preparePreviewHtml(buildPreviewDocument(source, target), DEFAULT_SANDBOX_SETTINGS, token, true);
+    document.body.appendChild(frame);
+  });
+
+export const captureThumbnail = async (creation: Creation, signal?: AbortSignal): Promise<CreationSnapshot> => ({
+  dataUrl: await captureSource(creation.html, creation.target, { viewport: THUMBNAIL_VIEWPORT, pixelRatio: THUMBNAIL_PIXEL_RATIO }, signal),
+  sourceHash: hashSource(creation.html),
+});
+
+export const captureScreenshot = async (source: string, target: OutputTarget | undefined, options: CaptureOptions): Promise<Blob> =>
+  (await fetch(await captureSource(source, target, options))).blob();
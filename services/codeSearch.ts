@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Find and replace for the code editor
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  from: number;
+  to: number;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+// Highlighting more than this many matches only slows typing down
+export const MAX_SEARCH_MATCHES = 10000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError when a regex query doesn't compile
+const buildPattern = (query: string, options: SearchOptions, flags = 'g') => {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, `${flags}m${options.caseSensitive ? '' : 'i'}`);
+};
+
+// Non-empty matches in order, as exec() results so replacements can use their groups
+const execMatches = (source: string, pattern: RegExp): RegExpExecArray[] => {
+  const results: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while (results.length < MAX_SEARCH_MATCHES && (match = pattern.exec(source))) {
+    if (match[0].length === 0) {
+      // Patterns such as ^ or \b match nothing; step past them instead of looping forever
+      pattern.lastIndex++;
+      continue;
+    }
+    results.push(match);
+  }
+  return results;
+};
+
+// Expands $$, $&, $`, $', $1...$99 and $<name> the way String.prototype.replace does
+const expandReplacement = (replacement: string, match: RegExpExecArray, source: string) =>
+  replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (key === '`') return source.slice(0, match.index);
+    if (key === "'") return source.slice(match.index + match[0].length);
+    if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+    const group = Number(key);
+    if (group >= 1 && group < match.length) return match[group] ?? '';
+    const single = Number(key[0]);
+    if (key.length === 2 && single >= 1 && single < match.length) return (match[single] ?? '') + key[1];
+    return token;
+  });
+
+export const findMatches = (source: string, query: string, options: SearchOptions): { matches: SearchMatch[]; error?: string } => {
+  if (!query) return { matches: [] };
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(query, options);
+  } catch (error) {
+    return { matches: [], error: (error as Error).message };
+  }
+  return { matches: execMatches(source, pattern).map(match => ({ from: match.index, to: match.index + match[0].length })) };
+};
+
+// The text a match is replaced with; regex replacements may refer to groups as $1, $2... The pattern is run
+// again at the match's offset in the whole source, so lookbehind, anchors and \b see the same context.
+export const getReplacement = (source: string, match: SearchMatch, query: string, replacement: string, options: SearchOptions): string => {
+  if (!options.regex) return replacement;
+  const pattern = buildPattern(query, options, 'y');
+  pattern.lastIndex = match.from;
+  const result = pattern.exec(source);
+  return result && result[0].length === match.to - match.from ? expandReplacement(replacement, result, source) : replacement;
+};
+
+export const replaceAll = (source: string, query: string, replacement: string, options: SearchOptions): { source: string; count: number } => {
+  if (!query) return { source, count: 0 };
+  let matches: RegExpExecArray[];
+  try {
+    matches = execMatches(source, buildPattern(query, options));
+  } catch {
+    return { source, count: 0 };
+  }
+  if (matches.length === 0) return { source, count: 0 };
+  let result = '';
+  let last = 0;
+  matches.forEach(match => {
+    result += source.slice(last, match.index) + (options.regex ? expandReplacement(replacement, match, source) : replacement);
+    last = match.index + match[0].length;
+  });
+  return { source: result + source.slice(last), count: matches.length };
+};
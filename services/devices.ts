@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Viewport presets for the device preview. Sizes are CSS pixels in portrait orientation for phones and tablets.
+
+const STORAGE_KEY = 'gemini_device_settings';
+
+export type DeviceKind = 'phone' | 'tablet' | 'desktop';
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface DevicePreset extends ViewportSize {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-se', label: 'iPhone SE', kind: 'phone', width: 375, height: 667 },
+  { id: 'iphone-15', label: 'iPhone 15', kind: 'phone', width: 393, height: 852 },
+  { id: 'iphone-15-pro-max', label: 'iPhone 15 Pro Max', kind: 'phone', width: 430, height: 932 },
+  { id: 'pixel-8', label: 'Pixel 8', kind: 'phone', width: 412, height: 915 },
+  { id: 'ipad-mini', label: 'iPad mini', kind: 'tablet', width: 744, height: 1133 },
+  { id: 'ipad-air', label: 'iPad Air', kind: 'tablet', width: 820, height: 1180 },
+  { id: 'ipad-pro', label: 'iPad Pro 12.9"', kind: 'tablet', width: 1024, height: 1366 },
+  { id: 'desktop-1280', label: 'Desktop 1280', kind: 'desktop', width: 1280, height: 800 },
+  { id: 'desktop-1440', label: 'Desktop 1440', kind: 'desktop', width: 1440, height: 900 },
+  { id: 'desktop-1920', label: 'Desktop 1920', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+// A preset id, or 'custom' for `customSize`
+export type ViewportId = 'custom' | string;
+
+export interface DeviceSettings {
+  enabled: boolean;   // Off: the preview fills the panel as before
+  viewport: ViewportId;
+  customSize: ViewportSize;
+  rotated: boolean;  // Landscape for phones and tablets, portrait for desktops
+  zoom: number | 'fit';
+  multiView: boolean; // Show every device in `multiViewIds` side by side
+  multiViewIds: string[];
+}
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1];
+
+export const MIN_VIEWPORT = 200;
+export const MAX_VIEWPORT = 3840;
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  enabled: false,
+  viewport: 'iphone-15',
+  customSize: { width: 390, height: 844 },
+  rotated: false,
+  zoom: 'fit',
+  multiView: false,
+  multiViewIds: ['iphone-15', 'ipad-air', 'desktop-1440'],
+};
+
+export const getDevicePreset = (id: string) => DEVICE_PRESETS.find(preset => preset.id === id);
+
+export const clampViewport = (value: number) => Math.round(Math.min(MAX_VIEWPORT, Math.max(MIN_VIEWPORT, value || MIN_VIEWPORT)));
+
+// Viewport size after rotation; unknown preset ids fall back to the default device
+export const getViewportSize = (viewport: ViewportId, settings: DeviceSettings): ViewportSize => {
+  const size = viewport === 'custom' ? settings.customSize : getDevicePreset(viewport) || getDevicePreset(DEFAULT_DEVICE_SETTINGS.viewport)!;
+  return settings.rotated ? { width: size.height, height: size.width } : { width: size.width, height: size.height };
+};
+
+// Custom sizes get the bezel of the closest device class
+export const getDeviceKind = (viewport: ViewportId, settings: DeviceSettings): DeviceKind => {
+  const preset = getDevicePreset(viewport);
+  if (preset) return preset.kind;
+  const shortSide = Math.min(settings.customSize.width, settings.customSize.height);
+  return shortSide < 600 ? 'phone' : shortSide < 1000 ? 'tablet' : 'desktop';
+};
+
+export const getViewportLabel = (viewport: ViewportId) => viewport === 'custom' ? 'Custom' : getDevicePreset(viewport)?.label || 'Device';
+
+// Largest scale, up to 100%, at which `size` fits in `available`
+export const getFitScale = (size: ViewportSize, available: ViewportSize) =>
+  Math.max(0.05, Math.min(1, available.width / size.width, available.height / size.height));
+
+export const loadDeviceSettings = (): DeviceSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_DEVICE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DEVICE_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load device settings", e);
+    return DEFAULT_DEVICE_SETTINGS;
+  }
+};
+
+export const saveDeviceSettings = (settings: DeviceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Every failed model call is normalised into a GenerationError, so the UI can tell the user what went wrong
+// and what to do about it, and the retry loop knows which failures are worth another attempt.
+
+export type GenerationErrorKind =
+  | 'cancelled'
+  | 'auth'
+  | 'quota'         // Rate limited or out of provider quota (HTTP 429)
+  | 'safety'        // The prompt or the response was blocked by a safety filter
+  | 'network'       // The request never got a response
+  | 'server'        // The provider failed or was overloaded (HTTP 5xx)
+  | 'invalid-output'
+  | 'budget'        // Refused locally by the usage budgets
+  | 'unknown';
+
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'network', 'server'];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // Delay the provider asked for before retrying
+  readonly retryable: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.includes(kind);
+  }
+}
+
+export const ERROR_MESSAGES: Record<GenerationErrorKind, { title: string; action: string }> = {
+  'cancelled': { title: 'Generation cancelled', action: 'Nothing was saved.' },
+  'auth': { title: 'The provider rejected the API key', action: 'Check GEMINI_API_KEY in .env.local, or the endpoint and API key in the model settings.' },
+  'quota': { title: 'Rate limit or quota reached', action: 'Wait a minute and try again, or switch to another model in the model settings.' },
+  'safety': { title: 'Blocked by the safety filter', action: 'Rephrase the prompt or use a different artifact.' },
+  'network': { title: 'Could not reach the model', action: 'Check your connection, or that the local server is running and allows CORS, then try again.' },
+  'server': { title: 'The model service is having trouble', action: 'This is usually temporary. Try again in a moment.' },
+  'invalid-output': { title: 'The model did not return a usable app', action: 'Try again, or lower the temperature in the model settings.' },
+  'budget': { title: 'Usage budget reached', action: 'Raise the budget in the usage report, or wait for it to reset.' },
+  'unknown': { title: 'Something went wrong', action: 'Please try again.' },
+};
+
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+export const isSafetyReason = (reason?: string) => !!reason && SAFETY_REASONS.includes(reason);
+
+// Providers embed a suggested delay in 429 bodies, e.g. "retryDelay": "37s" or "Please retry in 12.5s"
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const kindForStatus = (status: number): GenerationErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'server';
+  return null;
+};
+
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if ((error as { name?: unknown })?.name === 'AbortError') {
+    return new GenerationError('cancelled', message, { cause: error });
+  }
+  // fetch reports unreachable hosts, DNS failures and CORS rejections as a bare TypeError
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new GenerationError('network', message, { cause: error });
+  }
+
+  // The Gemini SDK throws ApiError with a `status`; the OpenAI-compatible adapter puts it in the message
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : Number(message.match(/\((\d{3})\)/)?.[1]) || undefined;
+  const kind = (status && kindForStatus(status))
+    || (/api key|permission denied|unauthenticated/i.test(message) ? 'auth'
+      : /quota|rate limit|resource.exhausted/i.test(message) ? 'quota'
+      : /overloaded|unavailable/i.test(message) ? 'server'
+      : 'unknown');
+  return new GenerationError(kind, message, { status, retryAfterMs: kind === 'quota' ? parseRetryAfter(message) : undefined, cause: error });
+};
+
+export const isCancellation = (error: unknown) => toGenerationError(error).kind === 'cancelled';
+
+// Title and next step, for alerts and banners
+export const describeError = (error: unknown): string => {
+  const { title, action } = ERROR_MESSAGES[toGenerationError(error).kind];
+  return `${title}. ${action}`;
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationError('cancelled', 'The request was cancelled');
+};
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('cancelled', 'The request was cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `call`, retrying rate-limit and transient failures with exponential backoff and jitter.
+// Errors come out as GenerationError; cancellation stops both the call and any pending wait.
+export async function withRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await call(attempt);
+    } catch (raw) {
+      const error = options.signal?.aborted ? new GenerationError('cancelled', 'The request was cancelled', { cause: raw }) : toGenerationError(raw);
+      // A provider asking for a long wait usually means the quota is gone for a while, so report it instead
+      if (!error.retryable || attempt >= RETRY_ATTEMPTS || (error.retryAfterMs ?? 0) > RETRY_MAX_DELAY_MS) throw error;
+      const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      const delay = error.retryAfterMs ?? backoff + Math.random() * backoff * 0.3;
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { getArtifactExtension } from './artifacts';
+import { buildPreviewDocument, isComponentTarget, OUTPUT_TARGETS } from './targets';
+
+// Turns a creation into files a client can open without this app: a single index.html,
+// or a zip with the HTML, an assets folder and a README. Components are exported inside their preview harness,
+// and on their own as a source file.
+
+export interface ExportOptions {
+  inlineDependencies: boolean; // Download CDN scripts/styles so the result works offline
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  failedDependencies: string[]; // URLs that could not be fetched and were left as CDN links
+}
+
+interface ExternalDependency {
+  tag: string;
+  url: string;
+  kind: 'script' | 'style';
+}
+
+const SCRIPT_TAG = /<script\b[^>]*\bsrc=["'](https?:\/\/[^"']+)["'][^>]*>\s*<\/script>/gi;
+const STYLESHEET_TAG = /<link\b[^>]*\brel=["']stylesheet["'][^>]*>/gi;
+const HREF_ATTR = /\bhref=["'](https?:\/\/[^"']+)["']/i;
+
+export const slugify = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+const findDependencies = (html: string): ExternalDependency[] => {
+  const deps: ExternalDependency[] = [];
+  for (const match of html.matchAll(SCRIPT_TAG)) {
+    deps.push({ tag: match[0], url: match[1], kind: 'script' });
+  }
+  for (const match of html.matchAll(STYLESHEET_TAG)) {
+    const href = match[0].match(HREF_ATTR);
+    if (href) deps.push({ tag: match[0], url: href[1], kind: 'style' });
+  }
+  return deps;
+};
+
+const fetchDependency = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.text() : null;
+  } catch (e) {
+    console.warn("Failed to fetch dependency", url, e);
+    return null;
+  }
+};
+
+const assetName = (dep: ExternalDependency, index: number) => {
+  const base = new URL(dep.url).hostname.split('.').filter(p => p !== 'www' && p !== 'cdn')[0] || 'asset';
+  return `${index + 1}_${base}.${dep.kind === 'script' ? 'js' : 'css'}`;
+};
+
+const downloadName = (creation: Creation, ext: string) => `${slugify(creation.name)}.${ext}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export async function exportAsHtml(creation: Creation, html: string, options: ExportOptions): Promise<ExportResult> {
+  const page = buildPreviewDocument(html, creation.target);
+  let output = page;
+  const failedDependencies: string[] = [];
+
+  if (options.inlineDependencies) {
+    for (const dep of findDependencies(page)) {
+      const content = await fetchDependency(dep.url);
+      if (content === null) {
+        failedDependencies.push(dep.url);
+        continue;
+      }
+      // A literal `</script>` inside the inlined code would end the tag early
+      const inline = dep.kind === 'script'
+        ? `<script>/* ${dep.url} */\n${content.replace(/<\/script/gi, '<\\/script')}\n</script>`
+        : `<style>/* ${dep.url} */\n${content}\n</style>`;
+      output = output.replace(dep.tag, () => inline);
+    }
+  }
+
+  return {
+    blob: new Blob([output], { type: 'text/html' }),
+    filename: 'index.html',
+    failedDependencies,
+  };
+}
+
+export async function exportAsZip(creation: Creation, html: string, options: ExportOptions): Promise<ExportResult> {
+  const encoder = new TextEncoder();
+  const files: ZipEntry[] = [];
+  const failedDependencies: string[] = [];
+  const bundled: string[] = [];
+  const page = buildPreviewDocument(html, creation.target);
+  const isComponent = !!creation.target && isComponentTarget(creation.target);
+  let output = page;
+
+  if (options.inlineDependencies) {
+    const deps = findDependencies(page);
+    for (const [index, dep] of deps.entries()) {
+      const content = await fetchDependency(dep.url);
+      if (content === null) {
+        failedDependencies.push(dep.url);
+        continue;
+      }
+      const path = `assets/${assetName(dep, index)}`;
+      files.push({ path, data: encoder.encode(content) });
+      bundled.push(`- \`${path}\` (from ${dep.url})`);
+      const localTag = dep.kind === 'script'
+        ? `<script src="${path}"></script>`
+        : `<link rel="stylesheet" href="${path}">`;
+      output = output.replace(dep.tag, () => localTag);
+    }
+  }
+
+  const artifacts = (creation.artifacts || []).filter(artifact => artifact.dataUrl);
+  for (const [index, artifact] of artifacts.entries()) {
+    const source = await (await fetch(artifact.dataUrl!)).blob();
+    const base = artifacts.length > 1 ? `source-${index + 1}-${slugify(artifact.role)}` : 'source';
+    files.push({ path: `assets/${base}.${getArtifactExtension(artifact.mimeType)}`, data: new Uint8Array(await source.arrayBuffer()) });
+  }
+
+  const readme = [
+    `# ${creation.name}`,
+    '',
+    `Exported on ${new Date().toLocaleString()}.`,
+    '',
+    'Open `index.html` in any modern browser. No build step or server is required.',
+    ...(isComponent
+      ? ['', `The component itself is in \`src/${OUTPUT_TARGETS[creation.target!].filename}\`. The preview page compiles it in the browser and loads its framework from a CDN, so it needs an internet connection.`]
+      : []),
+    '',
+    bundled.length > 0
+      ? `Bundled dependencies (work offline):\n${bundled.join('\n')}`
+      : 'Dependencies are loaded from their CDNs, so an internet connection is required.',
+    ...(failedDependencies.length > 0
+      ? ['', `Still loaded from CDN (could not be bundled):\n${failedDependencies.map(url => `- ${url}`).join('\n')}`]
+      : []),
+    ...(artifacts.length > 0
+      ? ['', `The original reference ${artifacts.length > 1 ? 'artifacts are' : 'artifact is'} included in \`assets/\`.`]
+      : []),
+    '',
+  ].join('\n');
+
+  files.unshift(
+    { path: 'index.html', data: encoder.encode(output) },
+    { path: 'README.md', data: encoder.encode(readme) },
+    ...(isComponent ? [{ path: `src/${OUTPUT_TARGETS[creation.target!].filename}`, data: encoder.encode(html) }] : []),
+  );
+
+  return {
+    blob: createZip(files),
+    filename: downloadName(creation, 'zip'),
+    failedDependencies,
+  };
+}
+
+// The component source as-is, ready to copy into a codebase
+export const exportAsSource = (creation: Creation, html: string): ExportResult => {
+  return {
+    blob: new Blob([html], { type: 'text/plain' }),
+    filename: OUTPUT_TARGETS[creation.target || 'html'].filename,
+    failedDependencies: [],
+  };
+};
+
+export const exportAsJson = (creation: Creation, html: string): ExportResult => ({
+  blob: new Blob([JSON.stringify({ ...creation, html }, null, 2)], { type: "application/json" }),
+  filename: `${slugify(creation.name)}_artifact.json`,
+  failedDependencies: [],
+});
+
+// Minimal uncompressed (STORE) zip writer; enough for a handful of text assets
+
+interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
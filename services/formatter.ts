@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getLineStarts, lineAt, pairTags, SourceLanguage, SyntaxInfo, tokenize } from './syntax';
+
+// Pretty-printing for the code editor. Block-level tags that share a line are split onto their own lines and
+// every line is re-indented from the nesting of elements and brackets. Nothing else is rewritten, so the
+// result behaves exactly like the input: text inside strings, comments, <pre> and <textarea> is untouched.
+
+const INDENT = '  ';
+
+const BLOCK_ELEMENTS = new Set([
+  'html', 'head', 'body', 'title', 'meta', 'link', 'script', 'style', 'template', 'div', 'section', 'header', 'footer',
+  'main', 'nav', 'article', 'aside', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'thead', 'tbody', 'tfoot', 'tr',
+  'td', 'th', 'form', 'fieldset', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'blockquote', 'figure', 'figcaption',
+  'details', 'summary', 'dialog', 'select', 'option', 'hr',
+]);
+const PREFORMATTED_ELEMENTS = new Set(['pre', 'textarea']);
+
+// Offset ranges inside <pre> and <textarea>, where whitespace is content
+const preformattedRanges = (syntax: SyntaxInfo) => {
+  const { partner } = pairTags(syntax.tags);
+  return syntax.tags.flatMap((tag, idx) =>
+    !tag.closing && PREFORMATTED_ELEMENTS.has(tag.name) && partner[idx] > idx ? [{ from: tag.to!, to: syntax.tags[partner[idx]].from }] : []);
+};
+
+const splitBlockTags = (source: string, syntax: SyntaxInfo): string => {
+  const { tags } = syntax;
+  const { partner } = pairTags(tags);
+  const preformatted = preformattedRanges(syntax);
+  const breaks: { from: number; to: number }[] = [];
+
+  tags.forEach((tag, idx) => {
+    const next = tags[idx + 1];
+    if (!next || tag.jsx || next.jsx || tag.to === undefined) return;
+    if (!BLOCK_ELEMENTS.has(tag.name) || !BLOCK_ELEMENTS.has(next.name)) return;
+    if (partner[idx] === idx + 1) return; // Keep empty elements such as <div></div> together
+    const gap = source.slice(tag.to, next.from);
+    if (/\S|\n/.test(gap)) return;
+    if (preformatted.some(range => tag.to! > range.from && tag.to! <= range.to)) return;
+    breaks.push({ from: tag.to, to: next.from });
+  });
+
+  // The doctype goes on its own line, and so does the code of a script or style that starts on its tag's line
+  syntax.tokens.forEach(token => {
+    if (token.type !== 'meta') return;
+    const next = source.indexOf('<', token.to);
+    if (next > 0 && /^[ \t]*$/.test(source.slice(token.to, next)) && /[a-z]/i.test(source[next + 1])) {
+      breaks.push({ from: token.to, to: next });
+    }
+  });
+  syntax.regions.forEach(region => {
+    const code = source.slice(region.from, region.to);
+    if (!code.trim()) return;
+    const leading = code.match(/^[ \t]*/)![0];
+    const trailing = code.match(/[ \t]*$/)![0];
+    if (!code.startsWith(`${leading}\n`)) breaks.push({ from: region.from, to: region.from + leading.length });
+    if (!code.slice(0, code.length - trailing.length).endsWith('\n') && region.to < source.length) {
+      breaks.push({ from: region.to - trailing.length, to: region.to });
+    }
+  });
+  breaks.sort((a, b) => a.from - b.from);
+
+  let result = '';
+  let last = 0;
+  breaks.forEach(({ from, to }) => {
+    result += source.slice(last, from) + '\n';
+    last = to;
+  });
+  return result + source.slice(last);
+};
+
+interface IndentEvent {
+  at: number;
+  open: boolean;
+  key: string;
+  tag?: number; // Element events take their indent from the line their start tag began on
+}
+
+const reindent = (source: string, syntax: SyntaxInfo): string => {
+  const { tags, tokens, brackets } = syntax;
+  const { partner } = pairTags(tags);
+  const lineStarts = getLineStarts(source);
+  const preformatted = preformattedRanges(syntax);
+
+  // A multi-line start tag indents its attributes; a paired element indents its children; brackets their contents
+  const events: IndentEvent[] = [];
+  tags.forEach((tag, idx) => {
+    if (tag.to === undefined) return;
+    const end = tag.to - (tag.selfClosing ? 2 : 1);
+    events.push({ at: tag.from, open: true, key: `t${idx}` }, { at: end, open: false, key: `t${idx}` });
+    if (!tag.closing && partner[idx] > idx) {
+      events.push({ at: end, open: true, key: `e${idx}`, tag: idx }, { at: tags[partner[idx]].from, open: false, key: `e${idx}` });
+    }
+  });
+  brackets.forEach((other, at) => {
+    if (other > at) events.push({ at, open: true, key: `b${at}` }, { at: other, open: false, key: `b${at}` });
+  });
+  events.sort((a, b) => a.at - b.at || Number(a.open) - Number(b.open));
+
+  // Lines that start inside a multi-line string or comment, or inside preformatted text, are kept as they are
+  const frozen = new Set<number>();
+  const freeze = (from: number, to: number) => {
+    for (let line = lineAt(lineStarts, from) + 1; line <= lineAt(lineStarts, to); line++) frozen.add(line);
+  };
+  tokens.forEach(token => {
+    if (token.type === 'string' || token.type === 'comment' || token.type === 'invalid') freeze(token.from, token.to - 1);
+  });
+  preformatted.forEach(range => freeze(range.from, range.to));
+
+  const open: { key: string; indent: number }[] = [];
+  const tagIndent = new Map<number, number>();
+  const lines = source.split('\n');
+  let e = 0;
+
+  const result = lines.map((text, line) => {
+    const start = lineStarts[line];
+    const end = start + text.length;
+    const firstChar = start + text.search(/\S|$/);
+
+    let indent: number;
+    const leading = events[e];
+    if (leading && !leading.open && leading.at === firstChar) {
+      indent = open.find(entry => entry.key === leading.key)?.indent ?? 0;
+    } else {
+      indent = open.length ? open[open.length - 1].indent + 1 : 0;
+    }
+
+    for (; e < events.length && events[e].at <= end; e++) {
+      const event = events[e];
+      if (event.open) {
+        const base = event.tag !== undefined ? tagIndent.get(event.tag) ?? indent : indent;
+        if (event.key.startsWith('t')) tagIndent.set(Number(event.key.slice(1)), indent);
+        open.push({ key: event.key, indent: base });
+      } else {
+        const index = open.map(entry => entry.key).lastIndexOf(event.key);
+        if (index >= 0) open.splice(index, 1);
+      }
+    }
+
+    if (frozen.has(line)) return text;
+    const content = text.trim();
+    return content ? INDENT.repeat(indent) + content : '';
+  });
+
+  // Runs of blank lines become one
+  return result.filter((text, line) => text !== '' || frozen.has(line) || line === 0 || result[line - 1] !== '').join('\n');
+};
+
+export const formatSource = (source: string, language: SourceLanguage): string => {
+  const split = language === 'html' ? splitBlockTags(source, tokenize(source, language)) : source;
+  return reindent(split, tokenize(split, language));
+};
@@ -3,54 +3,271 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { createProvider, ModelMessage, ModelRequest, ProviderId, ProviderSettings, TokenUsage } from './providers';
+import { formatPageRanges, isFullSelection, PageSelection, renderPagesForModel } from './pdf';
+import { estimateMediaTokens, estimateRequestTokens, estimateTextTokens, PendingMedia } from './tokens';
+import { GenerationError, toGenerationError, withRetry } from './errors';
+import { isUnusable, OutputIssue, processFragment, processOutput } from './output';
+import { DEFAULT_STYLE_GUIDE, StyleGuide } from './styleProfiles';
+import { DEFAULT_OUTPUT_TARGET, OUTPUT_TARGETS, OutputTarget } from './targets';
+import { CreationArtifact } from '../components/CreationHistory';
+import { ElementRange } from './inspector';
 
-// Using gemini-3-pro-preview for complex coding tasks.
-const GEMINI_MODEL = 'gemini-3-pro-preview';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export type { TokenUsage } from './providers';
+export type { OutputIssue } from './output';
 
 const SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
-Your goal is to take a user uploaded file (or a textual description) and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
-
-CORE DIRECTIVES FOR AESTHETICS & SMOOTHNESS:
-1. **Perfect Centering**: 
-    - By default, ensure the application content is centered. Use a wrapper like <div class="min-h-screen flex items-center justify-center bg-zinc-950 p-4">.
-    - If it's a dashboard, use a centered container: <div class="max-w-5xl mx-auto w-full">.
-2. **Smooth Transitions**:
-    - **CRITICAL**: Apply 'transition-all duration-300 ease-in-out' to all interactive elements (buttons, cards, links).
-    - Use hover effects like 'hover:scale-105' or 'hover:shadow-xl' to make it feel "alive".
-3. **Modern UI Polish**:
-    - Use 'rounded-2xl' or 'rounded-3xl' for corners.
-    - Use subtle borders (border border-white/10) and glassmorphism (backdrop-blur-md bg-white/5).
-    - Use high-quality typography (Inter or system-ui).
-4. **NO EXTERNAL IMAGES**:
+Your goal is to take a user uploaded file (or a textual description) and instantly generate a fully functional, interactive, single-page application.
+
+CORE DIRECTIVES:
+1. **NO EXTERNAL IMAGES**:
     - **CRITICAL**: Do NOT use <img src="..."> with external URLs.
-    - **INSTEAD**: Use Lucide icons (via CDN), inline SVGs, Emojis, or CSS gradients.
+    - **INSTEAD**: Use icons, inline SVGs, Emojis, or CSS gradients.
+2. **Follow the STYLE PROFILE** below for the look and feel, unless the user's instructions say otherwise.
+3. **Follow the OUTPUT TARGET** below for the kind of source to write and the response format.
 
 FUNCTIONAL DIRECTIVES:
 1. **Analyze & Abstract**: Detect buttons, inputs, and layout from images and turn them into functional components.
-2. **Interactive**: Use Lucide icons for visual flair. The app must have state management (simple JS) for interactivity.
-3. **Self-Contained**: Single HTML file with Tailwind via CDN.
+2. **Interactive**: The app must have state management for interactivity.
+3. **Self-Contained**: Everything lives in the single file you return.`;
 
-RESPONSE FORMAT:
-Return ONLY the raw HTML code. Do not wrap it in markdown code blocks. Start immediately with <!DOCTYPE html>.`;
+const REFINEMENT_MODE = `REFINEMENT MODE:
+You are iterating on an application you already built. You will receive the original artifacts (if any), the current source and a change request.
+- Apply ONLY the requested change. Preserve all existing features, state logic and styling that the user did not ask to change.
+- Always return the COMPLETE updated source, never a diff or a fragment.`;
+
+// What shapes the system instruction besides the mode: the look and feel, and the kind of source to return
+export interface InstructionContext {
+  style?: StyleGuide; // Defaults to the built-in dark studio look
+  target?: OutputTarget;
+}
+
+// The fixed instruction, the style profile, the output target, and the rules for the current mode, if any
+const buildSystemInstruction = ({ style = DEFAULT_STYLE_GUIDE, target = DEFAULT_OUTPUT_TARGET }: InstructionContext = {}, mode?: string) =>
+  [
+    SYSTEM_INSTRUCTION,
+    `STYLE PROFILE ("${style.name}"):\n${style.instructions}`,
+    `OUTPUT TARGET (${OUTPUT_TARGETS[target].label}):\n${OUTPUT_TARGETS[target].instructions}`,
+    mode,
+  ].filter(Boolean).join('\n\n');
+
+export interface Attachment {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  label?: string;
+}
+
+export interface GenerationInput extends InstructionContext {
+  prompt: string;
+  attachments: Attachment[];
+  directive?: string;
+}
 
 export interface GenerationResult {
   html: string;
-  usage?: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
-  };
+  usage?: TokenUsage;
+  issues: OutputIssue[]; // What validation fixed or flagged in the model output
+}
+
+// Cancellation and retry reporting for a model call. Rate-limit and transient failures are retried with backoff.
+export interface CallOptions {
+  signal?: AbortSignal;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
 }
 
-export async function bringToLife(prompt: string, fileBase64?: string, mimeType?: string): Promise<GenerationResult> {
-  const parts: any[] = [];
+// Snapshot of a streaming generation, emitted after every received chunk
+export interface GenerationProgress {
+  html: string;
+  chunkCount: number;
+  usage?: TokenUsage;
+}
+
+// A single exchange in the refinement chat for a creation
+export interface RefinementTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// An uncaught error or unhandled rejection reported by the running preview
+export interface RuntimeErrorReport {
+  message: string;
+  line?: number; // 1-based line in the HTML source
+  stack?: string;
+}
+
+// How a creation was produced, so good results can be explained and reproduced
+export interface GenerationMetadata {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  directive?: string;
+  style?: StyleGuide;
+  usage?: TokenUsage;
+  issues?: OutputIssue[];
+  durationMs: number;
+  generatedAt: Date;
+}
+
+export const buildGenerationMetadata = (
+  settings: ProviderSettings,
+  result: GenerationResult,
+  startedAt: number,
+  directive?: string,
+  style?: StyleGuide
+): GenerationMetadata => ({
+  provider: settings.provider,
+  model: settings.model,
+  temperature: settings.temperature,
+  directive,
+  style,
+  usage: result.usage,
+  issues: result.issues,
+  durationMs: Math.round(performance.now() - startedAt),
+  generatedAt: new Date(),
+});
+
+// One of several parallel takes on the same inputs, differing in temperature and style
+export interface VariantSpec {
+  label: string;
+  temperature: number;
+  directive?: string;
+}
+
+const VARIANT_STYLES: { label: string; temperatureOffset: number; directive?: string }[] = [
+  { label: 'Faithful', temperatureOffset: -0.2 },
+  { label: 'Playful', temperatureOffset: 0.2, directive: 'Lean into bold colours, playful motion and delightful micro-interactions.' },
+  { label: 'Minimal', temperatureOffset: 0, directive: 'Keep the interface minimal and typographic, with generous whitespace and restrained colour.' },
+  { label: 'Experimental', temperatureOffset: 0.4, directive: 'Take a bold, unexpected creative interpretation of the input while keeping it fully functional.' },
+];
+
+export const MAX_VARIANTS = VARIANT_STYLES.length;
+
+export const buildVariantSpecs = (count: number, baseTemperature: number): VariantSpec[] =>
+  VARIANT_STYLES.slice(0, Math.min(count, MAX_VARIANTS)).map(style => ({
+    label: style.label,
+    temperature: Math.min(2, Math.max(0, baseTemperature + style.temperatureOffset)),
+    directive: style.directive
+  }));
+
+const MERGE_MODE = `MERGE MODE:
+You will receive several labelled variants of the same application, plus optional guidance.
+- Combine the strongest ideas, layouts and interactions from each variant into ONE coherent application.
+- Resolve conflicts in favour of usability and consistency.
+- Return the COMPLETE merged source.`;
+
+const REPAIR_MODE = `REPAIR MODE:
+You will receive an application you built and the runtime errors it threw in the browser, with line numbers into the source where known.
+- Find the root cause of each error and fix it. Also fix any closely related bug that would surface once the error is gone.
+- Do NOT redesign, restyle or add features. Change as little code as possible.
+- Always return the COMPLETE fixed source, never a diff or a fragment.`;
+
+const SELECTION_MARKER = '<!-- SELECTED ELEMENT -->';
+
+const PATCH_MODE = `PATCH MODE:
+You will receive the current source with one element replaced by the marker comment ${SELECTION_MARKER}, the markup of that element, and a change request for it.
+- Rewrite ONLY the selected element. The rest of the source is context: do not repeat it or change it.
+- Reuse the page's existing classes, CSS variables, fonts and scripts so the element still fits in.
+- If the change needs new behaviour, add a <script> at the end of the replacement that only touches the new markup.
+- Return ONLY the markup that takes the selected element's place, with no doctype, <head> or surrounding page. This overrides the response format of the OUTPUT TARGET.`;
+
+const addUsage = (total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined =>
+  total && usage ? {
+    promptTokenCount: total.promptTokenCount + usage.promptTokenCount,
+    candidatesTokenCount: total.candidatesTokenCount + usage.candidatesTokenCount,
+    totalTokenCount: total.totalTokenCount + usage.totalTokenCount,
+  } : usage ?? total;
+
+// Validates and normalises a reply. Unusable output (no markup, an empty page) is thrown as a retryable error so the
+// call is made again; truncation and other problems are fixed where possible and otherwise flagged on the result.
+const toResult = (text: string, truncated: boolean | undefined, target: OutputTarget | undefined, what: string): Omit<GenerationResult, 'usage'> => {
+  const { html, issues } = processOutput(text, truncated, target);
+  if (isUnusable(issues)) {
+    throw new GenerationError('invalid-output', `Unusable ${what}: ${issues.map(issue => issue.message).join(' ')}`, { retryable: true });
+  }
+  return { html, issues };
+};
+
+// Edits replace the working app, so an incomplete edit is refused rather than flagged like a new generation
+export const assertComplete = (result: GenerationResult, what: string): GenerationResult => {
+  if (result.issues.some(issue => issue.code === 'truncated')) {
+    throw new GenerationError('invalid-output', `The ${what} was cut off before the document ended`);
+  }
+  return result;
+};
+
+// Generates and validates source for the target, counting the tokens of discarded attempts towards the returned usage
+const generateSource = (settings: ProviderSettings, request: ModelRequest, target: OutputTarget | undefined, what: string, options: CallOptions): Promise<GenerationResult> => {
+  let usage: TokenUsage | undefined;
+  return withRetry(async () => {
+    const response = await createProvider(settings).generate({ ...request, signal: options.signal });
+    usage = addUsage(usage, response.usage);
+    return { ...toResult(response.text, response.truncated, target, what), usage };
+  }, options);
+};
+
+// Splits a `data:<mime>;base64,<data>` URL into its inline data parts
+export const parseDataUrl = (dataUrl: string): { data: string; mimeType: string } | null => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const describePageSelection = (selection: PageSelection) => {
+  let note = isFullSelection(selection)
+    ? ` This PDF has ${selection.pageCount} pages; use all of them, not just the first.`
+    : ` It is sent as images of pages ${formatPageRanges(selection.pages)} of a ${selection.pageCount}-page PDF, in order.`;
+  if (selection.screenPerPage) {
+    note += ` Build one screen per page (${selection.pages.length} screens) with persistent navigation (tabs or previous/next buttons) to move between them. Each screen must implement the content of its page.`;
+  }
+  return note;
+};
+
+const describeArtifact = (artifact: Pick<CreationArtifact, 'name' | 'role' | 'pageSelection'>, index: number, total: number) => {
+  let label = total > 1
+    ? `ARTIFACT ${index + 1} OF ${total} (role: ${artifact.role}): ${artifact.name}.`
+    : `ARTIFACT (role: ${artifact.role}): ${artifact.name}.`;
+  if (index === 0 && total > 1) {
+    label = `The user attached ${total} artifacts, each introduced by a label like this one. Combine them into a single app, using each artifact for its stated role. ${label}`;
+  }
+  if (artifact.pageSelection) {
+    label += describePageSelection(artifact.pageSelection);
+  }
+  return label;
+};
+
+// Turns the creation's artifacts into labelled attachments. A partial PDF selection is sent as one image per page;
+// artifacts whose data isn't loaded are skipped.
+export const buildGenerationInput = async (prompt: string, artifacts: CreationArtifact[], directive?: string, context: InstructionContext = {}): Promise<GenerationInput> => {
+  const loaded = artifacts.filter(artifact => artifact.dataUrl);
+  const attachments: Attachment[] = [];
+
+  for (const [index, artifact] of loaded.entries()) {
+    const inline = parseDataUrl(artifact.dataUrl!);
+    if (!inline) continue;
+    const label = describeArtifact(artifact, index, loaded.length);
+    const selection = artifact.pageSelection;
+
+    if (inline.mimeType === 'application/pdf' && selection && !isFullSelection(selection)) {
+      const bytes = Uint8Array.from(atob(inline.data), c => c.charCodeAt(0));
+      const pages = await renderPagesForModel(bytes.buffer, selection.pages);
+      pages.forEach((page, pageIndex) => attachments.push({
+        data: page.data,
+        mimeType: page.mimeType,
+        label: pageIndex === 0 ? `${label}\nPage ${page.pageNumber}:` : `Page ${page.pageNumber}:`,
+      }));
+    } else {
+      attachments.push({ ...inline, label });
+    }
+  }
+
+  return { ...context, prompt, attachments, directive };
+};
+
+const buildParts = ({ prompt, attachments, directive }: GenerationInput) => {
+  const parts: ModelMessage['parts'] = [];
   
   // Construct the final instruction for the model
   let finalPrompt = "";
-  if (fileBase64) {
+  if (attachments.length > 0) {
     finalPrompt = prompt 
       ? `Analyze this artifact and build a functional web application based on it. USER INSTRUCTIONS: ${prompt}. Ensure the UI is centered, perfectly aligned, and has smooth CSS transitions.`
       : "Analyze this image/document. Build a fully interactive web app that is centered, smooth, and modern. IMPORTANT: Do NOT use external image URLs.";
@@ -58,40 +275,254 @@ export async function bringToLife(prompt: string, fileBase64?: string, mimeType?
     finalPrompt = prompt || "Create a creative and interactive demo application that is perfectly centered and smooth.";
   }
 
+  if (directive) {
+    finalPrompt += ` STYLE DIRECTIVE: ${directive}`;
+  }
+
   parts.push({ text: finalPrompt });
 
-  if (fileBase64 && mimeType) {
+  attachments.forEach(attachment => {
+    if (attachment.label) {
+      parts.push({ text: attachment.label });
+    }
     parts.push({
       inlineData: {
-        data: fileBase64,
-        mimeType: mimeType,
+        data: attachment.data,
+        mimeType: attachment.mimeType,
       },
     });
+  });
+
+  return parts;
+};
+
+const buildRequest = (input: GenerationInput, settings: ProviderSettings): ModelRequest => ({
+  systemInstruction: buildSystemInstruction(input),
+  messages: [{ role: 'user', parts: buildParts(input) }],
+  temperature: settings.temperature,
+});
+
+// Prompt tokens for a built generation, counted by the provider when it can and estimated locally otherwise
+export async function countGenerationTokens(input: GenerationInput, settings: ProviderSettings, signal?: AbortSignal): Promise<{ promptTokens: number; source: 'provider' | 'heuristic' }> {
+  const request = { ...buildRequest(input, settings), signal };
+  const provider = createProvider(settings);
+  if (provider.countTokens) {
+    try {
+      return { promptTokens: await provider.countTokens(request), source: 'provider' };
+    } catch (error) {
+      if (signal?.aborted) throw toGenerationError(error);
+      console.warn("Token counting failed, falling back to an estimate:", error);
+    }
   }
+  return { promptTokens: estimateRequestTokens(request), source: 'heuristic' };
+}
+
+// Quick local estimate for a generation that hasn't been built yet, cheap enough to run as the user types
+export const estimateDraftTokens = (prompt: string, artifacts: (PendingMedia & { name: string; role: string })[], context: InstructionContext = {}, directive?: string): number => {
+  const textParts = buildParts({
+    prompt,
+    directive,
+    attachments: artifacts.map((artifact, index) => ({ data: '', mimeType: artifact.mimeType, label: describeArtifact(artifact, index, artifacts.length) })),
+  }).filter((part): part is { text: string } => 'text' in part);
+
+  return estimateTextTokens(buildSystemInstruction(context))
+    + textParts.reduce((sum, part) => sum + estimateTextTokens(part.text), 0)
+    + artifacts.reduce((sum, artifact) => sum + estimateMediaTokens(artifact), 0);
+};
 
+export async function bringToLife(input: GenerationInput, settings: ProviderSettings, options: CallOptions = {}): Promise<GenerationResult> {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: parts
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.6,
-      },
-    });
+    return await generateSource(settings, buildRequest(input, settings), input.target, 'app', options);
+  } catch (error) {
+    console.error("Generation Error:", error);
+    throw error;
+  }
+}
+
+export async function bringToLifeStream(
+  input: GenerationInput,
+  onProgress: (progress: GenerationProgress) => void,
+  settings: ProviderSettings,
+  options: CallOptions = {}
+): Promise<GenerationResult> {
+  try {
+    // Usage of attempts discarded as unusable is carried over, so it still reaches the ledger
+    let spent: TokenUsage | undefined;
+    return await withRetry(async () => {
+      const stream = createProvider(settings).stream({ ...buildRequest(input, settings), signal: options.signal });
+
+      let text = "";
+      let chunkCount = 0;
+      let truncated = false;
+      let usage: TokenUsage | undefined;
+
+      try {
+        for await (const chunk of stream) {
+          text += chunk.text;
+          chunkCount++;
+          // Usage is cumulative, so the latest chunk that reports it carries the running totals
+          usage = chunk.usage ?? usage;
+          truncated = truncated || !!chunk.truncated;
+          onProgress({
+            html: text.replace(/^```[a-z]*\s*/, ''),
+            chunkCount,
+            usage
+          });
+        }
+      } catch (error) {
+        // Only a stream that failed before producing anything is retried; a restart would discard visible progress
+        const failure = toGenerationError(error);
+        throw chunkCount > 0 && failure.retryable
+          ? new GenerationError(failure.kind, failure.message, { status: failure.status, retryable: false, cause: error })
+          : failure;
+      }
+
+      // An unusable reply is retried even after streaming, since there is nothing worth keeping on screen
+      spent = addUsage(spent, usage);
+      return { ...toResult(text, truncated, input.target, 'app'), usage: spent };
+    }, options);
+  } catch (error) {
+    console.error("Streaming Error:", error);
+    throw error;
+  }
+}
+
+export async function refineCreation(
+  instruction: string,
+  currentHtml: string,
+  turns: RefinementTurn[],
+  artifacts: CreationArtifact[],
+  settings: ProviderSettings,
+  context: InstructionContext = {},
+  options: CallOptions = {}
+): Promise<GenerationResult> {
+  // Prior turns are replayed as plain text; only the latest code is sent to keep the context small
+  const messages: ModelMessage[] = turns.map(turn => ({
+    role: turn.role,
+    parts: [{ text: turn.text }]
+  }));
+
+  const parts: ModelMessage['parts'] = [];
+  // Artifacts are resent whole; the page selection only matters for the first build
+  artifacts.forEach(artifact => {
+    const inline = artifact.dataUrl ? parseDataUrl(artifact.dataUrl) : null;
+    if (!inline) return;
+    parts.push({ text: `ORIGINAL ARTIFACT the app was built from (role: ${artifact.role}): ${artifact.name}` });
+    parts.push({ inlineData: inline });
+  });
+  parts.push({ text: `CURRENT SOURCE:\n${currentHtml}` });
+  parts.push({ text: `CHANGE REQUEST: ${instruction}` });
 
-    let text = response.text || "<!-- Failed to generate content -->";
+  messages.push({ role: 'user', parts });
 
-    // Cleanup if the model still included markdown fences despite instructions
-    text = text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
+  try {
+    return await generateSource(settings, {
+      systemInstruction: buildSystemInstruction(context, REFINEMENT_MODE),
+      messages,
+      // Refinements stay conservative so untouched parts of the app aren't rewritten
+      temperature: Math.min(settings.temperature, 0.4),
+    }, context.target, 'refinement', options);
+  } catch (error) {
+    console.error("Refinement Error:", error);
+    throw error;
+  }
+}
+
+const describeRuntimeError = (error: RuntimeErrorReport, index: number, sourceLines: string[]) => {
+  let text = `ERROR ${index + 1}: ${error.message}`;
+  if (error.line && sourceLines[error.line - 1] !== undefined) {
+    text += `\n  at line ${error.line}: ${sourceLines[error.line - 1].trim().slice(0, 300)}`;
+  }
+  if (error.stack) {
+    text += `\n  stack:\n${error.stack.split('\n').slice(0, 8).map(frame => `    ${frame.trim()}`).join('\n')}`;
+  }
+  return text;
+};
+
+export async function repairCreation(
+  currentHtml: string,
+  errors: RuntimeErrorReport[],
+  settings: ProviderSettings,
+  context: InstructionContext = {},
+  options: CallOptions = {}
+): Promise<GenerationResult> {
+  const sourceLines = currentHtml.split('\n');
+  const parts: ModelMessage['parts'] = [
+    { text: `CURRENT SOURCE:\n${currentHtml}` },
+    { text: `RUNTIME ERRORS:\n${errors.map((error, idx) => describeRuntimeError(error, idx, sourceLines)).join('\n\n')}` },
+  ];
+
+  try {
+    return await generateSource(settings, {
+      systemInstruction: buildSystemInstruction(context, REPAIR_MODE),
+      messages: [{ role: 'user', parts }],
+      // Repairs should be as deterministic as the provider allows
+      temperature: Math.min(settings.temperature, 0.2),
+    }, context.target, 'repair', options);
+  } catch (error) {
+    console.error("Repair Error:", error);
+    throw error;
+  }
+}
+
+export async function mergeVariants(
+  variants: { label: string; html: string }[],
+  settings: ProviderSettings,
+  guidance?: string,
+  context: InstructionContext = {},
+  options: CallOptions = {}
+): Promise<GenerationResult> {
+  const parts: ModelMessage['parts'] = variants.map(variant => ({
+    text: `VARIANT "${variant.label}":\n${variant.html}`
+  }));
+  parts.push({ text: guidance ? `MERGE GUIDANCE: ${guidance}` : "Merge these variants into the best possible single application." });
+
+  try {
+    return await generateSource(settings, {
+      systemInstruction: buildSystemInstruction(context, MERGE_MODE),
+      messages: [{ role: 'user', parts }],
+      temperature: settings.temperature,
+    }, context.target, 'merge', options);
+  } catch (error) {
+    console.error("Merge Error:", error);
+    throw error;
+  }
+}
+
+// Rewrites a single element instead of the whole app. The reply is only the replacement markup, which keeps
+// output tokens, and the chance of breaking unrelated parts, far below a full refinement.
+export async function patchElement(
+  instruction: string,
+  currentHtml: string,
+  range: ElementRange,
+  settings: ProviderSettings,
+  context: InstructionContext = {},
+  options: CallOptions = {}
+): Promise<GenerationResult> {
+  const parts: ModelMessage['parts'] = [
+    { text: `CURRENT SOURCE:\n${currentHtml.slice(0, range.start)}${SELECTION_MARKER}${currentHtml.slice(range.end)}` },
+    { text: `SELECTED ELEMENT:\n${currentHtml.slice(range.start, range.end)}` },
+    { text: `CHANGE REQUEST: ${instruction}` },
+  ];
 
-    return {
-      html: text,
-      usage: response.usageMetadata
-    };
+  let usage: TokenUsage | undefined;
+  try {
+    return await withRetry(async () => {
+      const response = await createProvider(settings).generate({
+        systemInstruction: buildSystemInstruction(context, PATCH_MODE),
+        messages: [{ role: 'user', parts }],
+        temperature: Math.min(settings.temperature, 0.4),
+        signal: options.signal,
+      });
+      usage = addUsage(usage, response.usage);
+      const { html, issues } = processFragment(response.text, response.truncated);
+      if (isUnusable(issues)) {
+        throw new GenerationError('invalid-output', `Unusable element edit: ${issues.map(issue => issue.message).join(' ')}`, { retryable: true });
+      }
+      return { html, issues, usage };
+    }, options);
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
+    console.error("Element Edit Error:", error);
     throw error;
   }
 }
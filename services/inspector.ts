@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Point-and-click editing. The source is scanned for start tags and each one is numbered in document order;
+// the preview renders a copy tagged with those numbers, so an element clicked in the preview maps back to an
+// offset in the source. Edits only rewrite a start tag or the text inside an element, so numbering is stable.
+
+export const SOURCE_ID_ATTRIBUTE = 'data-gmi-source';
+
+export interface SourceElement {
+  id: number;
+  tagName: string;
+  start: number;       // Offset of the start tag's '<'
+  openEnd: number;     // Offset just past the start tag's '>'
+  closeStart?: number; // Offset of the matching end tag, when the source has one
+}
+
+// What the preview reports about a clicked element; colours are computed CSS values such as "rgb(0, 0, 0)"
+export interface InspectedElement {
+  sourceId: number;
+  tagName: string;
+  color: string;
+  backgroundColor: string;
+}
+
+export interface ElementDetails {
+  tagName: string;
+  className: string;
+  style: string;
+  text: string | null; // Null when the element contains markup, so its text can't be edited as a whole
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+// Never tagged, since they can't be clicked
+const HIDDEN_ELEMENTS = new Set(['html', 'head', 'meta', 'link', 'script', 'style', 'title', 'base', 'template', 'noscript']);
+
+const START_TAG = /<([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const END_TAG = /<\/([a-zA-Z][^\s/>]*)[^>]*>/y;
+const ATTRIBUTE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+// A forgiving scan: unmatched end tags are ignored and unclosed elements are closed implicitly
+export const parseSourceElements = (html: string): SourceElement[] => {
+  const elements: SourceElement[] = [];
+  const open: SourceElement[] = [];
+  const lower = html.toLowerCase();
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt < 0) break;
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      i = end < 0 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = lt;
+    const endTag = END_TAG.exec(html);
+    if (endTag) {
+      const tagName = endTag[1].toLowerCase();
+      const index = open.map(el => el.tagName).lastIndexOf(tagName);
+      if (index >= 0) {
+        open[index].closeStart = lt;
+        open.length = index;
+      }
+      i = END_TAG.lastIndex;
+      continue;
+    }
+
+    START_TAG.lastIndex = lt;
+    const startTag = START_TAG.exec(html);
+    if (!startTag) {
+      i = lt + 1;
+      continue;
+    }
+
+    const element: SourceElement = { id: elements.length, tagName: startTag[1].toLowerCase(), start: lt, openEnd: START_TAG.lastIndex };
+    elements.push(element);
+    i = element.openEnd;
+
+    if (RAW_TEXT_ELEMENTS.has(element.tagName)) {
+      const close = lower.indexOf(`</${element.tagName}`, i);
+      if (close >= 0) {
+        element.closeStart = close;
+        const end = html.indexOf('>', close);
+        i = end < 0 ? html.length : end + 1;
+      } else {
+        i = html.length;
+      }
+    } else if (!VOID_ELEMENTS.has(element.tagName) && !startTag[2].trim().endsWith('/')) {
+      open.push(element);
+    }
+  }
+  return elements;
+};
+
+// The start tag without its leading "<tagName" and trailing ">" or "/>"
+const attributeSpan = (html: string, el: SourceElement) => {
+  const from = el.start + 1 + el.tagName.length;
+  const to = html[el.openEnd - 2] === '/' ? el.openEnd - 2 : el.openEnd - 1;
+  return { from, to };
+};
+
+// Adds the source id to every visible element. Nothing else changes, so line numbers still match the source.
+export const annotateSource = (html: string): string => {
+  let result = '';
+  let last = 0;
+  parseSourceElements(html).forEach(el => {
+    if (HIDDEN_ELEMENTS.has(el.tagName)) return;
+    const { to } = attributeSpan(html, el);
+    result += html.slice(last, to) + ` ${SOURCE_ID_ATTRIBUTE}="${el.id}"`;
+    last = to;
+  });
+  return result + html.slice(last);
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(lt|gt|quot|#39|apos|nbsp|amp);/g, (_, name) => ({ lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'", nbsp: '\u00a0', amp: '&' } as Record<string, string>)[name]);
+
+// Ampersands that already start an entity, such as &copy;, are left alone
+const escapeText = (text: string) => text.replace(/&(?!(?:[a-z]+|#\d+|#x[0-9a-f]+);)/gi, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const findAttribute = (html: string, el: SourceElement, name: string) => {
+  const { from, to } = attributeSpan(html, el);
+  const attributes = html.slice(from, to);
+  ATTRIBUTE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE.exec(attributes))) {
+    if (match[1].toLowerCase() === name) {
+      return { start: from + match.index, end: from + match.index + match[0].length, value: decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') };
+    }
+  }
+  return null;
+};
+
+export const getElementDetails = (html: string, id: number): ElementDetails | null => {
+  const el = parseSourceElements(html)[id];
+  if (!el) return null;
+  const content = el.closeStart !== undefined ? html.slice(el.openEnd, el.closeStart) : null;
+  return {
+    tagName: el.tagName,
+    className: findAttribute(html, el, 'class')?.value || '',
+    style: findAttribute(html, el, 'style')?.value || '',
+    text: content !== null && !content.includes('<') && !RAW_TEXT_ELEMENTS.has(el.tagName) ? decodeEntities(content) : null,
+  };
+};
+
+// An empty value removes the attribute
+export const setElementAttribute = (html: string, id: number, name: string, value: string): string => {
+  const el = parseSourceElements(html)[id];
+  if (!el) return html;
+  const existing = findAttribute(html, el, name);
+  const markup = value ? `${name}="${escapeAttribute(value)}"` : '';
+  if (existing) {
+    const start = value ? existing.start : html.slice(0, existing.start).replace(/\s+$/, '').length;
+    return html.slice(0, start) + markup + html.slice(existing.end);
+  }
+  if (!value) return html;
+  const at = el.start + 1 + el.tagName.length;
+  return `${html.slice(0, at)} ${markup}${html.slice(at)}`;
+};
+
+export const setElementText = (html: string, id: number, text: string): string => {
+  const el = parseSourceElements(html)[id];
+  if (!el || el.closeStart === undefined) return html;
+  return html.slice(0, el.openEnd) + escapeText(text) + html.slice(el.closeStart);
+};
+
+// The element's whole markup, from its start tag through its end tag, as offsets into the source
+export interface ElementRange {
+  start: number;
+  end: number;
+}
+
+// Null when the element relies on its end tag being implied, since its extent is then unclear
+export const getElementRange = (html: string, id: number): ElementRange | null => {
+  const el = parseSourceElements(html)[id];
+  if (!el) return null;
+  if (el.closeStart === undefined) {
+    const isVoid = VOID_ELEMENTS.has(el.tagName) || html[el.openEnd - 2] === '/';
+    return isVoid ? { start: el.start, end: el.openEnd } : null;
+  }
+  const close = html.indexOf('>', el.closeStart);
+  return { start: el.start, end: close < 0 ? html.length : close + 1 };
+};
+
+// Tailwind helpers. Only unprefixed utilities are touched, so hover: and md: variants survive.
+
+const TAILWIND_COLORS = 'slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose';
+
+export type ColorProperty = 'text' | 'bg';
+export type SpacingProperty = 'p' | 'm';
+
+export const SPACING_SCALE = ['0', '0.5', '1', '2', '3', '4', '5', '6', '8', '10', '12', '16', '20', '24'];
+
+const colorClass = (property: ColorProperty) =>
+  new RegExp(`^${property}-(?:(?:${TAILWIND_COLORS})-\\d{2,3}|white|black|transparent|current|\\[(?:#|rgb|hsl)[^\\]]*\\])(?:\\/\\d+)?$`);
+
+const spacingClass = (property: SpacingProperty) => new RegExp(`^-?${property}[xytrbl]?-`);
+
+const splitClasses = (className: string) => className.split(/\s+/).filter(Boolean);
+
+export const setColorClass = (className: string, property: ColorProperty, hex: string) =>
+  [...splitClasses(className).filter(c => !colorClass(property).test(c)), `${property}-[${hex}]`].join(' ');
+
+// The value of a plain `p-4` or `m-4` utility; per-side utilities such as `px-4` are reported separately
+export const getSpacing = (className: string, property: SpacingProperty) => {
+  const classes = splitClasses(className).filter(c => spacingClass(property).test(c));
+  const all = classes.find(c => c.startsWith(`${property}-`));
+  return { value: all ? all.slice(property.length + 1) : '', sides: classes.filter(c => c !== all) };
+};
+
+// Replaces every unprefixed utility of the family; an empty step just removes them
+export const setSpacingClass = (className: string, property: SpacingProperty, step: string) =>
+  [...splitClasses(className).filter(c => !spacingClass(property).test(c)), ...(step ? [`${property}-${step}`] : [])].join(' ');
+
+// Inline styles, for targets without Tailwind
+
+export const getStyleProperty = (style: string, property: string) =>
+  style.split(';').map(rule => rule.split(':')).find(([name]) => name?.trim().toLowerCase() === property)?.slice(1).join(':').trim() || '';
+
+export const setStyleProperty = (style: string, property: string, value: string) => {
+  const rules = style.split(';').map(rule => rule.trim()).filter(rule => rule && rule.split(':')[0].trim().toLowerCase() !== property);
+  return [...rules, ...(value ? [`${property}: ${value}`] : [])].join('; ');
+};
+
+// "rgb(12, 34, 56)" -> "#0c2238"; transparent colours come back empty
+export const toHexColor = (color: string): string => {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+  const match = color.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)/i);
+  if (!match || (match[4] !== undefined && parseFloat(match[4]) === 0)) return '';
+  return '#' + match.slice(1, 4).map(n => Number(n).toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { lineAt, pairTags, SourceLanguage, SyntaxInfo, TagInfo } from './syntax';
+
+// Problems the code editor marks in the gutter and underlines. The checks target what goes wrong in model
+// output: code cut off mid-way, unbalanced brackets and tags, and scripts the browser can't parse.
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  from: number;
+  to: number;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+// Elements whose end tag HTML lets you leave out
+const OPTIONAL_END_TAGS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'caption', 'rt', 'rp']);
+
+const JS_MIME_TYPES = ['', 'text/javascript', 'application/javascript'];
+
+const describeUnterminated = (text: string) => {
+  if (text.startsWith('<!--') || text.startsWith('/*')) return 'Comment is never closed';
+  if (text.startsWith('`')) return 'Template literal is never closed';
+  return 'String is never closed';
+};
+
+const tagLabel = (tag: TagInfo) => `<${tag.closing ? '/' : ''}${tag.name}>`;
+
+// Compiles the script without calling it, so the browser's own parser reports what it can't read.
+// Modules and scripts with imports can't be compiled this way and are skipped.
+const findSyntaxError = (code: string): string | null => {
+  if (/^\s*(import|export)\b/m.test(code)) return null;
+  try {
+    new Function(code);
+    return null;
+  } catch (error) {
+    return error instanceof SyntaxError ? error.message : null;
+  }
+};
+
+const lintMarkup = (source: string, syntax: SyntaxInfo, diagnostics: Diagnostic[]) => {
+  const { tags } = syntax;
+  const { stray, unclosed } = pairTags(tags);
+  const tagName = (tag: TagInfo) => ({ from: tag.from, to: tag.from + tag.name.length + (tag.closing ? 2 : 1) });
+
+  tags.forEach(tag => {
+    if (tag.to === undefined) {
+      diagnostics.push({ ...tagName(tag), severity: 'error', message: `The ${tagLabel(tag)} tag is never finished` });
+    }
+  });
+  stray.forEach(idx => {
+    diagnostics.push({ ...tagName(tags[idx]), severity: 'error', message: `${tagLabel(tags[idx])} has no matching start tag` });
+  });
+  unclosed.forEach(idx => {
+    if (!tags[idx].jsx && OPTIONAL_END_TAGS.has(tags[idx].name)) return;
+    diagnostics.push({ ...tagName(tags[idx]), severity: 'warning', message: `${tagLabel(tags[idx])} is never closed` });
+  });
+
+  const ids = new Set<string>();
+  tags.forEach(tag => {
+    const seen = new Set<string>();
+    tag.attributes.forEach(attribute => {
+      const span = { from: attribute.from, to: attribute.from + attribute.name.length };
+      if (seen.has(attribute.name)) {
+        diagnostics.push({ ...span, severity: 'warning', message: `Duplicate attribute "${attribute.name}"` });
+      }
+      seen.add(attribute.name);
+      if (attribute.name === 'id' && attribute.value && !attribute.value.includes('{')) {
+        if (ids.has(attribute.value)) {
+          diagnostics.push({ ...span, severity: 'warning', message: `Duplicate id "${attribute.value}"` });
+        }
+        ids.add(attribute.value);
+      }
+    });
+    if (tag.name === 'img' && !tag.closing && !seen.has('alt')) {
+      diagnostics.push({ ...tagName(tag), severity: 'warning', message: 'Image has no alt text' });
+    }
+  });
+
+  // Only classic inline scripts are compiled, and only when nothing more specific was found in them
+  syntax.regions.forEach(region => {
+    if (region.language !== 'js') return;
+    const tag = tags[region.tag];
+    const attributes = new Map(tag.attributes.map(a => [a.name, (a.value || '').toLowerCase()]));
+    if (attributes.has('src') || attributes.has('lang') || !JS_MIME_TYPES.includes(attributes.get('type') ?? '')) return;
+    if (diagnostics.some(d => d.severity === 'error' && d.from >= region.from && d.from < region.to)) return;
+
+    const code = source.slice(region.from, region.to);
+    const message = findSyntaxError(code);
+    if (!message) return;
+    const start = region.from + code.search(/\S|$/);
+    const lineEnd = source.indexOf('\n', start);
+    diagnostics.push({ from: start, to: lineEnd < 0 || lineEnd > region.to ? region.to : lineEnd, severity: 'error', message: `Script can't run: ${message}` });
+  });
+};
+
+export const lintSource = (source: string, syntax: SyntaxInfo, language: SourceLanguage): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+
+  syntax.tokens.forEach(token => {
+    if (token.type !== 'invalid') return;
+    const lineEnd = source.indexOf('\n', token.from);
+    diagnostics.push({
+      from: token.from,
+      to: lineEnd < 0 || lineEnd > token.to ? token.to : lineEnd,
+      severity: 'error',
+      message: describeUnterminated(source.slice(token.from, token.from + 4)),
+    });
+  });
+
+  syntax.brackets.forEach((partner, at) => {
+    if (partner >= 0) return;
+    const bracket = source[at];
+    diagnostics.push({
+      from: at,
+      to: at + 1,
+      severity: 'error',
+      message: '([{'.includes(bracket) ? `"${bracket}" is never closed` : `Unexpected "${bracket}"`,
+    });
+  });
+
+  if (language === 'html') lintMarkup(source, syntax, diagnostics);
+  return diagnostics.sort((a, b) => a.from - b.from);
+};
+
+// Problems grouped by 0-based line, for the gutter
+export const groupByLine = (diagnostics: Diagnostic[], lineStarts: number[]): Map<number, Diagnostic[]> => {
+  const lines = new Map<number, Diagnostic[]>();
+  diagnostics.forEach(diagnostic => {
+    const line = lineAt(lineStarts, diagnostic.from);
+    lines.set(line, [...(lines.get(line) || []), diagnostic]);
+  });
+  return lines;
+};
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { OutputTarget } from './targets';
+
+// Post-processing for source returned by the model. Safe fixes are applied to the source text directly, so
+// formatting and line numbers stay as the model wrote them; problems that can't be fixed are reported.
+
+export type OutputIssueCode =
+  | 'wrong-format'    // Not the requested kind of source at all, e.g. a refusal or an empty completion
+  | 'empty-body'
+  | 'truncated'       // The model stopped before finishing the document
+  | 'wrapped'         // Markdown fences or prose around the document were removed
+  | 'missing-doctype' // A doctype was added
+  | 'external-image'  // Remote <img> URLs were replaced with a placeholder
+  | 'external-resource'; // A plain HTML/CSS document loads scripts, styles or fonts from the network
+
+export interface OutputIssue {
+  code: OutputIssueCode;
+  message: string;
+  fixed: boolean; // True when the issue was corrected in the returned HTML
+}
+
+export interface ProcessedOutput {
+  html: string;
+  issues: OutputIssue[];
+}
+
+// Issues the output can't be used with; anything else is fixed or merely flagged
+const FATAL_ISSUES: OutputIssueCode[] = ['wrong-format', 'empty-body'];
+
+export const isUnusable = (issues: OutputIssue[]) => issues.some(issue => FATAL_ISSUES.includes(issue.code));
+
+export const getUnfixedIssues = (issues: OutputIssue[] = []) => issues.filter(issue => !issue.fixed);
+
+// Neutral image-shaped placeholder, so layouts that depend on image boxes keep their shape
+const IMAGE_PLACEHOLDER = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300"><rect width="400" height="300" fill="#27272a"/><path d="M150 200l40-50 30 35 20-25 40 40z" fill="#52525b"/><circle cx="250" cy="110" r="18" fill="#52525b"/></svg>'
+)}`;
+
+const EXTERNAL_URL = /^\s*(https?:)?\/\//i;
+
+// A reply that is a single fenced block; the body runs to the last fence, so fences inside the source stay in it
+const WRAPPING_FENCE = /^```[^\n]*\n([\s\S]*?)\n?```$/;
+const FENCE = /```[a-z]*[^\n]*\n([\s\S]*?)(?:```|$)/i;
+
+// What shows that a reply is the source itself rather than prose around a fenced block
+const SOURCE_MARKERS: Record<OutputTarget, RegExp> = {
+  html: /<!doctype|<\/?html[\s>]/i,
+  vanilla: /<!doctype|<\/?html[\s>]/i,
+  react: /export\s+default\b|export\s*\{[^}]*\bas\s+default\b/,
+  vue: /<template[\s>]/i,
+};
+
+// Takes the source out of a fenced block; for documents, also drops chatter before the doctype and after </html>.
+// Otherwise a fence is only taken when no source is outside it, so a document that contains ``` itself, such
+// as a markdown renderer, is kept whole.
+const unwrap = (text: string, marker: RegExp, isDocument: boolean): { html: string; wrapped: boolean } => {
+  const trimmed = text.trim();
+  const wrapping = trimmed.match(WRAPPING_FENCE);
+  const fenced = wrapping ? null : trimmed.match(FENCE);
+  let html = trimmed;
+  if (wrapping) {
+    html = wrapping[1];
+  } else if (fenced && !marker.test(trimmed.slice(0, fenced.index) + trimmed.slice(fenced.index + fenced[0].length))) {
+    html = fenced[1];
+  }
+  if (isDocument) {
+    const start = html.search(/<!doctype|<html/i);
+    if (start > 0) html = html.slice(start);
+    const end = html.search(/<\/html>/i);
+    if (end >= 0) html = html.slice(0, end + '</html>'.length);
+  }
+  html = html.trim();
+  return { html, wrapped: html !== trimmed };
+};
+
+// What the source must contain to be worth keeping, per target
+const FORMAT_CHECKS: Record<OutputTarget, { test: RegExp; message: string }> = {
+  html: { test: /<[a-z!][^>]*>/i, message: 'The reply contains no HTML.' },
+  vanilla: { test: /<[a-z!][^>]*>/i, message: 'The reply contains no HTML.' },
+  react: { test: /export\s+default\b|export\s*\{[^}]*\bas\s+default\b/, message: 'The reply has no default-exported React component.' },
+  vue: { test: /<template[\s>]/i, message: 'The reply has no Vue <template>.' },
+};
+
+const countTags = (html: string, tag: string) => ({
+  open: (html.match(new RegExp(`<${tag}\\b`, 'gi')) || []).length,
+  close: (html.match(new RegExp(`</${tag}>`, 'gi')) || []).length,
+});
+
+// A cut-off document usually ends inside a script or style block, or never closes its body; a cut-off
+// component leaves blocks or sections open
+const looksTruncated = (html: string, target: OutputTarget) => {
+  if (target === 'react') return (html.match(/{/g) || []).length > (html.match(/}/g) || []).length;
+  if (target === 'vue') {
+    const scripts = countTags(html, 'script');
+    return !/<\/template>/i.test(html) || scripts.open > scripts.close;
+  }
+  if (/<\/html>\s*$/i.test(html)) return false;
+  const scripts = countTags(html, 'script');
+  const styles = countTags(html, 'style');
+  return scripts.open > scripts.close || styles.open > styles.close || !/<\/body>/i.test(html) || /<[^>]*$/.test(html);
+};
+
+const replaceExternalImages = (html: string): { html: string; count: number } => {
+  let count = 0;
+  const result = html.replace(/<img\b[^>]*>/gi, tag => {
+    let changed = false;
+    const next = tag
+      .replace(/(\ssrc\s*=\s*)(["'])([^"']*)\2/i, (match, attr, quote, url) => {
+        if (!EXTERNAL_URL.test(url)) return match;
+        changed = true;
+        return `${attr}${quote}${IMAGE_PLACEHOLDER}${quote}`;
+      })
+      .replace(/\ssrcset\s*=\s*(["'])([^"']*)\1/i, (match, _quote, value) => {
+        if (!value.split(',').some((candidate: string) => EXTERNAL_URL.test(candidate))) return match;
+        changed = true;
+        return '';
+      });
+    if (changed) count++;
+    return next;
+  });
+  return { html: result, count };
+};
+
+const EXTERNAL_RESOURCE = /<script\b[^>]*\bsrc\s*=\s*["']?(https?:)?\/\/|<link\b[^>]*\bhref\s*=\s*["']?(https?:)?\/\/|@import\s+(url\()?["']?(https?:)?\/\//i;
+
+// `truncated` is the provider's own signal that the output hit the token limit
+export const processOutput = (text: string, truncated = false, target: OutputTarget = 'html'): ProcessedOutput => {
+  const issues: OutputIssue[] = [];
+  const isDocument = target === 'html' || target === 'vanilla';
+  const { html: unwrapped, wrapped } = unwrap(text, SOURCE_MARKERS[target], isDocument);
+  let html = unwrapped;
+
+  const format = FORMAT_CHECKS[target];
+  if (!format.test.test(html)) {
+    return { html, issues: [{ code: 'wrong-format', message: format.message, fixed: false }] };
+  }
+  if (wrapped) {
+    issues.push({ code: 'wrapped', message: 'Removed markdown fences or text around the document.', fixed: true });
+  }
+
+  if (truncated || looksTruncated(html, target)) {
+    issues.push({
+      code: 'truncated',
+      message: truncated
+        ? 'The model hit its output limit, so the app is probably incomplete.'
+        : 'The source ends abruptly, so the app is probably incomplete.',
+      fixed: false,
+    });
+  }
+
+  if (isDocument && !/^<!doctype html/i.test(html)) {
+    // Keep the line count unchanged so error line numbers still match what the model produced
+    html = `<!DOCTYPE html>${html.replace(/^<!doctype[^>]*>/i, '')}`;
+    issues.push({ code: 'missing-doctype', message: 'Added the missing <!DOCTYPE html>.', fixed: true });
+  }
+
+  if (isDocument) {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    if (!doc.body || (doc.body.children.length === 0 && !doc.body.textContent?.trim())) {
+      issues.push({ code: 'empty-body', message: 'The document has no body content.', fixed: false });
+    }
+  }
+
+  if (target === 'vanilla' && EXTERNAL_RESOURCE.test(html)) {
+    issues.push({ code: 'external-resource', message: 'The document loads scripts, styles or fonts from the network.', fixed: false });
+  }
+
+  return withLocalImages(html, issues);
+};
+
+const withLocalImages = (html: string, issues: OutputIssue[]): ProcessedOutput => {
+  const images = replaceExternalImages(html);
+  if (images.count === 0) return { html, issues };
+  return {
+    html: images.html,
+    issues: [...issues, {
+      code: 'external-image',
+      message: `Replaced ${images.count} external image URL${images.count === 1 ? '' : 's'} with a placeholder.`,
+      fixed: true,
+    }],
+  };
+};
+
+// A replacement for one element of a page (see patchElement in services/gemini.ts). It goes into an existing
+// document, so a whole document in reply is as unusable as no markup at all.
+export const processFragment = (text: string, truncated = false): ProcessedOutput => {
+  const unwrapped = unwrap(text, /<[a-z][^>]*>/i, false);
+  // Drop any explanation before the first tag, since the replacement always starts with an element
+  const start = unwrapped.html.search(/<[a-z!]/i);
+  const html = start > 0 ? unwrapped.html.slice(start) : unwrapped.html;
+  const wrapped = unwrapped.wrapped || start > 0;
+  if (!FORMAT_CHECKS.html.test.test(html)) {
+    return { html, issues: [{ code: 'wrong-format', message: FORMAT_CHECKS.html.message, fixed: false }] };
+  }
+  if (/^<!doctype|<html[\s>]|<head[\s>]/i.test(html)) {
+    return { html, issues: [{ code: 'wrong-format', message: 'The reply is a whole document instead of the selected element.', fixed: false }] };
+  }
+
+  const issues: OutputIssue[] = [];
+  if (wrapped) {
+    issues.push({ code: 'wrapped', message: 'Removed markdown fences or text around the markup.', fixed: true });
+  }
+  const scripts = countTags(html, 'script');
+  const styles = countTags(html, 'style');
+  if (truncated || scripts.open > scripts.close || styles.open > styles.close || /<[^>]*$/.test(html)) {
+    issues.push({ code: 'truncated', message: 'The markup ends abruptly, so the element is probably incomplete.', fixed: false });
+  }
+  return withLocalImages(html, issues);
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Helpers around the global PDF.js build loaded in index.html
+
+export interface PageSelection {
+  pages: number[];      // 1-based page numbers sent to the model
+  pageCount: number;
+  screenPerPage: boolean; // Build one navigable screen per selected page
+}
+
+export interface PageImage {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  pageNumber: number;
+}
+
+const getPdfJs = () => {
+  if (!window.pdfjsLib) {
+    throw new Error("PDF library not initialized");
+  }
+  return window.pdfjsLib;
+};
+
+export const loadPdf = async (source: string | ArrayBuffer): Promise<any> => {
+  const params = typeof source === 'string' ? source : { data: new Uint8Array(source) };
+  return getPdfJs().getDocument(params).promise;
+};
+
+export const renderPage = async (pdf: any, pageNumber: number, canvas: HTMLCanvasElement, scale: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+};
+
+// Renders a page to a data URL scaled to the given width
+export const renderPageToDataUrl = async (pdf: any, pageNumber: number, width: number, mimeType = 'image/jpeg'): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const scale = width / page.getViewport({ scale: 1 }).width;
+  const canvas = document.createElement('canvas');
+  await renderPage(pdf, pageNumber, canvas, scale);
+  return canvas.toDataURL(mimeType, 0.85);
+};
+
+// Pages are rasterised rather than sliced out of the PDF, since PDF.js can't write PDFs
+export const renderPagesForModel = async (source: string | ArrayBuffer, pages: number[]): Promise<PageImage[]> => {
+  const pdf = await loadPdf(source);
+  const images: PageImage[] = [];
+  for (const pageNumber of pages) {
+    const dataUrl = await renderPageToDataUrl(pdf, pageNumber, 1400);
+    images.push({ data: dataUrl.split(',')[1], mimeType: 'image/jpeg', pageNumber });
+  }
+  return images;
+};
+
+// Parses "1-3, 5, 8-" style input into sorted unique page numbers within range
+export const parsePageRanges = (input: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+  input.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const match = part.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (match) {
+      const start = match[1] ? parseInt(match[1], 10) : 1;
+      const end = match[2] ? parseInt(match[2], 10) : pageCount;
+      for (let p = Math.max(1, start); p <= Math.min(pageCount, end); p++) pages.add(p);
+    } else if (/^\d+$/.test(part)) {
+      const p = parseInt(part, 10);
+      if (p >= 1 && p <= pageCount) pages.add(p);
+    }
+  });
+  return [...pages].sort((a, b) => a - b);
+};
+
+export const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  let start = -1;
+  let prev = -1;
+  [...pages].sort((a, b) => a - b).forEach(p => {
+    if (p === prev + 1) {
+      prev = p;
+      return;
+    }
+    if (start > 0) ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = prev = p;
+  });
+  if (start > 0) ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+  return ranges.join(', ');
+};
+
+export const isFullSelection = (selection: PageSelection) => selection.pages.length === selection.pageCount;
@@ -0,0 +1,429 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import captureLibrarySource from 'html-to-image/dist/html-to-image.js?raw';
+import { InspectedElement, SOURCE_ID_ATTRIBUTE } from './inspector';
+
+// The postMessage protocol between the app and a preview iframe. A strict-mode preview runs in an
+// opaque origin, so this bridge is the only way state crosses the frame boundary in either direction.
+
+export const BRIDGE_CHANNEL = 'give-me-idea-preview';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type NetworkKind = 'fetch' | 'xhr' | 'beacon' | 'websocket';
+
+// `line` is a 1-based line in the previewed HTML; it is omitted when the code didn't come from the document itself
+export type PreviewMessage =
+  | { type: 'ready' }
+  | { type: 'pong' }
+  | { type: 'csp-violation'; directive: string; blockedUri: string }
+  | { type: 'console'; level: ConsoleLevel; text: string; line?: number }
+  | { type: 'error'; kind: 'error' | 'rejection'; text: string; line?: number; column?: number; source?: string; stack?: string }
+  | { type: 'network'; kind: NetworkKind; method: string; url: string; status?: number; error?: string; line?: number }
+  | { type: 'capture'; dataUrl: string }
+  | { type: 'capture-error'; text: string }
+  | { type: 'inspect-select'; element: InspectedElement };
+
+// Host -> preview
+export type HostMessage =
+  | { type: 'ping' }
+  | { type: 'capture'; fullPage: boolean; pixelRatio: number }
+  | { type: 'inspect'; enabled: boolean; selectedId: number | null };
+
+interface BridgeEnvelope<T> {
+  channel: typeof BRIDGE_CHANNEL;
+  token: string;
+  message: T;
+}
+
+// Caps what a runaway render loop can push through the bridge per document
+const MAX_CAPTURED_MESSAGES = 1000;
+
+// Screenshots are rendered inside the preview, since a strict-mode frame can't be read from outside.
+// html-to-image ships with the app and is only embedded in capture frames, so capturing needs no network.
+// Escaping '<' keeps its source from closing the script it sits in.
+const CAPTURE_LIBRARY = JSON.stringify(captureLibrarySource).replace(/</g, '\\u003c');
+const MAX_CAPTURE_HEIGHT = 16000;
+
+// Runs inside the preview before any generated script. `token` tells frames apart; it is readable by the
+// generated code, so the host also checks that each message really comes from the frame's own window.
+// `shimLine` is the document line the script sits on, so its own stack frames can be skipped.
+// The script is collapsed onto that one line, which keeps line numbers identical to the source HTML.
+// `capture` adds the screenshot renderer, which only the hidden capture frames need.
+export const buildBridgeScript = (token: string, shimStorage: boolean, shimLine: number, capture = false) => `<script>
+(function () {
+  var CHANNEL = ${JSON.stringify(BRIDGE_CHANNEL)};
+  var TOKEN = ${JSON.stringify(token)};
+  var SHIM_LINE = ${shimLine};
+  var host = window.parent;
+  var captured = 0;
+
+  function send(message) {
+    host.postMessage({ channel: CHANNEL, token: TOKEN, message: message }, '*');
+  }
+
+  function capture(message) {
+    captured++;
+    if (captured < ${MAX_CAPTURED_MESSAGES}) {
+      send(message);
+    } else if (captured === ${MAX_CAPTURED_MESSAGES}) {
+      send({ type: 'console', level: 'warn', text: 'Output limit reached; further console, error and network entries are not shown.' });
+    }
+  }
+
+  ${shimStorage ? STORAGE_SHIM : ''}
+  ${INSTRUMENTATION_SHIM}
+  ${capture ? CAPTURE_SHIM : ''}
+  ${INSPECT_SHIM}
+
+  document.addEventListener('securitypolicyviolation', function (e) {
+    send({ type: 'csp-violation', directive: e.effectiveDirective || e.violatedDirective, blockedUri: String(e.blockedURI || '') });
+  });
+
+  window.addEventListener('message', function (e) {
+    var data = e.data;
+    if (e.source !== host || !data || data.channel !== CHANNEL || data.token !== TOKEN) return;
+    if (data.message && data.message.type === 'ping') send({ type: 'pong' });
+    if (data.message && data.message.type === 'capture' && typeof capturePage === 'function') capturePage(data.message);
+    if (data.message && data.message.type === 'inspect') setInspect(data.message);
+  });
+
+  send({ type: 'ready' });
+})();
+</script>`.replace(/\n\s*/g, ' ');
+
+// Opaque-origin documents throw on localStorage access; generated apps often persist state there,
+// so give them an in-memory stand-in instead of crashing
+const STORAGE_SHIM = `
+  function memoryStorage() {
+    var items = {};
+    return {
+      get length() { return Object.keys(items).length; },
+      key: function (i) { return Object.keys(items)[i] || null; },
+      getItem: function (k) { return Object.prototype.hasOwnProperty.call(items, k) ? items[k] : null; },
+      setItem: function (k, v) { items[k] = String(v); },
+      removeItem: function (k) { delete items[k]; },
+      clear: function () { items = {}; }
+    };
+  }
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try { window[name].length; } catch (e) {
+      Object.defineProperty(window, name, { value: memoryStorage(), configurable: true });
+    }
+  });`;
+
+// Forwards console output, uncaught errors, unhandled rejections and network attempts. Must not
+// contain line comments, since the whole script is collapsed onto a single line.
+const INSTRUMENTATION_SHIM = `
+  function callerLine(stack) {
+    var frames = String(stack || '').split('\\n');
+    for (var i = 0; i < frames.length; i++) {
+      var match = frames[i].match(/about:srcdoc:(\\d+):\\d+/);
+      if (match && Number(match[1]) !== SHIM_LINE) return Number(match[1]);
+    }
+    return undefined;
+  }
+
+  function describe(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (typeof value === 'function') return 'function ' + (value.name || '(anonymous)');
+    if (value instanceof Node) return value.nodeType === 1 ? '<' + value.nodeName.toLowerCase() + '>' : value.nodeName;
+    try {
+      var json = JSON.stringify(value);
+      if (json === undefined) return String(value);
+      return json.length > 2000 ? json.slice(0, 2000) + '...' : json;
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      capture({ type: 'console', level: level, text: args.map(describe).join(' '), line: callerLine(new Error().stack) });
+      return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener('error', function (e) {
+    var inDocument = !e.filename || e.filename === 'about:srcdoc';
+    capture({
+      type: 'error',
+      kind: 'error',
+      text: e.message || 'Unknown error',
+      line: inDocument && e.lineno ? e.lineno : undefined,
+      column: inDocument && e.colno ? e.colno : undefined,
+      source: inDocument ? undefined : e.filename,
+      stack: e.error && e.error.stack ? String(e.error.stack) : undefined
+    });
+  });
+
+  window.addEventListener('unhandledrejection', function (e) {
+    var reason = e.reason;
+    capture({
+      type: 'error',
+      kind: 'rejection',
+      text: 'Unhandled rejection: ' + (reason instanceof Error ? reason.message : describe(reason)),
+      line: reason instanceof Error ? callerLine(reason.stack) : undefined,
+      stack: reason instanceof Error ? reason.stack : undefined
+    });
+  });
+
+  function report(kind, method, url, line, outcome) {
+    var message = { type: 'network', kind: kind, method: String(method || 'GET').toUpperCase(), url: String(url), line: line };
+    if (outcome) {
+      message.status = outcome.status;
+      message.error = outcome.error;
+    }
+    capture(message);
+  }
+
+  if (window.fetch) {
+    var originalFetch = window.fetch;
+    window.fetch = function (input, init) {
+      var url = input && input.url ? input.url : input;
+      var method = (init && init.method) || (input && input.method) || 'GET';
+      var line = callerLine(new Error().stack);
+      return originalFetch.apply(this, arguments).then(function (response) {
+        report('fetch', method, url, line, { status: response.status });
+        return response;
+      }, function (error) {
+        report('fetch', method, url, line, { error: error && error.message ? error.message : String(error) });
+        throw error;
+      });
+    };
+  }
+
+  var originalOpen = XMLHttpRequest.prototype.open;
+  var originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    this.__capture = { method: method, url: url };
+    return originalOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    var xhr = this;
+    var info = xhr.__capture || { method: 'GET', url: '' };
+    var line = callerLine(new Error().stack);
+    xhr.addEventListener('loadend', function () {
+      report('xhr', info.method, info.url, line, xhr.status ? { status: xhr.status } : { error: 'Request failed' });
+    });
+    return originalSend.apply(this, arguments);
+  };
+
+  if (navigator.sendBeacon) {
+    var originalBeacon = navigator.sendBeacon;
+    navigator.sendBeacon = function (url) {
+      var queued = originalBeacon.apply(navigator, arguments);
+      report('beacon', 'POST', url, callerLine(new Error().stack), queued ? undefined : { error: 'Not queued' });
+      return queued;
+    };
+  }
+
+  if (window.WebSocket) {
+    var OriginalWebSocket = window.WebSocket;
+    window.WebSocket = function (url, protocols) {
+      report('websocket', 'GET', url, callerLine(new Error().stack));
+      return protocols === undefined ? new OriginalWebSocket(url) : new OriginalWebSocket(url, protocols);
+    };
+    window.WebSocket.prototype = OriginalWebSocket.prototype;
+    ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'].forEach(function (name) { window.WebSocket[name] = OriginalWebSocket[name]; });
+  }`;
+
+// Renders the page to a PNG data URL: the top viewport, or the whole scroll height for full-page captures.
+// Web fonts are skipped because embedding them needs network access. Same single-line rule as above.
+const CAPTURE_SHIM = `
+  var captureLibrary = null;
+
+  function loadCaptureLibrary() {
+    if (!captureLibrary) {
+      var script = document.createElement('script');
+      script.textContent = ${CAPTURE_LIBRARY};
+      (document.head || document.documentElement).appendChild(script);
+      captureLibrary = window.htmlToImage || null;
+    }
+    return captureLibrary
+      ? Promise.resolve(captureLibrary)
+      : Promise.reject(new Error('The screenshot library could not be started in the page.'));
+  }
+
+  function pageBackground() {
+    var colors = [document.body, document.documentElement].map(function (el) { return el ? getComputedStyle(el).backgroundColor : ''; });
+    for (var i = 0; i < colors.length; i++) {
+      if (colors[i] && colors[i] !== 'transparent' && colors[i] !== 'rgba(0, 0, 0, 0)') return colors[i];
+    }
+    return '#ffffff';
+  }
+
+  function capturePage(options) {
+    var root = document.documentElement;
+    var width = root.clientWidth;
+    var height = options.fullPage ? Math.max(root.clientHeight, root.scrollHeight, document.body ? document.body.scrollHeight : 0) : root.clientHeight;
+    loadCaptureLibrary().then(function (library) {
+      return library.toPng(document.body, {
+        width: width,
+        height: Math.min(height, ${MAX_CAPTURE_HEIGHT}),
+        pixelRatio: options.pixelRatio,
+        backgroundColor: pageBackground(),
+        skipFonts: true,
+        style: { margin: '0' }
+      });
+    }).then(function (dataUrl) {
+      send({ type: 'capture', dataUrl: dataUrl });
+    }, function (error) {
+      send({ type: 'capture-error', text: error && error.message ? error.message : 'The page could not be rendered.' });
+    });
+  }`;
+
+// Inspect mode: outlines the tagged element under the pointer and reports clicks instead of letting the app
+// handle them. Shift-dragging draws an area and picks the innermost element that covers it, for regions that
+// are hard to click, such as a row of cards. Only elements carrying a source id (see services/inspector.ts) can be picked.
+const INSPECT_SHIM = `
+  var inspect = { enabled: false, selected: null, hover: null, hoverBox: null, selectedBox: null, drag: null, dragBox: null, dragged: false };
+
+  function inspectBox(border, background) {
+    var box = document.createElement('div');
+    box.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;box-sizing:border-box;display:none;border:' + border + ';background:' + background;
+    var label = document.createElement('span');
+    label.style.cssText = 'position:absolute;left:-2px;bottom:100%;padding:1px 4px;font:10px/1.4 ui-monospace,monospace;color:#fff;background:#3b82f6;white-space:nowrap';
+    box.appendChild(label);
+    document.documentElement.appendChild(box);
+    return box;
+  }
+
+  function placeBox(box, el) {
+    if (!box) return;
+    if (!el || !el.isConnected) {
+      box.style.display = 'none';
+      return;
+    }
+    var rect = el.getBoundingClientRect();
+    box.style.display = 'block';
+    box.style.left = rect.left + 'px';
+    box.style.top = rect.top + 'px';
+    box.style.width = rect.width + 'px';
+    box.style.height = rect.height + 'px';
+    box.firstChild.textContent = el.tagName.toLowerCase();
+  }
+
+  function refreshBoxes() {
+    placeBox(inspect.hoverBox, inspect.enabled && inspect.hover !== inspect.selected ? inspect.hover : null);
+    placeBox(inspect.selectedBox, inspect.enabled ? inspect.selected : null);
+    if (inspect.dragBox && !inspect.drag) inspect.dragBox.style.display = 'none';
+  }
+
+  function sourceElement(node) {
+    while (node && node.nodeType === 1) {
+      if (node.hasAttribute(${JSON.stringify(SOURCE_ID_ATTRIBUTE)})) return node;
+      node = node.parentElement;
+    }
+    return null;
+  }
+
+  function dragRect(e) {
+    return {
+      left: Math.min(inspect.drag.x, e.clientX),
+      top: Math.min(inspect.drag.y, e.clientY),
+      right: Math.max(inspect.drag.x, e.clientX),
+      bottom: Math.max(inspect.drag.y, e.clientY)
+    };
+  }
+
+  function coveringElement(area) {
+    var el = sourceElement(document.elementFromPoint((area.left + area.right) / 2, (area.top + area.bottom) / 2));
+    while (el) {
+      var rect = el.getBoundingClientRect();
+      if (rect.left <= area.left + 1 && rect.top <= area.top + 1 && rect.right >= area.right - 1 && rect.bottom >= area.bottom - 1) return el;
+      el = sourceElement(el.parentElement);
+    }
+    return null;
+  }
+
+  function selectElement(el) {
+    inspect.selected = el;
+    refreshBoxes();
+    if (!el) return;
+    var style = getComputedStyle(el);
+    send({ type: 'inspect-select', element: {
+      sourceId: Number(el.getAttribute(${JSON.stringify(SOURCE_ID_ATTRIBUTE)})),
+      tagName: el.tagName.toLowerCase(),
+      color: style.color,
+      backgroundColor: style.backgroundColor
+    } });
+  }
+
+  function setInspect(options) {
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', function () { setInspect(options); });
+      return;
+    }
+    inspect.enabled = options.enabled;
+    if (!inspect.hoverBox && document.documentElement) {
+      inspect.hoverBox = inspectBox('1px dashed #3b82f6', 'rgba(59,130,246,0.08)');
+      inspect.selectedBox = inspectBox('2px solid #3b82f6', 'transparent');
+      inspect.dragBox = inspectBox('1px dashed #f59e0b', 'rgba(245,158,11,0.1)');
+    }
+    if (!options.enabled) inspect.drag = null;
+    document.documentElement.style.cursor = options.enabled ? 'crosshair' : '';
+    var selected = options.selectedId === null ? null : document.querySelector('[${SOURCE_ID_ATTRIBUTE}="' + options.selectedId + '"]');
+    if (selected !== inspect.selected) selectElement(selected);
+    refreshBoxes();
+  }
+
+  document.addEventListener('mouseover', function (e) {
+    if (!inspect.enabled) return;
+    inspect.hover = sourceElement(e.target);
+    refreshBoxes();
+  }, true);
+
+  window.addEventListener('pointermove', function (e) {
+    if (!inspect.enabled || !inspect.drag) return;
+    var area = dragRect(e);
+    var box = inspect.dragBox;
+    box.style.display = 'block';
+    box.style.left = area.left + 'px';
+    box.style.top = area.top + 'px';
+    box.style.width = (area.right - area.left) + 'px';
+    box.style.height = (area.bottom - area.top) + 'px';
+    box.firstChild.textContent = Math.round(area.right - area.left) + ' x ' + Math.round(area.bottom - area.top);
+  }, true);
+
+  ['click', 'dblclick', 'mousedown', 'mouseup', 'pointerdown', 'pointerup', 'submit'].forEach(function (type) {
+    window.addEventListener(type, function (e) {
+      if (!inspect.enabled) return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (type === 'pointerdown' && e.shiftKey) {
+        inspect.drag = { x: e.clientX, y: e.clientY };
+      } else if (type === 'pointerup' && inspect.drag) {
+        var area = dragRect(e);
+        inspect.drag = null;
+        inspect.dragged = area.right - area.left > 4 || area.bottom - area.top > 4;
+        if (inspect.dragged) selectElement(coveringElement(area));
+        refreshBoxes();
+      } else if (type === 'click') {
+        if (!inspect.dragged) selectElement(sourceElement(e.target));
+        inspect.dragged = false;
+      }
+    }, true);
+  });
+
+  window.addEventListener('scroll', refreshBoxes, true);
+  window.addEventListener('resize', refreshBoxes);`;
+
+// Returns the message when the event is a bridge message from the given frame, otherwise null
+export const readBridgeMessage = (event: MessageEvent, frame: HTMLIFrameElement | null, token: string): PreviewMessage | null => {
+  if (!frame || event.source !== frame.contentWindow) return null;
+  const data = event.data as BridgeEnvelope<PreviewMessage> | undefined;
+  if (!data || data.channel !== BRIDGE_CHANNEL || data.token !== token || !data.message) return null;
+  return data.message;
+};
+
+// Opaque origins can only be addressed with '*'; the envelope token keeps other frames from acting on it
+export const postToPreview = (frame: HTMLIFrameElement | null, token: string, message: HostMessage) => {
+  const envelope: BridgeEnvelope<HostMessage> = { channel: BRIDGE_CHANNEL, token, message };
+  frame?.contentWindow?.postMessage(envelope, '*');
+};
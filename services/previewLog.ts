@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ConsoleLevel, PreviewMessage } from './previewBridge';
+
+export type LogCategory = 'console' | 'error' | 'network';
+
+export interface PreviewLogEntry {
+  id: number;
+  category: LogCategory;
+  level: ConsoleLevel;
+  text: string;
+  detail?: string; // Stack trace or other secondary text, shown on expand
+  line?: number; // 1-based line in the previewed HTML
+  source?: string; // Script URL when the entry came from outside the document
+  timestamp: Date;
+}
+
+export const MAX_LOG_ENTRIES = 500;
+
+let nextId = 0;
+
+// Maps a bridge message onto a console entry; messages that aren't diagnostics return null
+export const toLogEntry = (message: PreviewMessage): PreviewLogEntry | null => {
+  const base = { id: nextId++, timestamp: new Date() };
+  switch (message.type) {
+    case 'console':
+      return { ...base, category: 'console', level: message.level, text: message.text, line: message.line };
+    case 'error':
+      return {
+        ...base,
+        category: 'error',
+        level: 'error',
+        text: message.text,
+        detail: message.stack,
+        line: message.line,
+        source: message.source,
+      };
+    case 'network': {
+      const outcome = message.error ? `failed: ${message.error}` : message.status !== undefined ? String(message.status) : 'sent';
+      const failed = !!message.error || (message.status !== undefined && message.status >= 400);
+      return {
+        ...base,
+        category: 'network',
+        level: failed ? 'error' : 'info',
+        text: `${message.kind.toUpperCase()} ${message.method} ${message.url} → ${outcome}`,
+        line: message.line,
+      };
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata, Content, FinishReason } from "@google/genai";
+import { ModelChunk, ModelProvider, ModelRequest, ModelResponse, TokenUsage } from './types';
+import { GenerationError, isSafetyReason } from '../errors';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app can run against other providers without an API key
+const getClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const toUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => {
+  if (!metadata) return undefined;
+  return {
+    promptTokenCount: metadata.promptTokenCount ?? 0,
+    candidatesTokenCount: metadata.candidatesTokenCount ?? 0,
+    totalTokenCount: metadata.totalTokenCount ?? 0,
+  };
+};
+
+// Blocked prompts and responses come back as empty text, so surface the block reason instead
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || isSafetyReason(finishReason)) {
+    throw new GenerationError('safety', response.promptFeedback?.blockReasonMessage || `Blocked: ${blockReason || finishReason}`);
+  }
+};
+
+const isTruncated = (response: GenerateContentResponse) =>
+  response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS;
+
+const toContents = (request: ModelRequest): Content[] =>
+  request.messages.map(message => ({
+    role: message.role,
+    parts: message.parts
+  }));
+
+export const createGeminiProvider = (model: string): ModelProvider => ({
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents: toContents(request),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        abortSignal: request.signal,
+      },
+    });
+    assertNotBlocked(response);
+
+    return {
+      text: response.text || "",
+      usage: toUsage(response.usageMetadata),
+      truncated: isTruncated(response)
+    };
+  },
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelChunk> {
+    const stream = await getClient().models.generateContentStream({
+      model,
+      contents: toContents(request),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        abortSignal: request.signal,
+      },
+    });
+
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      yield {
+        text: chunk.text || "",
+        usage: toUsage(chunk.usageMetadata),
+        truncated: isTruncated(chunk)
+      };
+    }
+  },
+
+  async countTokens(request: ModelRequest): Promise<number> {
+    // The Gemini API rejects a system instruction here, so count it as a leading text turn instead
+    const response = await getClient().models.countTokens({
+      model,
+      contents: [{ role: 'user', parts: [{ text: request.systemInstruction }] }, ...toContents(request)],
+      config: { abortSignal: request.signal },
+    });
+    return response.totalTokens ?? 0;
+  }
+});
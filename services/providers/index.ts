@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { ModelProvider, ProviderId, ProviderSettings } from './types';
+
+export * from './types';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible (local)',
+};
+
+// Suggested models per provider; any model name the backend accepts can be typed in
+export const MODEL_SUGGESTIONS: Record<ProviderId, string[]> = {
+  'gemini': ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+  'openai-compatible': ['qwen2.5-coder:32b', 'llama3.3:70b', 'gpt-4o'],
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  // Using gemini-3-pro-preview for complex coding tasks.
+  model: 'gemini-3-pro-preview',
+  temperature: 0.6,
+  endpoint: 'http://localhost:11434/v1',
+};
+
+export const createProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.endpoint, settings.model, settings.apiKey);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.model);
+  }
+};
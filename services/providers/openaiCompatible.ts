@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelChunk, ModelMessage, ModelProvider, ModelRequest, ModelResponse, TokenUsage } from './types';
+import { GenerationError } from '../errors';
+
+// Adapter for servers speaking the OpenAI chat completions protocol (llama.cpp, Ollama, vLLM, LM Studio...)
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+const toUsage = (usage?: OpenAIUsage | null): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  return {
+    promptTokenCount: usage.prompt_tokens ?? 0,
+    candidatesTokenCount: usage.completion_tokens ?? 0,
+    totalTokenCount: usage.total_tokens ?? 0,
+  };
+};
+
+// Servers following OpenAI report filtered output as finish_reason "content_filter"
+const assertNotFiltered = (finishReason?: string | null) => {
+  if (finishReason === 'content_filter') {
+    throw new GenerationError('safety', 'The response was removed by the content filter');
+  }
+};
+
+// Some compatible servers send keep-alive or partial `data:` lines that aren't JSON; those are skipped
+const parseEvent = (data: string) => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn("Skipping unreadable stream event:", data);
+    return null;
+  }
+};
+
+const toChatMessage = (message: ModelMessage) => {
+  const content = message.parts.map(part => {
+    if ('text' in part) {
+      return { type: 'text', text: part.text };
+    }
+    if (!part.inlineData.mimeType.startsWith('image/')) {
+      throw new Error(`OpenAI-compatible providers only accept image attachments (got ${part.inlineData.mimeType})`);
+    }
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+    };
+  });
+
+  return {
+    role: message.role === 'model' ? 'assistant' : 'user',
+    // Plain string content keeps text-only requests compatible with servers lacking vision support
+    content: content.every(c => c.type === 'text') ? content.map(c => (c as { text: string }).text).join('\n\n') : content
+  };
+};
+
+export const createOpenAICompatibleProvider = (endpoint: string, model: string, apiKey?: string): ModelProvider => {
+  const post = async (request: ModelRequest, stream: boolean) => {
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature: request.temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          ...request.messages.map(toChatMessage)
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Provider request failed (${response.status}): ${detail || response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    async generate(request: ModelRequest): Promise<ModelResponse> {
+      const response = await post(request, false);
+      const data = await response.json();
+      assertNotFiltered(data.choices?.[0]?.finish_reason);
+      return {
+        text: data.choices?.[0]?.message?.content || "",
+        usage: toUsage(data.usage),
+        truncated: data.choices?.[0]?.finish_reason === 'length'
+      };
+    },
+
+    async *stream(request: ModelRequest): AsyncGenerator<ModelChunk> {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new Error("Provider returned an empty stream");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      // Server-sent events: one `data: {...}` payload per line, terminated by `data: [DONE]`
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || "";
+
+          for (const line of lines) {
+            const payload = line.trim();
+            if (!payload.startsWith('data:')) continue;
+            const data = payload.slice(5).trim();
+            if (data === '[DONE]') return;
+
+            const event = parseEvent(data);
+            if (!event) continue;
+            assertNotFiltered(event.choices?.[0]?.finish_reason);
+            yield {
+              text: event.choices?.[0]?.delta?.content || "",
+              usage: toUsage(event.usage),
+              truncated: event.choices?.[0]?.finish_reason === 'length'
+            };
+          }
+        }
+      } finally {
+        // Also runs on [DONE], on errors and when the consumer stops early, so the connection isn't left open
+        reader.cancel().catch(() => {});
+      }
+    }
+  };
+};
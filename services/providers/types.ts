@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface TokenUsage {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  totalTokenCount: number;
+}
+
+export type ModelPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface ModelMessage {
+  role: 'user' | 'model';
+  parts: ModelPart[];
+}
+
+// Provider-neutral request; adapters translate it into their own wire format
+export interface ModelRequest {
+  systemInstruction: string;
+  messages: ModelMessage[];
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface ModelResponse {
+  text: string;
+  usage?: TokenUsage;
+  truncated?: boolean; // Output stopped at the model's token limit
+}
+
+// One streamed delta. `usage` carries running totals when the backend reports them
+export interface ModelChunk {
+  text: string;
+  usage?: TokenUsage;
+  truncated?: boolean; // Set on the final chunk when the output hit the token limit
+}
+
+export interface ModelProvider {
+  generate(request: ModelRequest): Promise<ModelResponse>;
+  stream(request: ModelRequest): AsyncGenerator<ModelChunk>;
+  // Exact prompt token count, for backends that expose one
+  countTokens?(request: ModelRequest): Promise<number>;
+}
+
+// Runtime-selectable settings, persisted by the app and passed to every service call
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  endpoint: string; // Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  apiKey?: string;  // Optional bearer token for OpenAI-compatible servers
+}
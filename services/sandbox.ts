@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { buildBridgeScript } from './previewBridge';
+
+// How generated code is isolated from the app. Strict mode drops `allow-same-origin`, so the preview
+// gets an opaque origin and can't reach the app's storage; the CSP decides what it may load.
+
+export type CspPreset = 'no-network' | 'offline' | 'off' | 'custom';
+
+export interface SandboxSettings {
+  strict: boolean;
+  cspPreset: CspPreset;
+  customCsp: string;
+}
+
+// The CDNs that generated pages and the component harnesses load from (see services/targets.ts). Listing the
+// hosts instead of allowing https: keeps a page from sending data to a server of its choosing in a script,
+// stylesheet or font URL.
+const CDN_SCRIPT_HOSTS = 'https://cdn.tailwindcss.com https://unpkg.com https://cdn.jsdelivr.net https://esm.sh';
+const CDN_STYLE_HOSTS = 'https://fonts.googleapis.com https://unpkg.com https://cdn.jsdelivr.net';
+const CDN_FONT_HOSTS = 'https://fonts.gstatic.com';
+
+export const CSP_PRESETS: Record<Exclude<CspPreset, 'custom'>, { label: string; description: string; policy: string }> = {
+  'no-network': {
+    label: 'Block requests',
+    description: 'Tailwind, Lucide, Google Fonts and the React and Vue runtimes load from their CDNs; everything else, including fetch, XHR, WebSockets, forms and remote images, is blocked.',
+    policy: `default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' ${CDN_SCRIPT_HOSTS}; style-src 'unsafe-inline' ${CDN_STYLE_HOSTS}; img-src data: blob:; font-src data: ${CDN_FONT_HOSTS}; media-src data: blob:; worker-src blob:; connect-src 'none'; form-action 'none'; frame-src 'none'; base-uri 'none'`,
+  },
+  'offline': {
+    label: 'Fully offline',
+    description: 'Nothing loads from the network, including CDN libraries such as Tailwind.',
+    policy: "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; style-src 'unsafe-inline'; img-src data: blob:; font-src data:; media-src data: blob:; worker-src blob:; connect-src 'none'; form-action 'none'; frame-src 'none'; base-uri 'none'",
+  },
+  'off': {
+    label: 'No policy',
+    description: 'The preview may make any request.',
+    policy: '',
+  },
+};
+
+export const DEFAULT_SANDBOX_SETTINGS: SandboxSettings = {
+  strict: true,
+  cspPreset: 'no-network',
+  customCsp: CSP_PRESETS['no-network'].policy,
+};
+
+export const getSandboxAttribute = (settings: SandboxSettings) =>
+  settings.strict
+    ? 'allow-scripts allow-forms allow-modals'
+    : 'allow-scripts allow-forms allow-popups allow-modals allow-same-origin';
+
+export const getCsp = (settings: SandboxSettings): string =>
+  settings.cspPreset === 'custom' ? settings.customCsp.trim() : CSP_PRESETS[settings.cspPreset].policy;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Puts the CSP meta tag and the bridge script ahead of everything else in the document, keeping any doctype
+// first. The injected markup has no line breaks, so line numbers reported by the preview match `html`.
+// `capture` is for the hidden frames that take screenshots (see services/capture.ts).
+export const preparePreviewHtml = (html: string, settings: SandboxSettings, token: string, capture = false): string => {
+  const csp = getCsp(settings);
+  const inject = (at: number, wrap: (markup: string) => string = markup => markup) => {
+    const line = html.slice(0, at).split('\n').length;
+    const markup = (csp ? `<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(csp)}">` : '')
+      + buildBridgeScript(token, settings.strict, line, capture);
+    return html.slice(0, at) + wrap(markup) + html.slice(at);
+  };
+
+  const head = html.match(/<head(\s[^>]*)?>/i);
+  if (head) {
+    return inject(head.index! + head[0].length);
+  }
+  const root = html.match(/<html(\s[^>]*)?>/i);
+  if (root) {
+    return inject(root.index! + root[0].length, markup => `<head>${markup}</head>`);
+  }
+  const doctype = html.match(/^\s*<!doctype[^>]*>/i);
+  return inject(doctype ? doctype[0].length : 0);
+};
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationVersion } from '../components/CreationHistory';
+import { reviveArtifacts } from './artifacts';
+
+// IndexedDB-backed archive. Metadata, HTML and source artifacts live in separate object stores
+// so the archive list can load without pulling every base64 upload into memory. A creation's
+// artifacts are stored together as one Blob[] under its id (older records hold a single Blob).
+// Version bodies are stored under their version id and only loaded when the timeline opens.
+
+const DB_NAME = 'give-me-idea';
+const DB_VERSION = 2;
+const META_STORE = 'creations';
+const HTML_STORE = 'html';
+const SOURCE_STORE = 'sources';
+const VERSION_STORE = 'versions';
+
+const LEGACY_HISTORY_KEY = 'gemini_app_history';
+
+// Records saved before version bodies moved out of the meta store still hold `html` inline
+type VersionRecord = Omit<CreationVersion, 'html'> & { size: number; html?: string };
+type CreationRecord = Omit<Creation, 'html' | 'versions'> & { versions?: VersionRecord[]; size: number; sourceSize: number };
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(HTML_STORE)) db.createObjectStore(HTML_STORE);
+        if (!db.objectStoreNames.contains(SOURCE_STORE)) db.createObjectStore(SOURCE_STORE);
+        if (!db.objectStoreNames.contains(VERSION_STORE)) db.createObjectStore(VERSION_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// MIME type of the primary artifact
+export const getSourceType = (creation: Creation): string | undefined => creation.artifacts?.[0]?.mimeType;
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+// Creations come back without artifact data or version bodies; use loadSources and loadVersionHtml for those
+export async function loadCreations(): Promise<Creation[]> {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, HTML_STORE], 'readonly');
+  const [records, htmlKeys, htmlValues] = await Promise.all([
+    requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<CreationRecord[]>),
+    requestToPromise(tx.objectStore(HTML_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(HTML_STORE).getAll() as IDBRequest<string[]>),
+  ]);
+
+  const htmlById = new Map<IDBValidKey, string>();
+  htmlKeys.forEach((key, idx) => htmlById.set(key, htmlValues[idx]));
+
+  return records
+    .map(({ size, sourceSize, versions, ...meta }) => ({
+      ...reviveArtifacts(meta),
+      html: htmlById.get(meta.id) || '',
+      versions: versions?.map(({ size, ...version }) => version),
+    }))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+// Writes for the same creation run one after another, so an older save can't commit after a newer one
+const writeQueues = new Map<string, Promise<void>>();
+
+// Versions are replaced rather than mutated, so a version object whose body was written never needs writing again
+const writtenVersions = new WeakSet<CreationVersion>();
+
+const enqueueWrite = (id: string, write: () => Promise<void>): Promise<void> => {
+  const next = (writeQueues.get(id) || Promise.resolve()).catch(() => {}).then(write);
+  writeQueues.set(id, next);
+  const settle = () => {
+    if (writeQueues.get(id) === next) writeQueues.delete(id);
+  };
+  next.then(settle, settle);
+  return next;
+};
+
+export const saveCreation = (creation: Creation, includeSource: boolean): Promise<void> =>
+  enqueueWrite(creation.id, () => writeCreation(creation, includeSource));
+
+async function writeCreation(creation: Creation, includeSource: boolean): Promise<void> {
+  const { html, artifacts, ...meta } = creation;
+  const sources = includeSource && artifacts?.length && artifacts.every(a => a.dataUrl)
+    ? await Promise.all(artifacts.map(a => dataUrlToBlob(a.dataUrl!)))
+    : null;
+
+  const db = await openDb();
+  // Read the previous record up front; a write transaction would auto-commit while awaiting it
+  const existing = await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(creation.id) as IDBRequest<CreationRecord | undefined>
+  );
+  const sourceSize = sources ? sources.reduce((total, blob) => total + blob.size, 0) : existing?.sourceSize ?? 0;
+
+  // Versions whose body isn't in memory are already stored, and so are those written earlier
+  const stored = new Map((existing?.versions || []).map(v => [v.id, v]));
+  const versions = meta.versions || [];
+  const versionRecords: VersionRecord[] = versions.map(({ html: body, ...version }) => ({
+    ...version,
+    size: body !== undefined ? new Blob([body]).size : stored.get(version.id)?.size ?? 0,
+  }));
+  const toWrite = versions.filter(v => v.html !== undefined && !writtenVersions.has(v));
+  const kept = new Set(versions.map(v => v.id));
+  const removed = [...stored.keys()].filter(id => !kept.has(id));
+
+  const htmlSize = new Blob([html, meta.thumbnail?.dataUrl || '']).size + versionRecords.reduce((total, v) => total + v.size, 0);
+
+  const tx = db.transaction([META_STORE, HTML_STORE, SOURCE_STORE, VERSION_STORE], 'readwrite');
+
+  const record: CreationRecord = {
+    ...meta,
+    artifacts: artifacts?.map(({ dataUrl, ...artifact }) => artifact),
+    versions: meta.versions && versionRecords,
+    size: htmlSize + sourceSize,
+    sourceSize,
+  };
+  tx.objectStore(META_STORE).put(record);
+  tx.objectStore(HTML_STORE).put(html, creation.id);
+  if (sources) {
+    tx.objectStore(SOURCE_STORE).put(sources, creation.id);
+  }
+  const versionStore = tx.objectStore(VERSION_STORE);
+  toWrite.forEach(v => versionStore.put(v.html, v.id));
+  removed.forEach(id => versionStore.delete(id));
+  await transactionDone(tx);
+  toWrite.forEach(v => writtenVersions.add(v));
+}
+
+export async function deleteCreations(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  // Let pending saves finish first, or one could bring a deleted creation back
+  await Promise.all(ids.map(id => writeQueues.get(id)?.catch(() => {})));
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, HTML_STORE, SOURCE_STORE, VERSION_STORE], 'readwrite');
+  ids.forEach(id => {
+    // Version bodies are found through the meta record, so it is read before it goes
+    const request = tx.objectStore(META_STORE).get(id) as IDBRequest<CreationRecord | undefined>;
+    request.onsuccess = () => {
+      request.result?.versions?.forEach(v => tx.objectStore(VERSION_STORE).delete(v.id));
+      tx.objectStore(META_STORE).delete(id);
+    };
+    tx.objectStore(HTML_STORE).delete(id);
+    tx.objectStore(SOURCE_STORE).delete(id);
+  });
+  await transactionDone(tx);
+}
+
+export async function loadSourceBlobs(id: string): Promise<Blob[]> {
+  const db = await openDb();
+  const tx = db.transaction(SOURCE_STORE, 'readonly');
+  const stored = await requestToPromise(tx.objectStore(SOURCE_STORE).get(id) as IDBRequest<Blob | Blob[] | undefined>);
+  if (!stored) return [];
+  return Array.isArray(stored) ? stored : [stored];
+}
+
+// Fills in the bodies of versions loaded without them. A body missing from storage comes back empty.
+export async function loadVersionHtml(versions: CreationVersion[]): Promise<CreationVersion[]> {
+  const missing = versions.filter(v => v.html === undefined);
+  if (missing.length === 0) return versions;
+  const db = await openDb();
+  const store = db.transaction(VERSION_STORE, 'readonly').objectStore(VERSION_STORE);
+  const bodies = await Promise.all(missing.map(v => requestToPromise(store.get(v.id) as IDBRequest<string | undefined>)));
+  const byId = new Map(missing.map((v, idx) => [v.id, bodies[idx] ?? '']));
+  return versions.map(v => v.html === undefined ? { ...v, html: byId.get(v.id) } : v);
+}
+
+// The primary artifact, for thumbnails
+export async function loadSourceBlob(id: string): Promise<Blob | undefined> {
+  return (await loadSourceBlobs(id))[0];
+}
+
+// Returns the stored artifacts as data URLs, in the order of `Creation.artifacts`
+export async function loadSources(id: string): Promise<string[]> {
+  return Promise.all((await loadSourceBlobs(id)).map(blobToDataUrl));
+}
+
+export async function getCreationSizes(): Promise<Record<string, number>> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<CreationRecord[]>);
+  return Object.fromEntries(records.map(r => [r.id, r.size]));
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate> {
+  if (!navigator.storage?.estimate) {
+    return { usage: 0, quota: 0, persisted: false };
+  }
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+}
+
+// Asks the browser not to evict the archive under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  return navigator.storage?.persist ? navigator.storage.persist() : false;
+}
+
+// Moves the pre-IndexedDB localStorage archive over, then frees the localStorage quota
+export async function migrateLegacyHistory(): Promise<void> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  const parsed = JSON.parse(saved);
+  for (const item of parsed) {
+    await saveCreation({ ...reviveArtifacts(item), timestamp: new Date(item.timestamp) }, true);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Style profiles: named look-and-feel instructions appended to the system instruction. The functional rules
+// (single self-contained file, no external images, response format) stay fixed; a profile only decides how apps look.
+
+const STORAGE_KEY = 'gemini_style_profiles';
+const EXPORT_FORMAT = 'style-profiles';
+
+export interface StyleProfile {
+  id: string;
+  name: string;
+  description?: string;
+  instructions: string;
+  builtIn?: boolean; // Shipped with the app; can be edited and reset, but not deleted
+}
+
+// The part of a profile a generation depends on, recorded with each creation so refinements keep its style
+export interface StyleGuide {
+  name: string;
+  instructions: string;
+}
+
+export interface StyleLibrary {
+  profiles: StyleProfile[];
+  selectedId: string;
+}
+
+export const DEFAULT_PROFILE_ID = 'studio-dark';
+
+export const BUILT_IN_PROFILES: StyleProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Studio dark',
+    description: 'Dark zinc surfaces, glassmorphism and soft motion.',
+    builtIn: true,
+    instructions: `1. **Perfect Centering**:
+    - By default, ensure the application content is centered. Use a wrapper like <div class="min-h-screen flex items-center justify-center bg-zinc-950 p-4">.
+    - If it's a dashboard, use a centered container: <div class="max-w-5xl mx-auto w-full">.
+2. **Smooth Transitions**:
+    - **CRITICAL**: Apply 'transition-all duration-300 ease-in-out' to all interactive elements (buttons, cards, links).
+    - Use hover effects like 'hover:scale-105' or 'hover:shadow-xl' to make it feel "alive".
+3. **Modern UI Polish**:
+    - Use 'rounded-2xl' or 'rounded-3xl' for corners.
+    - Use subtle borders (border border-white/10) and glassmorphism (backdrop-blur-md bg-white/5).
+    - Use high-quality typography (Inter or system-ui).`,
+  },
+  {
+    id: 'corporate-light',
+    name: 'Corporate light theme',
+    description: 'Clean light UI for business tools and dashboards.',
+    builtIn: true,
+    instructions: `1. **Light Theme**: White and slate-50 backgrounds, slate-900 text, slate-200 borders. No dark backgrounds or glassmorphism.
+2. **Layout**: Full-width app shell with a top bar or left sidebar; content in a max-w-7xl container with consistent 24px spacing.
+3. **Components**: 'rounded-md' corners, flat cards with a single hairline border and 'shadow-sm'. One blue-600 accent for primary actions; secondary buttons are outlined.
+4. **Typography**: Inter or system-ui, restrained sizes (text-sm body, text-xl headings), sentence case labels.
+5. **Motion**: Subtle only: 'transition-colors duration-150' on interactive elements, no scaling or bouncing.`,
+  },
+  {
+    id: 'retro-game',
+    name: 'Retro game',
+    description: '8-bit arcade look with pixel fonts and chunky controls.',
+    builtIn: true,
+    instructions: `1. **Pixel Aesthetic**: Load the "Press Start 2P" font from Google Fonts for headings and buttons; use a monospace font for body text.
+2. **Palette**: A limited, saturated palette on a near-black background, e.g. #0f0f23 with neon green, magenta, cyan and yellow accents.
+3. **Shapes**: No rounded corners. Thick 4px solid borders and hard offset box-shadows (e.g. 4px 4px 0 #000) instead of blurs.
+4. **Feedback**: Buttons visibly "press" on click (translate down, shadow shrinks). Use 'image-rendering: pixelated' for any canvas.
+5. **Flavour**: Scores, lives or level indicators and short arcade-style copy ("PRESS START", "GAME OVER") where they fit the app.`,
+  },
+  {
+    id: 'high-contrast',
+    name: 'Accessible high-contrast',
+    description: 'WCAG AAA contrast, large targets and full keyboard support.',
+    builtIn: true,
+    instructions: `1. **Contrast**: Text and essential icons must meet WCAG AAA contrast (7:1). Use pure black on white or white on black; never convey meaning with colour alone.
+2. **Typography**: Base font size at least 18px, line-height 1.6, no text in all caps or below 16px.
+3. **Targets**: Interactive elements at least 44x44px, with a thick, clearly visible focus outline (e.g. 3px solid yellow with an offset).
+4. **Semantics**: Use semantic HTML (header, main, nav, button, label), associate every input with a label and add aria-live regions for dynamic updates.
+5. **Keyboard & Motion**: Everything must be operable by keyboard in a logical order. Honour prefers-reduced-motion and avoid animation otherwise except brief fades.`,
+  },
+  {
+    id: 'design-system',
+    name: 'Our design system',
+    description: 'A template to fill in with your brand tokens.',
+    builtIn: true,
+    instructions: `Follow our design system exactly. Replace the placeholders below with your brand's values.
+1. **Colours**: Primary #2563EB, secondary #0F172A, background #FFFFFF, surface #F8FAFC, error #DC2626.
+2. **Typography**: Headings in "Inter" 600, body in "Inter" 400 at 16px. Load fonts from Google Fonts.
+3. **Spacing & Shape**: 8px spacing scale, 8px corner radius on cards and inputs, 9999px on pill buttons.
+4. **Components**: Primary buttons are solid primary with white text; secondary buttons are outlined. Cards use the surface colour with a 1px #E2E8F0 border.
+5. **Voice**: Short, friendly, sentence-case copy.`,
+  },
+];
+
+const builtInById = (id: string) => BUILT_IN_PROFILES.find(profile => profile.id === id);
+
+export const DEFAULT_STYLE_GUIDE: StyleGuide = {
+  name: BUILT_IN_PROFILES[0].name,
+  instructions: BUILT_IN_PROFILES[0].instructions,
+};
+
+export const DEFAULT_STYLE_LIBRARY: StyleLibrary = { profiles: BUILT_IN_PROFILES, selectedId: DEFAULT_PROFILE_ID };
+
+export const toStyleGuide = ({ name, instructions }: StyleProfile): StyleGuide => ({ name, instructions });
+
+export const getSelectedProfile = (library: StyleLibrary): StyleProfile =>
+  library.profiles.find(profile => profile.id === library.selectedId) || library.profiles[0] || BUILT_IN_PROFILES[0];
+
+export const isModifiedBuiltIn = (profile: StyleProfile) => {
+  const original = builtInById(profile.id);
+  return !!original && (original.name !== profile.name || original.description !== profile.description || original.instructions !== profile.instructions);
+};
+
+export const resetProfile = (profile: StyleProfile): StyleProfile => builtInById(profile.id) || profile;
+
+export const createProfile = (source?: StyleProfile): StyleProfile => ({
+  id: crypto.randomUUID(),
+  name: source ? `${source.name} (copy)` : 'New profile',
+  description: source?.description,
+  instructions: source?.instructions || '',
+});
+
+export const exportStyleProfiles = (profiles: StyleProfile[]): Blob =>
+  new Blob([JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: 1,
+    profiles: profiles.map(({ id, name, description, instructions }) => ({ id, name, description, instructions })),
+  }, null, 2)], { type: 'application/json' });
+
+// Accepts an export from this app or a bare array of profiles. Throws on anything else.
+export const parseStyleProfiles = (json: string): StyleProfile[] => {
+  const data = JSON.parse(json);
+  const list = Array.isArray(data) ? data : data?.format === EXPORT_FORMAT ? data.profiles : null;
+  if (!Array.isArray(list)) {
+    throw new Error("This file doesn't contain style profiles.");
+  }
+  const profiles = list.filter((p: any) => typeof p?.name === 'string' && p.name.trim() && typeof p?.instructions === 'string');
+  if (profiles.length === 0) {
+    throw new Error("No valid profiles were found; each needs a name and instructions.");
+  }
+  return profiles.map((p: any) => ({
+    id: typeof p.id === 'string' && p.id ? p.id : crypto.randomUUID(),
+    name: p.name.trim(),
+    description: typeof p.description === 'string' ? p.description : undefined,
+    instructions: p.instructions,
+    builtIn: typeof p.id === 'string' && !!builtInById(p.id) || undefined,
+  }));
+};
+
+// Imported profiles replace those with the same id and are appended otherwise
+export const mergeStyleProfiles = (profiles: StyleProfile[], imported: StyleProfile[]): StyleProfile[] => {
+  const replaced = profiles.map(profile => imported.find(p => p.id === profile.id) || profile);
+  return [...replaced, ...imported.filter(p => !profiles.some(profile => profile.id === p.id))];
+};
+
+export const loadStyleLibrary = (): StyleLibrary => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_STYLE_LIBRARY;
+    const parsed = JSON.parse(saved) as StyleLibrary;
+    // Built-ins added in later versions show up without disturbing the user's edits and ordering
+    const missing = BUILT_IN_PROFILES.filter(builtIn => !parsed.profiles.some(profile => profile.id === builtIn.id));
+    return { profiles: [...parsed.profiles, ...missing], selectedId: parsed.selectedId || DEFAULT_PROFILE_ID };
+  } catch (e) {
+    console.error("Failed to load style profiles", e);
+    return DEFAULT_STYLE_LIBRARY;
+  }
+};
+
+export const saveStyleLibrary = (library: StyleLibrary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+};
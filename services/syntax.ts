@@ -0,0 +1,619 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { OutputTarget } from './targets';
+
+// Tokenizer for the code editor. One pass over the source covers markup, the JavaScript inside <script> and
+// the CSS inside <style>, or a whole JSX component file. Besides highlighting tokens it records every tag
+// and bracket pair, which folding, formatting and lint are built on.
+
+export type SourceLanguage = 'html' | 'jsx';
+
+export type TokenType =
+  | 'tag'
+  | 'attribute'
+  | 'string'
+  | 'comment'
+  | 'keyword'
+  | 'number'
+  | 'function'
+  | 'property'
+  | 'selector'
+  | 'entity'
+  | 'meta'      // Doctype and other <!...> declarations
+  | 'bracket'
+  | 'invalid';  // A string, comment or template literal that is never closed
+
+export interface SyntaxToken {
+  from: number;
+  to: number;
+  type: TokenType;
+}
+
+export interface TagInfo {
+  name: string;  // Lower-cased in markup, as written in JSX
+  from: number;  // Offset of the '<'
+  to?: number;   // Offset just past the '>'; missing when the source ends inside the tag
+  closing: boolean;
+  selfClosing: boolean;
+  jsx: boolean;
+  attributes: { name: string; from: number; value?: string }[];
+}
+
+// The contents of a <script> or <style> element
+export interface EmbeddedRegion {
+  language: 'js' | 'css';
+  from: number;
+  to: number;
+  tag: number; // Index of the opening tag in `tags`
+}
+
+export interface SyntaxInfo {
+  tokens: SyntaxToken[];          // In source order, never overlapping; plain text has no token
+  tags: TagInfo[];
+  brackets: Map<number, number>;  // Offset of every bracket to its partner's offset, or -1 when it has none
+  regions: EmbeddedRegion[];
+}
+
+export const getSourceLanguage = (target: OutputTarget = 'html'): SourceLanguage => target === 'react' ? 'jsx' : 'html';
+
+export const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['textarea', 'title']);
+
+const KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof',
+  'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield', 'interface', 'enum', 'as',
+]);
+// Keywords after which a value has ended, so a following '/' divides rather than starting a regex
+const VALUE_KEYWORDS = new Set(['this', 'super', 'true', 'false', 'null', 'undefined']);
+
+const TAG_OPEN = /<(\/?)([A-Za-z][^\s/>]*)/y;
+const JSX_TAG_OPEN = /<(\/?)([A-Za-z][\w.:-]*)?/y;
+const ATTRIBUTE_NAME = /[^\s"'>\/=]+/y;
+const UNQUOTED_VALUE = /[^\s>]+/y;
+const ENTITY = /&(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);/iy;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const JS_NUMBER = /(?:0[xob][\da-f_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:e[+-]?\d+)?)n?/iy;
+const REGEX_LITERAL = /\/(?![*/])(?:[^/\\\n[]|\\.|\[(?:[^\]\\\n]|\\.)*\])+\/[a-z]*/y;
+const CSS_NUMBER = /(?:#[\da-f]{3,8}\b|[+-]?(?:\d*\.\d+|\d+)(?:%|[a-z]+)?)/iy;
+const CSS_WORD = /-?-?[A-Za-z_][\w-]*/y;
+const AT_RULE = /@[\w-]+/y;
+const IMPORTANT = /!\s*important/iy;
+
+type Mode =
+  | { kind: 'html' }
+  | { kind: 'tag'; tag: TagInfo; expectValue: boolean }
+  | { kind: 'js'; limit: number; jsx: boolean; root: boolean; closeOnBrace: boolean; depth: number; regexOk: boolean }
+  | { kind: 'template'; limit: number; jsx: boolean }
+  | { kind: 'css'; limit: number; atStart: boolean }
+  | { kind: 'jsx-children' };
+
+const isSpace = (c: string) => c === ' ' || c === '\n' || c === '\t' || c === '\r' || c === '\f';
+
+const isJsScript = (tag: TagInfo) => {
+  const type = tag.attributes.find(a => a.name === 'type')?.value?.toLowerCase().trim();
+  return !type || !/template|html/.test(type);
+};
+
+export const tokenize = (source: string, language: SourceLanguage = 'html'): SyntaxInfo => {
+  const n = source.length;
+  const lower = source.toLowerCase();
+  const tokens: SyntaxToken[] = [];
+  const tags: TagInfo[] = [];
+  const brackets = new Map<number, number>();
+  const regions: EmbeddedRegion[] = [];
+  const openBrackets: number[] = [];
+
+  const jsMode = (limit: number, jsx: boolean, options: Partial<{ root: boolean; closeOnBrace: boolean }> = {}): Mode =>
+    ({ kind: 'js', limit, jsx, root: !!options.root, closeOnBrace: !!options.closeOnBrace, depth: 0, regexOk: true });
+
+  const stack: Mode[] = [language === 'jsx' ? jsMode(n, true, { root: true }) : { kind: 'html' }];
+
+  const emit = (from: number, to: number, type: TokenType) => {
+    if (to > from) tokens.push({ from, to, type });
+  };
+
+  const openBracket = (at: number) => {
+    brackets.set(at, -1);
+    openBrackets.push(at);
+    emit(at, at + 1, 'bracket');
+  };
+
+  const closeBracket = (at: number) => {
+    const top = openBrackets[openBrackets.length - 1];
+    const expected = { ')': '(', ']': '[', '}': '{' }[source[at]];
+    if (top !== undefined && source[top] === expected) {
+      openBrackets.pop();
+      brackets.set(top, at);
+      brackets.set(at, top);
+    } else {
+      brackets.set(at, -1);
+    }
+    emit(at, at + 1, 'bracket');
+  };
+
+  const match = (pattern: RegExp, at: number) => {
+    pattern.lastIndex = at;
+    return pattern.exec(source);
+  };
+
+  const skipSpace = (at: number, limit: number) => {
+    while (at < limit && isSpace(source[at])) at++;
+    return at;
+  };
+
+  const startTag = (at: number, name: string, closing: boolean, length: number, jsx: boolean) => {
+    const tag: TagInfo = { name, from: at, closing, selfClosing: false, jsx, attributes: [] };
+    tags.push(tag);
+    emit(at, at + length, 'tag');
+    stack.push({ kind: 'tag', tag, expectValue: false });
+    return at + length;
+  };
+
+  // What follows a finished start tag in markup: script or style contents, raw text, or more markup
+  const enterContent = (tag: TagInfo, at: number) => {
+    if (tag.name === 'script' || tag.name === 'style') {
+      const close = lower.indexOf(`</${tag.name}`, at);
+      const limit = close < 0 ? n : close;
+      const isScript = tag.name === 'script';
+      if (isScript && !isJsScript(tag)) return at;
+      regions.push({ language: isScript ? 'js' : 'css', from: at, to: limit, tag: tags.indexOf(tag) });
+      const babel = /babel|jsx/.test(tag.attributes.find(a => a.name === 'type')?.value || '');
+      stack.push(isScript ? jsMode(limit, babel, { root: true }) : { kind: 'css', limit, atStart: true });
+      return at;
+    }
+    if (RAW_TEXT_ELEMENTS.has(tag.name)) {
+      const close = lower.indexOf(`</${tag.name}`, at);
+      return close < 0 ? n : close;
+    }
+    return at;
+  };
+
+  const htmlStep = (i: number): number => {
+    if (source.startsWith('<!--', i)) {
+      const end = source.indexOf('-->', i + 4);
+      if (end < 0) {
+        emit(i, n, 'invalid');
+        return n;
+      }
+      emit(i, end + 3, 'comment');
+      return end + 3;
+    }
+    if (source[i] === '<') {
+      if (source[i + 1] === '!' || source[i + 1] === '?') {
+        const end = source.indexOf('>', i);
+        const to = end < 0 ? n : end + 1;
+        emit(i, to, 'meta');
+        return to;
+      }
+      const tag = match(TAG_OPEN, i);
+      return tag ? startTag(i, tag[2].toLowerCase(), !!tag[1], tag[0].length, false) : i + 1;
+    }
+    if (source[i] === '&') {
+      const entity = match(ENTITY, i);
+      if (entity) {
+        emit(i, i + entity[0].length, 'entity');
+        return i + entity[0].length;
+      }
+    }
+    let next = i + 1;
+    while (next < n && source[next] !== '<' && source[next] !== '&') next++;
+    return next;
+  };
+
+  const tagStep = (mode: Extract<Mode, { kind: 'tag' }>, i: number): number => {
+    const { tag } = mode;
+    const c = source[i];
+    if (isSpace(c)) return skipSpace(i, n);
+
+    if (c === '>' || (c === '/' && source[i + 1] === '>')) {
+      const end = c === '>' ? i + 1 : i + 2;
+      emit(i, end, 'tag');
+      tag.to = end;
+      tag.selfClosing = c === '/';
+      stack.pop();
+      if (tag.jsx) return afterJsxTag(tag, end);
+      return tag.closing || tag.selfClosing ? end : enterContent(tag, end);
+    }
+
+    if (mode.expectValue) {
+      mode.expectValue = false;
+      const attribute = tag.attributes[tag.attributes.length - 1];
+      if (c === '"' || c === "'") {
+        const close = source.indexOf(c, i + 1);
+        if (close < 0) {
+          emit(i, n, 'invalid');
+          return n;
+        }
+        emit(i, close + 1, 'string');
+        if (attribute) attribute.value = source.slice(i + 1, close);
+        return close + 1;
+      }
+      if (tag.jsx && c === '{') {
+        openBracket(i);
+        stack.push(jsMode(n, true, { closeOnBrace: true }));
+        return i + 1;
+      }
+      const value = match(UNQUOTED_VALUE, i);
+      if (value) {
+        emit(i, i + value[0].length, 'string');
+        if (attribute) attribute.value = value[0];
+        return i + value[0].length;
+      }
+    }
+
+    if (c === '=') {
+      mode.expectValue = true;
+      return i + 1;
+    }
+    if (tag.jsx && c === '{') {
+      openBracket(i);
+      stack.push(jsMode(n, true, { closeOnBrace: true }));
+      return i + 1;
+    }
+    const name = match(ATTRIBUTE_NAME, i);
+    if (!name) return i + 1;
+    emit(i, i + name[0].length, 'attribute');
+    tag.attributes.push({ name: tag.jsx ? name[0] : name[0].toLowerCase(), from: i });
+    return i + name[0].length;
+  };
+
+  // JSX children follow an opening tag; a closing tag ends the children of the element it closes
+  const afterJsxTag = (tag: TagInfo, end: number) => {
+    if (tag.closing) {
+      if (stack[stack.length - 1]?.kind === 'jsx-children') stack.pop();
+    } else if (!tag.selfClosing) {
+      stack.push({ kind: 'jsx-children' });
+      return end;
+    }
+    const top = stack[stack.length - 1];
+    if (top?.kind === 'js') top.regexOk = false;
+    return end;
+  };
+
+  const jsxChildrenStep = (i: number): number => {
+    const c = source[i];
+    if (c === '{') {
+      openBracket(i);
+      stack.push(jsMode(n, true, { closeOnBrace: true }));
+      return i + 1;
+    }
+    if (c === '<') {
+      const tag = match(JSX_TAG_OPEN, i);
+      if (tag) return startTag(i, tag[2] || '', !!tag[1], tag[0].length, true);
+    }
+    if (c === '&') {
+      const entity = match(ENTITY, i);
+      if (entity) {
+        emit(i, i + entity[0].length, 'entity');
+        return i + entity[0].length;
+      }
+    }
+    let next = i + 1;
+    while (next < n && source[next] !== '<' && source[next] !== '{' && source[next] !== '&') next++;
+    return next;
+  };
+
+  const jsStep = (mode: Extract<Mode, { kind: 'js' }>, i: number): number => {
+    const { limit } = mode;
+    if (i >= limit) {
+      stack.pop();
+      if (mode.root) openBrackets.length = 0;
+      return i;
+    }
+    const c = source[i];
+    const next = source[i + 1];
+    if (isSpace(c)) return skipSpace(i, limit);
+
+    if (c === '/' && next === '/') {
+      let end = source.indexOf('\n', i);
+      if (end < 0 || end > limit) end = limit;
+      emit(i, end, 'comment');
+      return end;
+    }
+    if (c === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end < 0 || end + 2 > limit) {
+        emit(i, limit, 'invalid');
+        return limit;
+      }
+      emit(i, end + 2, 'comment');
+      return end + 2;
+    }
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < limit && source[j] !== c && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1;
+      mode.regexOk = false;
+      if (j < limit && source[j] === c) {
+        emit(i, j + 1, 'string');
+        return j + 1;
+      }
+      j = Math.min(j, limit);
+      emit(i, j, 'invalid');
+      return j;
+    }
+    if (c === '`') {
+      emit(i, i + 1, 'string');
+      mode.regexOk = false;
+      stack.push({ kind: 'template', limit, jsx: mode.jsx });
+      return i + 1;
+    }
+    if (c === '/' && mode.regexOk) {
+      const regex = match(REGEX_LITERAL, i);
+      if (regex && i + regex[0].length <= limit) {
+        emit(i, i + regex[0].length, 'string');
+        mode.regexOk = false;
+        return i + regex[0].length;
+      }
+    }
+    if (c === '<' && mode.jsx && mode.regexOk && /[A-Za-z>]/.test(next || '')) {
+      const tag = match(JSX_TAG_OPEN, i);
+      if (tag && !tag[1]) return startTag(i, tag[2] || '', false, tag[0].length, true);
+    }
+    if (/\d/.test(c) || (c === '.' && /\d/.test(next || ''))) {
+      const number = match(JS_NUMBER, i);
+      if (number) {
+        emit(i, i + number[0].length, 'number');
+        mode.regexOk = false;
+        return i + number[0].length;
+      }
+    }
+    if (/[A-Za-z_$]/.test(c)) {
+      const word = match(IDENTIFIER, i)![0];
+      const end = i + word.length;
+      const isMember = source[i - 1] === '.';
+      if (KEYWORDS.has(word) && !isMember) {
+        emit(i, end, 'keyword');
+        mode.regexOk = !VALUE_KEYWORDS.has(word);
+      } else {
+        if (source[end] === '(') emit(i, end, 'function');
+        mode.regexOk = false;
+      }
+      return end;
+    }
+    if (c === '(' || c === '[' || c === '{') {
+      openBracket(i);
+      if (c === '{' && mode.closeOnBrace) mode.depth++;
+      mode.regexOk = true;
+      return i + 1;
+    }
+    if (c === ')' || c === ']' || c === '}') {
+      closeBracket(i);
+      if (c === '}' && mode.closeOnBrace) {
+        if (mode.depth === 0) {
+          stack.pop();
+          return i + 1;
+        }
+        mode.depth--;
+      }
+      mode.regexOk = c === '}';
+      return i + 1;
+    }
+    mode.regexOk = true;
+    return i + 1;
+  };
+
+  const templateStep = (mode: Extract<Mode, { kind: 'template' }>, i: number): number => {
+    let j = i;
+    while (j < mode.limit) {
+      const c = source[j];
+      if (c === '\\') {
+        j += 2;
+      } else if (c === '`') {
+        emit(i, j + 1, 'string');
+        stack.pop();
+        return j + 1;
+      } else if (c === '$' && source[j + 1] === '{') {
+        emit(i, j + 1, 'string');
+        openBracket(j + 1);
+        stack.push(jsMode(mode.limit, mode.jsx, { closeOnBrace: true }));
+        return j + 2;
+      } else {
+        j++;
+      }
+    }
+    emit(i, mode.limit, 'invalid');
+    stack.pop();
+    return mode.limit;
+  };
+
+  const cssStep = (mode: Extract<Mode, { kind: 'css' }>, i: number): number => {
+    const { limit } = mode;
+    if (i >= limit) {
+      stack.pop();
+      openBrackets.length = 0;
+      return i;
+    }
+    const c = source[i];
+    if (isSpace(c)) return skipSpace(i, limit);
+
+    if (c === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end < 0 || end + 2 > limit) {
+        emit(i, limit, 'invalid');
+        return limit;
+      }
+      emit(i, end + 2, 'comment');
+      return end + 2;
+    }
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < limit && source[j] !== c && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1;
+      if (j < limit && source[j] === c) {
+        emit(i, j + 1, 'string');
+        return j + 1;
+      }
+      j = Math.min(j, limit);
+      emit(i, j, 'invalid');
+      return j;
+    }
+    if (c === '{' || c === '}' || c === ';') {
+      if (c === '{') openBracket(i);
+      if (c === '}') closeBracket(i);
+      mode.atStart = true;
+      return i + 1;
+    }
+    if (c === '(' || c === '[') {
+      openBracket(i);
+      return i + 1;
+    }
+    if (c === ')' || c === ']') {
+      closeBracket(i);
+      return i + 1;
+    }
+
+    if (mode.atStart) {
+      mode.atStart = false;
+      if (c === '@') {
+        const rule = match(AT_RULE, i);
+        if (rule) {
+          emit(i, i + rule[0].length, 'keyword');
+          return i + rule[0].length;
+        }
+      }
+      // A statement that reaches '{' before ';' or '}' is a selector, anything else a declaration
+      let end = i;
+      while (end < limit && source[end] !== '{' && source[end] !== ';' && source[end] !== '}') end++;
+      if (source[end] === '{' && end < limit) {
+        let selectorEnd = end;
+        while (selectorEnd > i && isSpace(source[selectorEnd - 1])) selectorEnd--;
+        emit(i, selectorEnd, 'selector');
+        return selectorEnd;
+      }
+      const property = match(CSS_WORD, i);
+      if (property) {
+        emit(i, i + property[0].length, 'property');
+        return i + property[0].length;
+      }
+    }
+
+    if (c === '!') {
+      const important = match(IMPORTANT, i);
+      if (important) {
+        emit(i, i + important[0].length, 'keyword');
+        return i + important[0].length;
+      }
+    }
+    if (/[\d#.+-]/.test(c)) {
+      const number = match(CSS_NUMBER, i);
+      if (number && number[0] !== '-' && number[0] !== '+') {
+        emit(i, i + number[0].length, 'number');
+        return i + number[0].length;
+      }
+    }
+    const word = match(CSS_WORD, i);
+    if (word) {
+      const end = i + word[0].length;
+      if (source[end] === '(') emit(i, end, 'function');
+      return end;
+    }
+    return i + 1;
+  };
+
+  let i = 0;
+  while (i < n) {
+    const mode = stack[stack.length - 1];
+    if (!mode) break;
+    const depth = stack.length;
+    let next: number;
+    switch (mode.kind) {
+      case 'html': next = htmlStep(i); break;
+      case 'tag': next = tagStep(mode, i); break;
+      case 'js': next = jsStep(mode, i); break;
+      case 'template': next = templateStep(mode, i); break;
+      case 'css': next = cssStep(mode, i); break;
+      case 'jsx-children': next = jsxChildrenStep(i); break;
+    }
+    // Every step consumes input or changes mode; this guards against a pattern that matches nothing
+    i = next === i && stack.length === depth && stack[stack.length - 1] === mode ? i + 1 : next;
+  }
+
+  return { tokens, tags, brackets, regions };
+};
+
+export interface TagPairs {
+  partner: number[]; // Index of the matching tag, or -1
+  stray: number[];   // End tags without a start tag
+  unclosed: number[]; // Start tags closed implicitly, or never closed
+}
+
+// Same forgiving rules as services/inspector.ts: an end tag closes the nearest open element with its name
+export const pairTags = (tags: TagInfo[]): TagPairs => {
+  const partner = tags.map(() => -1);
+  const stray: number[] = [];
+  const unclosed: number[] = [];
+  const open: number[] = [];
+
+  tags.forEach((tag, idx) => {
+    if (tag.closing) {
+      let k = open.length - 1;
+      while (k >= 0 && tags[open[k]].name !== tag.name) k--;
+      if (k < 0) {
+        stray.push(idx);
+        return;
+      }
+      partner[idx] = open[k];
+      partner[open[k]] = idx;
+      unclosed.push(...open.slice(k + 1));
+      open.length = k;
+    } else if (!tag.selfClosing && tag.to !== undefined && (tag.jsx || !VOID_ELEMENTS.has(tag.name))) {
+      open.push(idx);
+    }
+  });
+  unclosed.push(...open);
+  return { partner, stray, unclosed };
+};
+
+export const getLineStarts = (source: string): number[] => {
+  const starts = [0];
+  for (let i = source.indexOf('\n'); i >= 0; i = source.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+};
+
+// 0-based line containing the offset
+export const lineAt = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid; else high = mid - 1;
+  }
+  return low;
+};
+
+// Index of the first token that ends after each line starts, so a line's tokens can be found without a search
+export const indexLineTokens = (tokens: SyntaxToken[], lineStarts: number[]): number[] => {
+  const index: number[] = [];
+  let t = 0;
+  lineStarts.forEach(start => {
+    while (t < tokens.length && tokens[t].to <= start) t++;
+    index.push(t);
+  });
+  return index;
+};
+
+// Line ranges that can be folded: multi-line elements, bracket blocks and comments. Folding a range hides
+// the lines between its first and last line; a line that starts several ranges folds the longest.
+export const getFoldRanges = (syntax: SyntaxInfo, lineStarts: number[]): Map<number, number> => {
+  const ranges = new Map<number, number>();
+  const add = (from: number, to: number) => {
+    const first = lineAt(lineStarts, from);
+    const last = lineAt(lineStarts, to);
+    if (last - first >= 2 && (ranges.get(first) ?? 0) < last) ranges.set(first, last);
+  };
+
+  const { partner } = pairTags(syntax.tags);
+  partner.forEach((other, idx) => {
+    if (other > idx) add(syntax.tags[idx].from, syntax.tags[other].from);
+  });
+  syntax.brackets.forEach((other, at) => {
+    if (other > at) add(at, other);
+  });
+  syntax.tokens.forEach(token => {
+    if (token.type === 'comment') add(token.from, token.to - 1);
+  });
+  return ranges;
+};
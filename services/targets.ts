@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Output targets: what kind of source the model is asked for. Component targets can't run on their own, so the
+// preview wraps them in a harness document that compiles and mounts them in the browser from CDN builds.
+
+export type OutputTarget = 'html' | 'react' | 'vue' | 'vanilla';
+
+export const DEFAULT_OUTPUT_TARGET: OutputTarget = 'html';
+
+export const OUTPUT_TARGETS: Record<OutputTarget, { label: string; description: string; filename: string; instructions: string }> = {
+  html: {
+    label: 'HTML + Tailwind',
+    description: 'A single HTML file with Tailwind and Lucide from CDNs.',
+    filename: 'index.html',
+    instructions: `Deliver a single self-contained HTML file with Tailwind via CDN (<script src="https://cdn.tailwindcss.com"></script>).
+Lucide icons (via CDN) are available for visual flair.
+Return ONLY the raw HTML code. Do not wrap it in markdown code blocks. Start immediately with <!DOCTYPE html>.`,
+  },
+  react: {
+    label: 'React component',
+    description: 'One TSX file with a default-exported function component.',
+    filename: 'App.tsx',
+    instructions: `Deliver ONE self-contained React function component written in TypeScript (TSX), ready to drop into an existing codebase.
+- Import only from 'react' (hooks such as useState, useEffect, useMemo). No other packages, no CSS imports.
+- \`export default\` the top-level component. It takes no props; define any helper components and types in the same file.
+- Style with Tailwind utility classes in className; Tailwind is available at runtime.
+- Draw icons as small inline SVG components instead of using an icon library.
+- Do NOT include <html>, <head> or <body>, and do NOT call createRoot or ReactDOM.render; the host mounts the component.
+Return ONLY the TSX source. Do not wrap it in markdown code blocks. Start immediately with the imports.`,
+  },
+  vue: {
+    label: 'Vue component',
+    description: 'One Vue 3 single-file component using <script setup>.',
+    filename: 'App.vue',
+    instructions: `Deliver ONE self-contained Vue 3 single-file component (.vue), ready to drop into an existing codebase.
+- Use <script setup lang="ts"> with the Composition API. Import only from 'vue'; no other packages.
+- Put the markup in <template>. Style with Tailwind utility classes; Tailwind is available at runtime. Use <style scoped> only for what utilities can't express.
+- Draw icons as inline SVG instead of using an icon library.
+- Do NOT include <html>, <head> or <body>, and do NOT call createApp; the host mounts the component.
+Return ONLY the .vue source. Do not wrap it in markdown code blocks. Start immediately with <script setup lang="ts"> or <template>.`,
+  },
+  vanilla: {
+    label: 'Plain HTML/CSS',
+    description: 'A single HTML file with no CDN or external resources.',
+    filename: 'index.html',
+    instructions: `Deliver a single self-contained HTML file using plain CSS in a <style> tag and plain JavaScript in a <script> tag.
+- Load NOTHING from the network: no CDN scripts or stylesheets, no Tailwind, no icon libraries, no web fonts. Use system font stacks.
+- If the style profile refers to Tailwind classes, write the equivalent CSS yourself.
+- Draw icons as inline SVG.
+Return ONLY the raw HTML code. Do not wrap it in markdown code blocks. Start immediately with <!DOCTYPE html>.`,
+  },
+};
+
+export const isComponentTarget = (target: OutputTarget) => target === 'react' || target === 'vue';
+
+// Runtime builds used by the harnesses; pinned to a major version so generated code keeps working
+const TAILWIND_URL = 'https://cdn.tailwindcss.com';
+const BABEL_URL = 'https://unpkg.com/@babel/standalone@7/babel.min.js';
+const VUE_URL = 'https://unpkg.com/vue@3/dist/vue.global.prod.js';
+const VUE_SFC_LOADER_URL = 'https://cdn.jsdelivr.net/npm/vue3-sfc-loader@0.9/dist/vue3-sfc-loader.js';
+const REACT_IMPORTS = {
+  'react': 'https://esm.sh/react@19',
+  'react/jsx-runtime': 'https://esm.sh/react@19/jsx-runtime',
+  'react-dom/client': 'https://esm.sh/react-dom@19/client',
+};
+
+// A JS string literal that is safe inside an inline <script>
+const toScriptString = (source: string) =>
+  JSON.stringify(source).replace(/<\/script/gi, '<\\/script').replace(/<!--/g, '<\\!--');
+
+const harnessDocument = (head: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<script src="${TAILWIND_URL}"></script>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+// Compile errors are shown in place of the app and rethrown so the preview console records them.
+// A runtime that didn't load is reported the same way, since otherwise the frame just stays blank.
+const SHOW_ERROR = `function showError(error) {
+  var pre = document.createElement('pre');
+  pre.style.cssText = 'margin:16px;padding:12px;border-radius:8px;background:#fef2f2;color:#991b1b;font:12px/1.5 ui-monospace,monospace;white-space:pre-wrap';
+  pre.textContent = String(error && error.message || error);
+  document.body.appendChild(pre);
+  setTimeout(function () { throw error; });
+}
+function runtimeError(name) {
+  return new Error(name + ' could not be loaded from its CDN. Component previews need network access to their runtime; pick a sandbox policy other than Fully offline, or allow the CDN in a custom policy.');
+}`;
+
+// The TSX is compiled with Babel, the default export is renamed so the harness can mount it, and the result
+// runs as an inline module so bare `react` imports resolve through the import map. Both `export default App`
+// and `export { App as default }` are recognised; other export lists are dropped, since nothing imports them.
+const reactHarness = (source: string) => harnessDocument(
+  `<script src="${BABEL_URL}"></script>
+<script type="importmap">${JSON.stringify({ imports: REACT_IMPORTS })}</script>`,
+  `<div id="root"></div>
+<script>
+${SHOW_ERROR}
+try {
+  if (typeof Babel === 'undefined') throw runtimeError('The React compiler (Babel)');
+  var code = Babel.transform(${toScriptString(source)}, {
+    filename: 'App.tsx',
+    presets: [['react', { runtime: 'automatic' }], 'typescript']
+  }).code
+    .replace(/^export\\s+default\\s+/m, 'const __App = ')
+    .replace(/^export\\s+(?=(const|let|var|function|class|async)\\b)/gm, '')
+    .replace(/^export\\s*\\{([^}]*)\\};?/gm, function (list, names) {
+      var named = names.match(/(\\w+)\\s+as\\s+default\\b/);
+      return named ? 'const __App = ' + named[1] + ';' : '';
+    });
+  if (!/^const __App = /m.test(code)) throw new Error('The component has no default export. Add "export default" to the top-level component.');
+  var script = document.createElement('script');
+  script.type = 'module';
+  script.onerror = function () { showError(runtimeError('React')); };
+  script.textContent = code + "\\nimport { createRoot as __createRoot } from 'react-dom/client';\\nimport { createElement as __h } from 'react';\\n__createRoot(document.getElementById('root')).render(__h(__App));";
+  document.body.appendChild(script);
+} catch (error) {
+  showError(error);
+}
+</script>`
+);
+
+const vueHarness = (source: string) => harnessDocument(
+  `<script src="${VUE_URL}"></script>
+<script src="${VUE_SFC_LOADER_URL}"></script>`,
+  `<div id="app"></div>
+<script>
+${SHOW_ERROR}
+var options = {
+  moduleCache: { vue: window.Vue },
+  getFile: function () { return ${toScriptString(source)}; },
+  addStyle: function (css) {
+    var style = document.createElement('style');
+    style.textContent = css;
+    document.head.appendChild(style);
+  },
+  log: function (type, message) { console[type](message); }
+};
+if (typeof Vue === 'undefined' || !window['vue3-sfc-loader']) {
+  showError(runtimeError('The Vue runtime'));
+} else {
+  Vue.createApp(Vue.defineAsyncComponent(function () {
+    return window['vue3-sfc-loader'].loadModule('/App.vue', options).catch(function (error) {
+      showError(error);
+      throw error;
+    });
+  })).mount('#app');
+}
+</script>`
+);
+
+// The document to render for a creation's source. HTML targets are already complete documents.
+export const buildPreviewDocument = (source: string, target: OutputTarget = DEFAULT_OUTPUT_TARGET): string => {
+  if (target === 'react') return reactHarness(source);
+  if (target === 'vue') return vueHarness(source);
+  return source;
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelPart, ModelRequest } from './providers';
+import { isFullSelection, PageSelection } from './pdf';
+
+// Local token estimates, used as the user types and whenever a provider can't count tokens itself.
+// Media costs follow Gemini's default media resolution; other backends land in the same range.
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1120;
+const PDF_PAGE_TOKENS = 560;
+// Page count guess for PDFs that haven't been opened yet
+const BYTES_PER_PDF_PAGE = 100_000;
+
+// Expected output size of one generation when there is no usage history to go on
+export const DEFAULT_OUTPUT_TOKENS = 12_000;
+
+export interface TokenEstimate {
+  promptTokens: number;
+  outputTokens: number;
+  source: 'provider' | 'heuristic'; // Whether the prompt count came from the backend or from this module
+}
+
+// What's known about an attachment before it is read or rendered
+export interface PendingMedia {
+  mimeType: string;
+  size: number; // Bytes
+  pageSelection?: PageSelection;
+}
+
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimatePdfPages = (bytes: number) => Math.max(1, Math.round(bytes / BYTES_PER_PDF_PAGE));
+
+// A partial PDF selection is rasterised and sent as one image per page
+export const estimateMediaTokens = ({ mimeType, size, pageSelection }: PendingMedia): number => {
+  if (mimeType !== 'application/pdf') return IMAGE_TOKENS;
+  if (!pageSelection) return estimatePdfPages(size) * PDF_PAGE_TOKENS;
+  return isFullSelection(pageSelection)
+    ? pageSelection.pageCount * PDF_PAGE_TOKENS
+    : pageSelection.pages.length * IMAGE_TOKENS;
+};
+
+const estimatePartTokens = (part: ModelPart) =>
+  'text' in part
+    ? estimateTextTokens(part.text)
+    : estimateMediaTokens({ mimeType: part.inlineData.mimeType, size: Math.floor(part.inlineData.data.length * 3 / 4) });
+
+export const estimateRequestTokens = (request: ModelRequest): number =>
+  estimateTextTokens(request.systemInstruction) +
+  request.messages.reduce((sum, message) => sum + message.parts.reduce((partSum, part) => partSum + estimatePartTokens(part), 0), 0);
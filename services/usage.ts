@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProviderId, TokenUsage } from './providers';
+import { TokenEstimate } from './tokens';
+
+// Usage ledger: one entry per model call, kept in localStorage so budgets survive reloads. Budgets are
+// checked against the ledger rather than a running counter, so they lapse on their own when the period ends.
+
+const LEDGER_KEY = 'gemini_usage_ledger';
+const SETTINGS_KEY = 'gemini_usage_settings';
+const LEGACY_COUNTER_KEY = 'gemini_session_tokens';
+
+// Entries older than this are dropped on save; long enough for a year-on-year monthly report
+const LEDGER_RETENTION_DAYS = 400;
+// Only the newest entries are saved past this, so the ledger can't crowd out other settings in localStorage
+const MAX_LEDGER_ENTRIES = 10_000;
+
+export type UsageOperation = 'generate' | 'variant' | 'merge' | 'refine' | 'patch' | 'repair' | 'regenerate';
+
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+  generate: 'Generate',
+  variant: 'Variant',
+  merge: 'Merge',
+  refine: 'AI edit',
+  patch: 'Element edit',
+  repair: 'Repair',
+  regenerate: 'Regenerate',
+};
+
+export interface UsageEntry {
+  id: string;
+  timestamp: Date;
+  provider: ProviderId;
+  model: string;
+  operation: UsageOperation;
+  promptTokens: number;
+  candidateTokens: number;
+  projectId?: string; // The creation the call produced or edited
+  projectName?: string;
+}
+
+// An entry as stored in localStorage, where the timestamp is an ISO string
+type SerializedUsageEntry = Omit<UsageEntry, 'timestamp'> & { timestamp: string };
+
+// USD per million tokens. Prompts longer than `longContext.threshold` tokens are billed at the higher rate.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  longContext?: { threshold: number; input: number; output: number };
+}
+
+// Public list prices; models are matched by longest prefix, so dated or suffixed names still resolve
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-3-pro': { input: 2, output: 12, longContext: { threshold: 200_000, input: 4, output: 18 } },
+  'gemini-2.5-pro': { input: 1.25, output: 10, longContext: { threshold: 200_000, input: 2.5, output: 15 } },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+export type BudgetUnit = 'tokens' | 'usd';
+
+// 'calendar' resets at local midnight and at the start of the week; 'rolling' looks back 24 hours / 7 days
+export type BudgetResetPolicy = 'calendar' | 'rolling';
+
+export type BudgetScope = 'daily' | 'weekly' | 'project';
+
+export interface UsageSettings {
+  unit: BudgetUnit;
+  resetPolicy: BudgetResetPolicy;
+  weekStartsOn: 0 | 1; // Sunday or Monday, for calendar weeks
+  budgets: Record<BudgetScope, number | null>; // null means unlimited
+  localModelsAreFree: boolean; // Treat OpenAI-compatible (local) calls as zero cost
+  pricingOverrides: Record<string, ModelPrice>;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  unit: 'tokens',
+  resetPolicy: 'calendar',
+  weekStartsOn: 1,
+  budgets: { daily: 2_000_000, weekly: null, project: null },
+  localModelsAreFree: true,
+  pricingOverrides: {},
+};
+
+export const BUDGET_LABELS: Record<BudgetScope, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  project: 'Per project',
+};
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  used: number;
+  limit: number;
+  percentage: number;
+  resetsAt?: Date; // Absent for rolling windows and for project budgets, which never reset
+}
+
+// Warn from this share of a budget; generation is blocked once a budget is used up
+export const BUDGET_WARNING_THRESHOLD = 80;
+
+export const getEntryTokens = (entry: UsageEntry) => entry.promptTokens + entry.candidateTokens;
+
+export const createUsageEntry = (
+  settings: { provider: ProviderId; model: string },
+  operation: UsageOperation,
+  usage: TokenUsage,
+  project?: { id: string; name: string }
+): UsageEntry => ({
+  id: crypto.randomUUID(),
+  timestamp: new Date(),
+  provider: settings.provider,
+  model: settings.model,
+  operation,
+  promptTokens: usage.promptTokenCount,
+  // Some backends only report a total, so derive output tokens from it when needed
+  candidateTokens: usage.candidatesTokenCount || Math.max(0, usage.totalTokenCount - usage.promptTokenCount),
+  projectId: project?.id,
+  projectName: project?.name,
+});
+
+export const getModelPrice = (model: string, settings: UsageSettings): ModelPrice | null => {
+  const name = model.toLowerCase();
+  if (settings.pricingOverrides[name]) return settings.pricingOverrides[name];
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+};
+
+// Estimated USD cost of one call, or null when the model has no known price
+export const estimateCost = (entry: UsageEntry, settings: UsageSettings): number | null => {
+  if (entry.provider === 'openai-compatible' && settings.localModelsAreFree) return 0;
+  const price = getModelPrice(entry.model, settings);
+  if (!price) return null;
+  const rates = price.longContext && entry.promptTokens > price.longContext.threshold ? price.longContext : price;
+  return (entry.promptTokens * rates.input + entry.candidateTokens * rates.output) / 1_000_000;
+};
+
+// Cost of unpriced calls counts as zero towards budgets; reports flag them separately
+const measure = (entries: UsageEntry[], settings: UsageSettings) =>
+  entries.reduce((sum, e) => sum + (settings.unit === 'usd' ? estimateCost(e, settings) ?? 0 : getEntryTokens(e)), 0);
+
+// Start of the current period and when it next resets; rolling windows free up gradually instead
+const getPeriod = (scope: 'daily' | 'weekly', settings: UsageSettings, now: Date): { start: Date; resetsAt?: Date } => {
+  const days = scope === 'daily' ? 1 : 7;
+  if (settings.resetPolicy === 'rolling') {
+    return { start: new Date(now.getTime() - days * 86_400_000) };
+  }
+  const start = getStartOfDay(now);
+  if (scope === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() - settings.weekStartsOn + 7) % 7));
+  }
+  const resetsAt = new Date(start);
+  resetsAt.setDate(resetsAt.getDate() + days);
+  return { start, resetsAt };
+};
+
+export const getEntriesSince = (ledger: UsageEntry[], start: Date) => ledger.filter(e => e.timestamp >= start);
+
+export const getStartOfDay = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const getTotals = (entries: UsageEntry[], settings: UsageSettings) => ({
+  tokens: entries.reduce((sum, e) => sum + getEntryTokens(e), 0),
+  cost: entries.reduce((sum, e) => sum + (estimateCost(e, settings) ?? 0), 0),
+});
+
+// Status of every configured budget; pass a project id to include the per-project budget
+export const getBudgetStatuses = (ledger: UsageEntry[], settings: UsageSettings, projectId?: string, now = new Date()): BudgetStatus[] => {
+  const statuses: BudgetStatus[] = [];
+  const push = (scope: BudgetScope, used: number, resetsAt?: Date) => {
+    const limit = settings.budgets[scope]!;
+    statuses.push({ scope, used, limit, percentage: limit > 0 ? (used / limit) * 100 : 100, resetsAt });
+  };
+
+  (['daily', 'weekly'] as const).forEach(scope => {
+    if (settings.budgets[scope] === null) return;
+    const { start, resetsAt } = getPeriod(scope, settings, now);
+    push(scope, measure(getEntriesSince(ledger, start), settings), resetsAt);
+  });
+  if (settings.budgets.project !== null && projectId) {
+    push('project', measure(ledger.filter(e => e.projectId === projectId), settings));
+  }
+  return statuses;
+};
+
+// The budget closest to (or furthest past) its limit
+export const getTightestBudget = (statuses: BudgetStatus[]): BudgetStatus | null =>
+  statuses.reduce<BudgetStatus | null>((worst, s) => (!worst || s.percentage > worst.percentage ? s : worst), null);
+
+// A budget is used up once it reaches its limit; the meters, the banner and the send checks all go by this
+export const isBudgetUsedUp = (status: BudgetStatus) => status.percentage >= 100;
+
+export const isBudgetExceeded = (statuses: BudgetStatus[]) => statuses.some(isBudgetUsedUp);
+
+// Median output of recent generations on this model, as a guess for the next one
+export const getTypicalOutputTokens = (ledger: UsageEntry[], model: string, fallback: number): number => {
+  const recent = ledger
+    .filter(e => e.model === model && (e.operation === 'generate' || e.operation === 'variant' || e.operation === 'regenerate'))
+    .slice(-20)
+    .map(e => e.candidateTokens)
+    .sort((a, b) => a - b);
+  return recent.length > 0 ? recent[Math.floor(recent.length / 2)] : fallback;
+};
+
+export interface PendingUsageCheck {
+  cost: number | null; // Estimated USD, null when the model has no known price
+  exceeded: BudgetStatus | null; // The budget the request would overrun, as it would stand afterwards
+  warning: BudgetStatus | null; // The budget it would push past the warning threshold
+}
+
+export type GenerationEstimate = TokenEstimate & PendingUsageCheck;
+
+// Projects budgets as if the pending calls had already been made
+export const checkPendingUsage = (
+  ledger: UsageEntry[],
+  settings: UsageSettings,
+  pending: Pick<UsageEntry, 'provider' | 'model' | 'operation' | 'promptTokens' | 'candidateTokens'>,
+  projectId?: string
+): PendingUsageCheck => {
+  const entry: UsageEntry = { ...pending, id: 'pending', timestamp: new Date(), projectId };
+  const tightest = getTightestBudget(getBudgetStatuses([...ledger, entry], settings, projectId));
+  return {
+    cost: estimateCost(entry, settings),
+    exceeded: tightest && isBudgetUsedUp(tightest) ? tightest : null,
+    warning: tightest && tightest.percentage >= BUDGET_WARNING_THRESHOLD ? tightest : null,
+  };
+};
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  candidateTokens: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+// Groups entries by the given key, largest token count first
+export const summarizeUsage = (entries: UsageEntry[], settings: UsageSettings, keyOf: (entry: UsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    const group = groups.get(key) || { key, calls: 0, promptTokens: 0, candidateTokens: 0, cost: 0, unpricedCalls: 0 };
+    const cost = estimateCost(entry, settings);
+    group.calls++;
+    group.promptTokens += entry.promptTokens;
+    group.candidateTokens += entry.candidateTokens;
+    group.cost += cost ?? 0;
+    if (cost === null) group.unpricedCalls++;
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort((a, b) => (b.promptTokens + b.candidateTokens) - (a.promptTokens + a.candidateTokens));
+};
+
+export const getMonthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const formatCost = (usd: number) => usd === 0 ? '$0.00' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const formatBudgetAmount = (value: number, unit: BudgetUnit) =>
+  unit === 'usd' ? formatCost(value) : `${Math.round(value).toLocaleString()} tokens`;
+
+// Compact token figure, e.g. 1.2M or 14.5K
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(Math.round(tokens));
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportUsageCsv = (entries: UsageEntry[], settings: UsageSettings): string => {
+  const header = ['timestamp', 'provider', 'model', 'operation', 'project', 'prompt_tokens', 'candidate_tokens', 'total_tokens', 'estimated_cost_usd'];
+  const rows = entries.map(e => {
+    const cost = estimateCost(e, settings);
+    return [e.timestamp.toISOString(), e.provider, e.model, e.operation, e.projectName || '', e.promptTokens, e.candidateTokens, getEntryTokens(e), cost === null ? '' : cost.toFixed(6)];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const loadUsageLedger = (): UsageEntry[] => {
+  // The old lifetime counter has no timestamps or models to report on, so it is retired rather than imported
+  localStorage.removeItem(LEGACY_COUNTER_KEY);
+  try {
+    const saved = localStorage.getItem(LEDGER_KEY);
+    if (!saved) return [];
+    return (JSON.parse(saved) as SerializedUsageEntry[]).map(e => ({ ...e, timestamp: new Date(e.timestamp) }));
+  } catch (e) {
+    console.error("Failed to load usage ledger", e);
+    return [];
+  }
+};
+
+// Throws when localStorage is full
+export const saveUsageLedger = (ledger: UsageEntry[]) => {
+  const cutoff = new Date(Date.now() - LEDGER_RETENTION_DAYS * 86_400_000);
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger.filter(e => e.timestamp >= cutoff).slice(-MAX_LEDGER_ENTRIES)));
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_USAGE_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return { ...DEFAULT_USAGE_SETTINGS, ...parsed, budgets: { ...DEFAULT_USAGE_SETTINGS.budgets, ...parsed.budgets } };
+  } catch (e) {
+    console.error("Failed to load usage settings", e);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationVersion, VersionKind } from '../components/CreationHistory';
+
+const MAX_VERSIONS = 50;
+// Consecutive auto-saves within this window collapse into one version
+const AUTOSAVE_COALESCE_MS = 60_000;
+
+export const VERSION_KIND_LABELS: Record<VersionKind, string> = {
+  generated: 'Generated',
+  refined: 'AI edit',
+  repaired: 'Repaired',
+  manual: 'Saved',
+  autosave: 'Auto-save',
+  restored: 'Restored',
+  forked: 'Forked',
+};
+
+// Creations saved before version tracking get their current HTML as the first version. The latest version
+// always matches `html`, so its body is known even when the others haven't been loaded from storage.
+export const getVersions = (creation: Creation): CreationVersion[] => {
+  if (!creation.versions?.length) {
+    return [{ id: `${creation.id}-initial`, html: creation.html, kind: 'generated', timestamp: creation.timestamp }];
+  }
+  const last = creation.versions[creation.versions.length - 1];
+  return last.html === undefined ? [...creation.versions.slice(0, -1), { ...last, html: creation.html }] : creation.versions;
+};
+
+export const createVersion = (html: string, kind: VersionKind, label?: string): CreationVersion => ({
+  id: crypto.randomUUID(),
+  html,
+  kind,
+  label,
+  timestamp: new Date(),
+});
+
+// Returns the creation with `html` replaced and the change recorded on its timeline
+export const appendVersion = (creation: Creation, html: string, kind: VersionKind, label?: string): Creation => {
+  let versions = [...getVersions(creation)];
+  const last = versions[versions.length - 1];
+  const now = new Date();
+
+  if (last.html === html && kind === 'autosave') {
+    return { ...creation, html, timestamp: now };
+  }
+
+  if (kind === 'autosave' && last.kind === 'autosave' && now.getTime() - last.timestamp.getTime() < AUTOSAVE_COALESCE_MS) {
+    versions[versions.length - 1] = { ...last, html, timestamp: now };
+  } else {
+    versions.push(createVersion(html, kind, label));
+  }
+
+  // Always keep the original generation, drop the oldest revisions after it
+  if (versions.length > MAX_VERSIONS) {
+    versions = [versions[0], ...versions.slice(versions.length - MAX_VERSIONS + 1)];
+  }
+
+  return { ...creation, html, versions, timestamp: now };
+};
+
+export const forkCreation = (creation: Creation, version: CreationVersion, versionNumber: number): Creation => ({
+  ...creation,
+  id: crypto.randomUUID(),
+  name: `${creation.name} (fork of v${versionNumber})`,
+  html: version.html,
+  conversation: undefined,
+  versions: [createVersion(version.html, 'forked', `Forked from ${creation.name} v${versionNumber}`)],
+  timestamp: new Date(),
+});
+
+// A version as it reads back from a JSON import, with its timestamp still a string
+export type SerializedVersion = Omit<CreationVersion, 'timestamp'> & { timestamp: string | Date };
+
+export const reviveVersions = (versions?: SerializedVersion[]): CreationVersion[] | undefined =>
+  versions?.map(v => ({ ...v, timestamp: new Date(v.timestamp) }));
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// Past this many table cells (16 MB) a changed block is shown as replaced wholesale instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+// LCS diff of the changed block between a common prefix of `start` lines and a common suffix
+const diffBlock = (a: string[], b: string[], start: number): DiffLine[] => {
+  const n = a.length;
+  const m = b.length;
+  const result: DiffLine[] = [];
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    a.forEach((text, k) => result.push({ type: 'removed', text, oldNumber: start + k + 1 }));
+    b.forEach((text, k) => result.push({ type: 'added', text, newNumber: start + k + 1 }));
+    return result;
+  }
+
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = a[i] === b[j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i], oldNumber: start + i + 1, newNumber: start + j + 1 });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || table[i * (m + 1) + j + 1] >= table[(i + 1) * (m + 1) + j])) {
+      result.push({ type: 'added', text: b[j], newNumber: start + j + 1 });
+      j++;
+    } else {
+      result.push({ type: 'removed', text: a[i], oldNumber: start + i + 1 });
+      i++;
+    }
+  }
+  return result;
+};
+
+// Line-based LCS diff. Common prefix and suffix are trimmed first, which keeps the
+// table small for the typical case of a localized edit in a large document.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'same', text: a[k], oldNumber: k + 1, newNumber: k + 1 });
+  }
+
+  diffBlock(a.slice(start, endA), b.slice(start, endB), start).forEach(line => result.push(line));
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'same', text: a[endA + k], oldNumber: endA + k + 1, newNumber: endB + k + 1 });
+  }
+
+  return result;
+};